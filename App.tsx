@@ -1,8 +1,48 @@
 
 import React, { useState, useEffect, useRef, Suspense, lazy, useCallback } from 'react';
-import { ImageFile, BatchItem, ImageAdjustments } from './types';
-import { generatePodImage, analyzeInsights, redesignPattern, creativePattern, cloneMockupToPattern } from './services/geminiService';
+import { ImageFile, BatchItem, ImageAdjustments, EditSession, EditTurnKind, UpscaledAsset, KeywordMetrics, CompetitorProduct } from './types';
+import { generatePodImage, analyzeInsights, generateListingCopy, redesignPattern, creativePattern, cloneMockupToPattern, editMaskedRegion, GenerationMode, PatternEdit } from './services/geminiService';
 import { exportToMockup, checkMockupServer, subscribeToProgress, exportBatch, crawlBoth } from './services/mockupService';
+import { listProviders, getActiveProviderId, setActiveProvider } from './services/imageProvider';
+import { subscribeToQueue, getSchedulerConfig, configureScheduler, dismissFinishedJobs, pauseScheduler, resumeScheduler, isAbortError, SchedulerJob, SchedulerConfig } from './services/generationScheduler';
+import GenerationQueuePanel from './components/GenerationQueuePanel';
+import PromptLibraryModal from './components/PromptLibraryModal';
+import BatchSettingsDrawer from './components/BatchSettingsDrawer';
+import InsightCards from './components/InsightCards';
+import MaskCanvas, { MaskToolbar, MaskTool } from './components/MaskCanvas';
+import { unrotateMask } from './services/maskComposite';
+import PatternVersionTimeline from './components/PatternVersionTimeline';
+import { createEditSession, addEditTurn, selectTurn, getActiveTurn, findTurnByImage, buildConversation, getTurnTree } from './services/editSession';
+import { buildInsightsCsv, downloadCsv } from './services/csvExport';
+import { upscaleImage, isAlgorithmAvailable, UPSCALE_ALGORITHMS, UpscaleAlgorithm } from './services/upscaler';
+import { listBatchResults, getResultFileName, getResultKey, resetModeArtifacts, resetResultArtifacts, RESULT_MODES, BatchResult } from './services/batchResults';
+import BatchResultsStrip from './components/BatchResultsStrip';
+import { pickBatchResult, listSelectedResults, setResultReview, ResultReview } from './services/resultReview';
+import UpscaleCompare from './components/UpscaleCompare';
+import TilePreview from './components/TilePreview';
+import { removeSolidBackground, getBackgroundKeyColor } from './services/backgroundRemoval';
+import { ensureSeamless, repairSeams, checkSeamContinuity, SeamReport } from './services/seamlessTile';
+import { runQualityGate, isQcApplicable, DEFAULT_QC_SETTINGS, QcReport, QcSettings } from './services/qualityGate';
+import { screenBatch, needsIpAcknowledgement, IpScreening } from './services/ipScreening';
+import IpBlocklistModal from './components/IpBlocklistModal';
+import IpRiskModal from './components/IpRiskModal';
+import ListingEditor from './components/ListingEditor';
+import CompetitorTable from './components/CompetitorTable';
+import ReferencePickerModal from './components/ReferencePickerModal';
+import { NEAR_DUPLICATE_DISTANCE, computeHashes, groupNearDuplicates } from './services/imageHash';
+import { DuplicateFlag, buildHashIndex, checkResultDuplicate, describeMatch, findNearest, scanBatchResults } from './services/duplicateIndex';
+import { listingToText } from './services/listingCopy';
+import { createProjectId, deleteProject, listProjects, loadProject, saveProject, ProjectSummary } from './services/projectStore';
+import { ProjectSnapshot, blobToDataUrl } from './services/projectSnapshot';
+import { exportPromptLibrary, importPromptLibrary, setPromptProject } from './services/promptTemplates';
+import { buildProjectArchive, readProjectFile, PROJECT_ARCHIVE_EXTENSION } from './services/projectArchive';
+import ProjectList from './components/ProjectList';
+import MarketplaceExportModal from './components/MarketplaceExportModal';
+import KeywordExpansionPanel from './components/KeywordExpansionPanel';
+import Helium10ImportModal from './components/Helium10ImportModal';
+import { findDuplicateKeyword } from './services/keywordExpansion';
+import { formatMetric } from './services/helium10Import';
+import { buildMarketplaceExport, DEFAULT_MARKETPLACE_DEFAULTS, MARKETPLACE_PROFILES, MarketplaceDefaults, MarketplaceProfileId } from './services/marketplaceExport';
 import JSZip from 'jszip';
 
 // Lazy load 3D viewer
@@ -11,11 +51,25 @@ const TShirt3DViewer = lazy(() => import('./components/TShirt3DViewer'));
 type ViewMode = '3D'; // Only 3D mode now
 type WorkspaceMode = 'generate' | 'clone'; // Generate or Clone workspace
 
+const RESULT_KEYS: Record<GenerationMode, 'resultsNormal' | 'resultsPro' | 'resultsWhite' | 'resultsPattern' | 'resultsTile'> = {
+  normal: 'resultsNormal',
+  pro: 'resultsPro',
+  white: 'resultsWhite',
+  pattern: 'resultsPattern',
+  tile: 'resultsTile',
+};
+
+// Số input slot của một batch và số ảnh crawl mỗi nguồn (pool để chọn tham chiếu)
+const MAX_INPUT_IMAGES = 5;
+const CRAWL_CANDIDATES_PER_SOURCE = 20;
+// Chờ state đứng yên bao lâu (ms) trước khi autosave project
+const AUTOSAVE_DELAY_MS = 1500;
+
 const EditModal: React.FC<{
   image: string;
   batchName: string;
   onSave: (newBase64: string, applyToAll: boolean) => void;
-  onRegenerate: (prompt: string, currentImage: string) => Promise<void>;
+  onRegenerate: (prompt: string, currentImage: string, mask: string | null) => Promise<void>;
   onClose: () => void;
 }> = ({ image, batchName, onSave, onRegenerate, onClose }) => {
   const [adjustments, setAdjustments] = useState<ImageAdjustments>({ brightness: 100, contrast: 100, rotation: 0 });
@@ -24,6 +78,18 @@ const EditModal: React.FC<{
   const [history, setHistory] = useState<string[]>([]);
   const [redoStack, setRedoStack] = useState<string[]>([]);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Masked edit: chỉ tạo lại vùng được tô
+  const [imageSize, setImageSize] = useState({ width: 0, height: 0 });
+  const [isMasking, setIsMasking] = useState(false);
+  const [maskTool, setMaskTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(24);
+  const [mask, setMask] = useState<string | null>(null);
+  const [maskKey, setMaskKey] = useState(0);
+
+  const clearMask = () => {
+    setMask(null);
+    setMaskKey(k => k + 1);
+  };
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -41,6 +107,7 @@ const EditModal: React.FC<{
         ctx.rotate((adjustments.rotation * Math.PI) / 180);
         ctx.drawImage(img, -img.width / 2, -img.height / 2);
       }
+      setImageSize({ width: canvas.width, height: canvas.height });
     };
     img.src = image;
   }, [image, adjustments]);
@@ -50,9 +117,12 @@ const EditModal: React.FC<{
     setHistory(prev => [...prev, image]);
     setRedoStack([]); 
     setIsRegenerating(true);
-    await onRegenerate(prompt, image);
+    // Mask được vẽ trên canvas xem trước (đã xoay), còn ảnh gửi đi là ảnh gốc chưa xoay
+    const sourceMask = isMasking && mask ? await unrotateMask(mask, adjustments.rotation) : null;
+    await onRegenerate(prompt, image, sourceMask);
     setIsRegenerating(false);
     setPrompt('');
+    clearMask();
   };
 
   const handleUndo = () => {
@@ -87,7 +157,12 @@ const EditModal: React.FC<{
     <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/90 backdrop-blur-md animate-in fade-in duration-200">
       <div className="bg-white rounded-[32px] w-full max-w-6xl overflow-hidden shadow-2xl flex flex-col md:flex-row h-[90vh]">
         <div className="flex-1 bg-slate-100 p-8 flex items-center justify-center overflow-hidden bg-checkered relative">
-          <canvas ref={canvasRef} className="max-w-full max-h-full object-contain shadow-2xl rounded-xl" />
+          <div className="relative max-w-full max-h-full">
+            <canvas ref={canvasRef} className="block max-w-full max-h-[calc(90vh-4rem)] object-contain shadow-2xl rounded-xl" />
+            {isMasking && imageSize.width > 0 && (
+              <MaskCanvas key={maskKey} width={imageSize.width} height={imageSize.height} tool={maskTool} brushSize={brushSize} onChange={setMask} />
+            )}
+          </div>
           {isRegenerating && (
              <div className="absolute inset-0 bg-white/60 backdrop-blur-sm flex items-center justify-center z-50">
                 <div className="text-center">
@@ -122,7 +197,18 @@ const EditModal: React.FC<{
               </div>
 
               <div className="space-y-3">
-                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Redesign Output</label>
+                <div className="flex items-center justify-between">
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Redesign Output</label>
+                  <button
+                    onClick={() => { setIsMasking(v => !v); clearMask(); }}
+                    className={`px-2 py-1 rounded-lg text-[9px] font-black uppercase transition-all ${isMasking ? 'bg-red-500 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                  >
+                    Mask {isMasking ? 'on' : 'off'}
+                  </button>
+                </div>
+                {isMasking && (
+                  <MaskToolbar tool={maskTool} brushSize={brushSize} hasMask={!!mask} onToolChange={setMaskTool} onBrushSizeChange={setBrushSize} onClear={clearMask} />
+                )}
                 <textarea 
                   value={prompt}
                   onChange={e => setPrompt(e.target.value)}
@@ -135,11 +221,11 @@ const EditModal: React.FC<{
                 </div>
                 <button 
                   onClick={handleRegenerate}
-                  disabled={isRegenerating || !prompt.trim()}
+                  disabled={isRegenerating || !prompt.trim() || (isMasking && !mask)}
                   className="w-full mt-2 bg-indigo-600 text-white py-3 rounded-xl font-black uppercase text-[10px] tracking-widest hover:bg-indigo-700 transition-all flex items-center justify-center gap-2 shadow-lg shadow-indigo-100 disabled:bg-slate-300"
                 >
                   <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"/></svg>
-                  Redesign
+                  {isMasking ? 'Redesign masked area' : 'Redesign'}
                 </button>
               </div>
             </div>
@@ -183,6 +269,17 @@ const App: React.FC = () => {
   const [editPrompt, setEditPrompt] = useState('');
   const [editMode, setEditMode] = useState<'redesign' | 'creative'>('redesign');
   const [isEditing, setIsEditing] = useState(false);
+  // Edit session nhiều lượt cho pattern đang hiển thị trên 3D viewer
+  const [editSessions, setEditSessions] = useState<EditSession[]>([]);
+  const [activeEditSessionId, setActiveEditSessionId] = useState<string | null>(null);
+  const [showVersionTimeline, setShowVersionTimeline] = useState(false);
+  // Mask cho Edit Panel của 3D viewer
+  const [isMaskingPattern, setIsMaskingPattern] = useState(false);
+  const [patternMask, setPatternMask] = useState<string | null>(null);
+  const [patternMaskKey, setPatternMaskKey] = useState(0);
+  const [patternSize, setPatternSize] = useState({ width: 0, height: 0 });
+  const [maskTool, setMaskTool] = useState<MaskTool>('brush');
+  const [maskBrushSize, setMaskBrushSize] = useState(24);
   
   // Mockup export state
   const [isExportingMockup, setIsExportingMockup] = useState(false);
@@ -196,6 +293,7 @@ const App: React.FC = () => {
   // Keywords workspace state
   const [showKeywordsInput, setShowKeywordsInput] = useState(false);
   const [keywordsText, setKeywordsText] = useState('');
+  const [showHelium10Import, setShowHelium10Import] = useState(false);
   
   // Export All state
   const [isExportingAll, setIsExportingAll] = useState(false);
@@ -204,6 +302,8 @@ const App: React.FC = () => {
   
   // Crawling state
   const [crawlingBatchId, setCrawlingBatchId] = useState<string | null>(null);
+  const [referencePickerBatchId, setReferencePickerBatchId] = useState<string | null>(null);
+  const [isScanningDuplicates, setIsScanningDuplicates] = useState(false);
   
   // Clone workspace state
   const [cloneImage, setCloneImage] = useState<string | null>(null);
@@ -216,13 +316,53 @@ const App: React.FC = () => {
   const containerRef = useRef<HTMLDivElement>(null);
 
   const [isProcessingAll, setIsProcessingAll] = useState(false);
-  const [shouldStopGlobal, setShouldStopGlobal] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  // Đọc batch qua ref để các vòng lặp async không bị stale closure
+  const batchesRef = useRef<BatchItem[]>([]);
+  const batchControllersRef = useRef(new Map<string, AbortController>());
   const [outputsPerBatch, setOutputsPerBatch] = useState(1);
+  const [providerId, setProviderId] = useState<string>(getActiveProviderId() || 'gemini');
+  
+  // Generation queue state
+  const [queueJobs, setQueueJobs] = useState<SchedulerJob[]>([]);
+  const [schedulerConfig, setSchedulerConfig] = useState<SchedulerConfig>(getSchedulerConfig());
+  const [showQueuePanel, setShowQueuePanel] = useState(false);
+  const [showPromptLibrary, setShowPromptLibrary] = useState(false);
+  const [settingsBatchId, setSettingsBatchId] = useState<string | null>(null);
+  // Upscale độ phân giải in
+  const [upscaleAlgorithm, setUpscaleAlgorithm] = useState<UpscaleAlgorithm>('lanczos-sharpen');
+  const [upscaleBeforeExport, setUpscaleBeforeExport] = useState(false);
+  const [upscaleTask, setUpscaleTask] = useState<{ batchId: string; key: string; done: number; total: number } | null>(null);
+  const [isUpscalingAll, setIsUpscalingAll] = useState(false);
+  const [compareTarget, setCompareTarget] = useState<{ batchId: string; key: string } | null>(null);
+  // Seamless tile
+  const [tilePreviewTarget, setTilePreviewTarget] = useState<{ batchId: string; key: string } | null>(null);
+  const [repairingTileKey, setRepairingTileKey] = useState<string | null>(null);
+  const [viewerWrapMode, setViewerWrapMode] = useState<'panels' | 'tile'>('panels');
+  const [qcSettings, setQcSettings] = useState<QcSettings>(DEFAULT_QC_SETTINGS);
+  const [qcRunningKey, setQcRunningKey] = useState<string | null>(null);
+  const [ipVisionCheck, setIpVisionCheck] = useState(true);
+  const [isScreeningIp, setIsScreeningIp] = useState(false);
+  const [showIpBlocklist, setShowIpBlocklist] = useState(false);
+  const [showMarketplaceExport, setShowMarketplaceExport] = useState(false);
+  const [marketplaceDefaults, setMarketplaceDefaults] = useState<MarketplaceDefaults>(DEFAULT_MARKETPLACE_DEFAULTS);
+  const [isExportingMarketplace, setIsExportingMarketplace] = useState(false);
+  const [ipGate, setIpGate] = useState<{ actionLabel: string; batchIds: string[]; proceed: () => void } | null>(null);
   const [zoomImage, setZoomImage] = useState<string | null>(null);
-  const [editTarget, setEditTarget] = useState<{ batchId: string; index: number; data: string; mode: 'normal' | 'pro' | 'white' | 'pattern' } | null>(null);
+  const [editTarget, setEditTarget] = useState<{ batchId: string; index: number; data: string; mode: GenerationMode } | null>(null);
   const [hasProKey, setHasProKey] = useState(false);
   const [dragSlotId, setDragSlotId] = useState<string | null>(null); // Feedback khi kéo thả vào slot cụ thể
   const folderInputRef = useRef<HTMLInputElement>(null);
+  // Project lưu trong IndexedDB: tạo khi có batch đầu tiên, autosave sau mỗi thay đổi
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projectName, setProjectName] = useState('');
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isRestoringProject, setIsRestoringProject] = useState(false);
+  const saveChainRef = useRef<Promise<void>>(Promise.resolve());
+  // Bản autosave đang chờ hết debounce; giữ trong ref để đổi project không làm mất thay đổi cuối
+  const pendingSaveRef = useRef<{ id: string; name: string; snapshot: ProjectSnapshot } | null>(null);
+  const projectFileInputRef = useRef<HTMLInputElement>(null);
+  const [isTransferringProject, setIsTransferringProject] = useState(false);
 
   // Handle column resize
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
@@ -279,24 +419,229 @@ const App: React.FC = () => {
     }
   };
 
+  useEffect(() => subscribeToQueue(setQueueJobs), []);
+
+  const handleSchedulerConfigChange = (patch: Partial<SchedulerConfig>) => {
+    configureScheduler(patch);
+    setSchedulerConfig(getSchedulerConfig());
+  };
+
+  // Số lần retry (do lỗi quota / server) của các job thuộc một batch
+  const getBatchRetryCount = (batchId: string) =>
+    queueJobs
+      .filter(j => j.batchId === batchId)
+      .reduce((sum, j) => sum + Math.max(0, j.attempts - 1), 0);
+
+  const handleProviderChange = (id: string) => {
+    setActiveProvider(id);
+    setProviderId(id);
+  };
+
   const getActiveBatches = () => {
-    return batches3D;
+    return batchesRef.current;
   };
 
   const setActiveBatches = (updater: (prev: BatchItem[]) => BatchItem[]) => {
-    setBatches3D(updater);
+    setBatches3D(prev => {
+      const next = updater(prev);
+      batchesRef.current = next;
+      return next;
+    });
   };
 
   const removeBatchById = (id: string) => {
     setActiveBatches(p => p.filter(b => b.id !== id));
   };
 
+  const refreshProjects = () => {
+    listProjects().then(setProjects).catch(err => console.error('Failed to list projects:', err));
+  };
+
+  useEffect(refreshProjects, []);
+
+  /**
+   * Ghi ngay bản autosave đang chờ (nếu có) và trả về promise của chuỗi lưu.
+   * Gọi trước mọi thao tác đổi / đóng project, vì đổi project sẽ hủy timer debounce.
+   */
+  const flushAutosave = (): Promise<void> => {
+    const pending = pendingSaveRef.current;
+    pendingSaveRef.current = null;
+    if (pending) {
+      saveChainRef.current = saveChainRef.current
+        .then(() => saveProject(pending.id, pending.name, pending.snapshot))
+        .then(refreshProjects)
+        .catch(err => console.error('Autosave failed:', err));
+    }
+    return saveChainRef.current;
+  };
+
+  // Autosave: gom các thay đổi liên tiếp, ghi tuần tự để hai lần lưu không chen nhau
+  useEffect(() => {
+    if (isRestoringProject) return;
+    if (!projectId) {
+      if (batches3D.length === 0) return;
+      const id = createProjectId();
+      setProjectId(id);
+      setProjectName(prev => prev || batches3D[0].name || `Project ${new Date().toLocaleDateString()}`);
+      setPromptProject(id);
+      return;
+    }
+    pendingSaveRef.current = {
+      id: projectId,
+      name: projectName.trim() || 'Untitled',
+      snapshot: { batches: batchesRef.current, current3DImage, currentThemeName, editSessions, activeEditSessionId },
+    };
+    const timer = setTimeout(flushAutosave, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [batches3D, current3DImage, currentThemeName, editSessions, activeEditSessionId, projectId, projectName, isRestoringProject]);
+
+  const resetWorkspace = () => {
+    setActiveBatches(() => []);
+    setCurrent3DImage(null);
+    setCurrentThemeName('');
+    setEditSessions([]);
+    setActiveEditSessionId(null);
+  };
+
+  const handleOpenProject = async (id: string) => {
+    if (batchControllersRef.current.size > 0) {
+      alert('Hãy dừng các batch đang chạy trước khi mở project khác.');
+      return;
+    }
+    // Lưu nốt project hiện tại trước khi thay state
+    await flushAutosave();
+    setIsRestoringProject(true);
+    try {
+      const { summary, snapshot } = await loadProject(id);
+      setActiveBatches(() => snapshot.batches);
+      setCurrent3DImage(snapshot.current3DImage);
+      setCurrentThemeName(snapshot.currentThemeName);
+      setEditSessions(snapshot.editSessions);
+      setActiveEditSessionId(snapshot.activeEditSessionId);
+      setProjectId(summary.id);
+      setProjectName(summary.name);
+      setPromptProject(summary.id);
+    } catch (err: any) {
+      alert(`Không mở được project: ${err.message}`);
+    } finally {
+      setIsRestoringProject(false);
+    }
+  };
+
+  const handleNewProject = async () => {
+    if (batchControllersRef.current.size > 0) {
+      alert('Hãy dừng các batch đang chạy trước khi tạo project mới.');
+      return;
+    }
+    if (!confirm('Đóng project hiện tại và bắt đầu project mới? Project hiện tại đã được lưu tự động.')) return;
+    await flushAutosave();
+    resetWorkspace();
+    setProjectId(null);
+    setProjectName('');
+    setPromptProject();
+  };
+
+  // Xuất file .zecom để mở lại ở máy khác / gửi cho đồng đội
+  const handleExportProjectFile = async () => {
+    setIsTransferringProject(true);
+    try {
+      const name = projectName.trim() || 'Untitled';
+      const archive = await buildProjectArchive(
+        name,
+        { batches: getActiveBatches(), current3DImage, currentThemeName, editSessions, activeEditSessionId },
+        exportPromptLibrary(),
+        { outputsPerBatch, upscaleAlgorithm, upscaleBeforeExport, qcSettings, ipVisionCheck, marketplaceDefaults }
+      );
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(archive);
+      link.download = `${name.replace(/[^a-zA-Z0-9 _-]/g, ' ').trim() || 'project'}${PROJECT_ARCHIVE_EXTENSION}`;
+      link.click();
+    } catch (err: any) {
+      alert(`Lỗi xuất project: ${err.message}`);
+    } finally {
+      setIsTransferringProject(false);
+    }
+  };
+
+  // File .zecom mở thành project mới; ZIP cũ (Download ZIP) được thêm vào project hiện tại dưới dạng batch
+  const handleImportProjectFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    await flushAutosave();
+    setIsTransferringProject(true);
+    try {
+      const contents = await readProjectFile(file);
+      if (contents.kind === 'legacy') {
+        setActiveBatches(prev => [...prev, ...contents.batches]);
+        alert(`Đã dựng lại ${contents.batches.length} batch từ ${file.name}. ZIP cũ không có ảnh input và prompt, chỉ khôi phục được kết quả.`);
+        return;
+      }
+      if (batchControllersRef.current.size > 0) {
+        alert('Hãy dừng các batch đang chạy trước khi mở project khác.');
+        return;
+      }
+      if (getActiveBatches().length > 0 && !confirm(`Mở "${contents.archive.name}" thành project mới? Project hiện tại đã được lưu tự động.`)) return;
+      const { name, snapshot, prompts, settings } = contents.archive;
+      // Thay đổi trong lúc đọc file cũng phải vào project cũ
+      await flushAutosave();
+      const id = createProjectId();
+      setActiveBatches(() => snapshot.batches);
+      setCurrent3DImage(snapshot.current3DImage);
+      setCurrentThemeName(snapshot.currentThemeName);
+      setEditSessions(snapshot.editSessions);
+      setActiveEditSessionId(snapshot.activeEditSessionId);
+      setProjectId(id);
+      setProjectName(name);
+      setPromptProject(id);
+      importPromptLibrary(prompts, id);
+      if (settings.outputsPerBatch !== undefined) setOutputsPerBatch(settings.outputsPerBatch);
+      if (settings.upscaleAlgorithm) setUpscaleAlgorithm(settings.upscaleAlgorithm);
+      if (settings.upscaleBeforeExport !== undefined) setUpscaleBeforeExport(settings.upscaleBeforeExport);
+      if (settings.qcSettings) setQcSettings(settings.qcSettings);
+      if (settings.ipVisionCheck !== undefined) setIpVisionCheck(settings.ipVisionCheck);
+      if (settings.marketplaceDefaults) setMarketplaceDefaults(settings.marketplaceDefaults);
+    } catch (err: any) {
+      alert(`Không đọc được file project: ${err.message}`);
+    } finally {
+      setIsTransferringProject(false);
+    }
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    const project = projects.find(p => p.id === id);
+    if (!confirm(`Xóa project "${project?.name || id}"? Toàn bộ ảnh đã lưu của project sẽ bị xóa.`)) return;
+    try {
+      await flushAutosave();
+      await deleteProject(id);
+      if (id === projectId) {
+        resetWorkspace();
+        setProjectId(null);
+        setProjectName('');
+        setPromptProject();
+      }
+      refreshProjects();
+    } catch (err: any) {
+      alert(`Không xóa được project: ${err.message}`);
+    }
+  };
+
   const fileToBase64 = (file: File): Promise<string> => new Promise((res, rej) => {
     const r = new FileReader(); r.onload = () => res(r.result as string); r.onerror = rej; r.readAsDataURL(file);
   });
 
   const handleInputDropAdd = async (batchId: string, file: File, slotIndex?: number) => {
     const base64 = await fileToBase64(file);
+    // Báo nếu ảnh gần trùng một input đã có (cùng batch hoặc keyword khác), trừ ảnh đang bị thay thế
+    const batches = getActiveBatches();
+    const replacedId = slotIndex !== undefined ? batches.find(b => b.id === batchId)?.images[slotIndex]?.id : undefined;
+    try {
+      const index = await buildHashIndex(batches, ['reference']);
+      const match = findNearest(await computeHashes(base64), index, NEAR_DUPLICATE_DISTANCE, e => e.key === replacedId);
+      if (match && !confirm(`Ảnh "${file.name}" gần trùng với ${describeMatch(match)}. Vẫn thêm?`)) return;
+    } catch (err) {
+      console.error("Lỗi kiểm tra ảnh trùng:", err);
+    }
     const newImg: ImageFile = {
       id: Math.random().toString(36).substr(2, 9),
       file,
@@ -316,7 +661,7 @@ const App: React.FC = () => {
         } else {
           newImages.push(newImg);
         }
-        return { ...b, images: newImages.slice(0, 5) };
+        return { ...b, images: newImages.slice(0, MAX_INPUT_IMAGES) };
       }
       return b;
     }));
@@ -340,12 +685,13 @@ const App: React.FC = () => {
     const newBatches: BatchItem[] = await Promise.all(Object.entries(grouped).map(async ([name, fs]) => ({
       id: Math.random().toString(36).substr(2, 9),
       name,
-      images: await Promise.all(fs.slice(0, 5).map(async f => ({ id: Math.random().toString(36).substr(2, 9), file: f, preview: URL.createObjectURL(f), base64: await fileToBase64(f) }))),
+      images: await Promise.all(fs.slice(0, MAX_INPUT_IMAGES).map(async f => ({ id: Math.random().toString(36).substr(2, 9), file: f, preview: URL.createObjectURL(f), base64: await fileToBase64(f) }))),
       status: 'idle',
       resultsNormal: [],
       resultsPro: [],
       resultsWhite: [],
       resultsPattern: [],
+      resultsTile: [],
       proBackgroundColor: viewMode === 'STICKER' ? "#ffffff" : "#000000"
     })));
 
@@ -355,58 +701,207 @@ const App: React.FC = () => {
     // Don't auto show 3D preview - user must click "SHOW 3D" button after generating
   };
 
-  const processBatch = async (batchId: string, mode: 'normal' | 'pro' | 'white' | 'pattern') => {
-    const batches = getActiveBatches();
-    const idx = batches.findIndex(b => b.id === batchId);
-    if (idx === -1) return;
+  const processBatch = async (batchId: string, mode: GenerationMode, resume: boolean = false) => {
+    const batch = getActiveBatches().find(b => b.id === batchId);
+    if (!batch || batchControllersRef.current.has(batchId)) return;
 
-    setActiveBatches(p => p.map(b => {
-      if (b.id === batchId) {
-        const keyMap: Record<string, keyof BatchItem> = { 'pro': 'resultsPro', 'normal': 'resultsNormal', 'white': 'resultsWhite', 'pattern': 'resultsPattern' };
-        const key = keyMap[mode];
-        return { ...b, status: 'processing', processingMode: mode, error: undefined, [key]: [] };
-      }
-      return b;
-    }));
+    const controller = new AbortController();
+    batchControllersRef.current.set(batchId, controller);
+    const key = RESULT_KEYS[mode];
+    // Resume giữ lại kết quả đã có và chỉ tạo phần còn thiếu
+    const existing = resume ? batch[key] : [];
+    const batchOutputs = batch.outputsPerBatch ?? outputsPerBatch;
+    const target = resume ? (batch.targetOutputs ?? batchOutputs) : batchOutputs;
+
+    setActiveBatches(p => p.map(b => b.id === batchId
+      ? { ...b, status: 'processing', processingMode: mode, error: undefined, targetOutputs: target, [key]: existing, ...(resume ? {} : resetModeArtifacts(b, mode)) }
+      : b));
 
     try {
-      const batch = batches[idx];
-      const resUrls: string[] = [];
-      for (let i = 0; i < outputsPerBatch; i++) {
-        if (shouldStopGlobal) break;
+      for (let i = existing.length; i < target; i++) {
+        if (controller.signal.aborted) break;
         
-        const currentBatches = getActiveBatches();
-        const currentBatch = currentBatches.find(b => b.id === batchId);
+        const currentBatch = getActiveBatches().find(b => b.id === batchId);
         const sourceBase = (mode === 'white' && currentBatch?.resultsPro.length && currentBatch.resultsPro.length > 0) ? currentBatch.resultsPro[0] : undefined;
         
-        const b64 = await generatePodImage(
-          batch.images, 
-          batch.customPrompt, 
-          sourceBase, 
-          mode, 
-          batch.name,
-          mode === 'pro' ? batch.proBackgroundColor : undefined,
-          viewMode === 'STICKER'
-        );
-        resUrls.push(b64);
-      }
-      
-      setActiveBatches(p => p.map(b => {
-        if (b.id === batchId) {
-          const keyMap: Record<string, keyof BatchItem> = { 'pro': 'resultsPro', 'normal': 'resultsNormal', 'white': 'resultsWhite', 'pattern': 'resultsPattern' };
-          const key = keyMap[mode];
-          return { ...b, status: 'completed', [key]: resUrls };
+        const label = `${batch.name} • ${mode} ${i + 1}/${target}`;
+        let b64 = '';
+        let seamReport: SeamReport | undefined;
+        let qcReport: QcReport | undefined;
+        // QC không đạt thì generate lại, tối đa qcSettings.maxRetries lần; hết lượt thì giữ ảnh cuối kèm báo cáo fail
+        for (let attempt = 1; ; attempt++) {
+          b64 = await generatePodImage(
+            batch.images, 
+            batch.customPrompt, 
+            sourceBase, 
+            mode, 
+            batch.name,
+            mode === 'pro' ? batch.proBackgroundColor : undefined,
+            viewMode === 'STICKER',
+            { aspectRatio: batch.aspectRatio, model: batch.modelOverride, insight: batch.injectInsight ? batch.insights : undefined },
+            { batchId, label: attempt > 1 ? `${label} (QC retry ${attempt - 1})` : label, signal: controller.signal }
+          );
+          // Tile phải lặp liền mạch: kiểm tra mép và tự sửa đường nối trước khi QC
+          if (mode === 'tile') ({ image: b64, report: seamReport } = await ensureSeamless(b64));
+          if (!qcSettings.enabled || !isQcApplicable(mode)) break;
+          try {
+            qcReport = await runQualityGate(b64, mode, {
+              vision: qcSettings.vision,
+              attempts: attempt,
+              job: { batchId, label: `QC • ${label}`, signal: controller.signal },
+            });
+          } catch (err: any) {
+            if (isAbortError(err)) throw err;
+            // QC hỏng thì vẫn giữ ảnh đã generate (không có báo cáo), chạy lại QC thủ công sau được
+            console.error("Lỗi QC:", err);
+            qcReport = undefined;
+            break;
+          }
+          if (qcReport.passed || attempt > qcSettings.maxRetries || controller.signal.aborted) break;
         }
-        return b;
-      }));
+        const resultKey = getResultKey(mode, i);
+        // Lưu từng kết quả ngay khi có để không mất khi bị dừng giữa chừng
+        setActiveBatches(p => p.map(b => b.id === batchId ? {
+          ...b,
+          [key]: [...b[key], b64],
+          seamReports: seamReport ? { ...b.seamReports, [resultKey]: seamReport } : b.seamReports,
+          qcReports: qcReport ? { ...b.qcReports, [resultKey]: qcReport } : b.qcReports,
+        } : b));
+        // Nền đơn sắc được tách ngay sau khi có ảnh (chạy nền, không chặn lượt generate tiếp theo)
+        if (getBackgroundKeyColor(mode)) createCutout(batchId, { key: resultKey, mode, index: i, image: b64 });
+        checkDuplicateResult(batchId, resultKey, b64);
+      }
+
+      const interrupted = controller.signal.aborted;
+      setActiveBatches(p => p.map(b => b.id === batchId ? { ...b, status: interrupted ? 'interrupted' : 'completed' } : b));
       
       // Save theme name for creative mode (but don't auto apply to 3D - user must click "SHOW 3D")
-      if (mode === 'pattern' && resUrls.length > 0) {
+      if (mode === 'pattern' && !interrupted) {
         setCurrentThemeName(batch.name);
       }
     } catch (err: any) {
+      if (isAbortError(err)) {
+        setActiveBatches(p => p.map(b => b.id === batchId ? { ...b, status: 'interrupted' } : b));
+        return;
+      }
       if (err.message.includes("PRO_KEY_REQUIRED")) { handleConnectKey(); }
       setActiveBatches(p => p.map(b => b.id === batchId ? { ...b, status: 'error', error: err.message } : b));
+    } finally {
+      batchControllersRef.current.delete(batchId);
+    }
+  };
+
+  /**
+   * Tách nền đơn sắc của một kết quả thành PNG trong suốt và lưu cạnh kết quả gốc
+   */
+  const createCutout = async (batchId: string, result: BatchResult) => {
+    const batch = getActiveBatches().find(b => b.id === batchId);
+    const keyColor = batch && getBackgroundKeyColor(result.mode, batch.proBackgroundColor);
+    if (!keyColor) return;
+    try {
+      const cutout = await removeSolidBackground(result.image, keyColor);
+      // Bỏ qua nếu kết quả đã bị thay thế trong lúc đang tách nền
+      setActiveBatches(p => p.map(b => b.id === batchId && listBatchResults(b).some(r => r.key === result.key && r.image === result.image)
+        ? { ...b, cutouts: { ...b.cutouts, [result.key]: cutout } }
+        : b));
+    } catch (err: any) {
+      console.error("Lỗi tách nền:", err);
+    }
+  };
+
+  /**
+   * So một kết quả với ảnh đối thủ đã crawl và các kết quả khác trong project, lưu cờ cảnh báo theo key kết quả
+   */
+  const checkDuplicateResult = async (batchId: string, resultKey: string, image: string) => {
+    try {
+      const index = await buildHashIndex(getActiveBatches(), ['competitor', 'result']);
+      const batch = getActiveBatches().find(b => b.id === batchId);
+      if (!batch) return;
+      const flag = await checkResultDuplicate(batch, resultKey, image, index);
+      setActiveBatches(p => p.map(b => {
+        if (b.id !== batchId) return b;
+        const { [resultKey]: _stale, ...duplicateFlags } = b.duplicateFlags || {};
+        return { ...b, duplicateFlags: flag ? { ...duplicateFlags, [resultKey]: flag } : duplicateFlags };
+      }));
+    } catch (err: any) {
+      console.error("Lỗi kiểm tra trùng lặp:", err);
+    }
+  };
+
+  // Quét lại toàn bộ kết quả của project (kết quả tạo trước khi có chỉ mục hoặc sau khi crawl thêm đối thủ)
+  const handleScanDuplicates = async () => {
+    setIsScanningDuplicates(true);
+    try {
+      const batches = getActiveBatches();
+      const index = await buildHashIndex(batches, ['competitor', 'result']);
+      const flagsByBatch = new Map<string, Record<string, DuplicateFlag>>();
+      for (const batch of batches) flagsByBatch.set(batch.id, await scanBatchResults(batch, index));
+      setActiveBatches(p => p.map(b => flagsByBatch.has(b.id) ? { ...b, duplicateFlags: flagsByBatch.get(b.id) } : b));
+      const flags = Array.from(flagsByBatch.values()).flatMap(f => Object.values(f));
+      alert(`Quét xong ${index.length} ảnh: ${flags.filter(f => f.kind === 'copyRisk').length} kết quả giống ảnh đối thủ, ${flags.filter(f => f.kind === 'duplicateOutput').length} kết quả gần trùng nhau.`);
+    } catch (err: any) {
+      alert("Lỗi quét trùng lặp: " + err.message);
+    } finally {
+      setIsScanningDuplicates(false);
+    }
+  };
+
+  /**
+   * Chạy lại offset-and-blend cho một tile (kể cả khi bước kiểm tra tự động đánh giá là liền mạch)
+   */
+  const handleRepairTile = async (batchId: string, result: BatchResult) => {
+    setRepairingTileKey(result.key);
+    try {
+      const repaired = await repairSeams(result.image);
+      const report: SeamReport = { ...(await checkSeamContinuity(repaired)), repaired: true };
+      // Ảnh đã đổi nên bản upscale, báo cáo QC và cờ trùng lặp cũ không còn đúng
+      setActiveBatches(p => p.map(b => {
+        if (b.id !== batchId) return b;
+        const reset = resetResultArtifacts(b, [result.key]);
+        return {
+          ...b,
+          ...reset,
+          resultsTile: b.resultsTile.map((r, i) => i === result.index ? repaired : r),
+          seamReports: { ...reset.seamReports, [result.key]: report },
+        };
+      }));
+      checkDuplicateResult(batchId, result.key, repaired);
+    } catch (err: any) {
+      alert("Lỗi sửa đường nối: " + err.message);
+    } finally {
+      setRepairingTileKey(null);
+    }
+  };
+
+  /**
+   * Thay ảnh của kết quả đã sửa trong Asset Refiner (applyToAll: mọi kết quả cùng mode).
+   * Dữ liệu gắn theo key cũ bị bỏ, sau đó tách nền và kiểm tra trùng lặp lại cho ảnh mới.
+   */
+  const replaceEditedResult = (batchId: string, mode: GenerationMode, index: number, image: string, applyToAll: boolean) => {
+    const batch = getActiveBatches().find(b => b.id === batchId);
+    if (!batch) return;
+    const { field } = RESULT_MODES.find(m => m.mode === mode)!;
+    const replaced = listBatchResults(batch).filter(r => r.mode === mode && (applyToAll || r.index === index));
+    const keys = replaced.map(r => r.key);
+    setActiveBatches(p => p.map(b => b.id === batchId
+      ? { ...b, ...resetResultArtifacts(b, keys), [field]: b[field].map((r, i) => (i === index || applyToAll) ? image : r) }
+      : b));
+    for (const result of replaced) {
+      createCutout(batchId, { ...result, image });
+      checkDuplicateResult(batchId, result.key, image);
+    }
+  };
+
+  // Chạy QC thủ công cho một kết quả (ảnh tạo trước khi bật QC hoặc đã sửa tay)
+  const handleRunQc = async (batchId: string, result: BatchResult) => {
+    setQcRunningKey(`${batchId}:${result.key}`);
+    try {
+      const report = await runQualityGate(result.image, result.mode, { vision: qcSettings.vision, job: { batchId } });
+      setActiveBatches(p => p.map(b => b.id === batchId ? { ...b, qcReports: { ...b.qcReports, [result.key]: report } } : b));
+    } catch (err: any) {
+      alert("Lỗi QC: " + err.message);
+    } finally {
+      setQcRunningKey(null);
     }
   };
 
@@ -417,48 +912,221 @@ const App: React.FC = () => {
 
     setActiveBatches(p => p.map(b => b.id === batchId ? { ...b, isAnalyzingInsights: true } : b));
     try {
-      const insightText = await analyzeInsights(batch.name, batch.images);
-      const cleanInsight = insightText.replace(/[#*]/g, '');
-      setActiveBatches(p => p.map(b => b.id === batchId ? { ...b, insights: cleanInsight, isAnalyzingInsights: false } : b));
+      const insight = await analyzeInsights(batch.name, batch.images, { batchId });
+      setActiveBatches(p => p.map(b => b.id === batchId ? { ...b, insights: insight, isAnalyzingInsights: false } : b));
     } catch (err: any) {
       alert("Lỗi khi phân tích insight: " + err.message);
       setActiveBatches(p => p.map(b => b.id === batchId ? { ...b, isAnalyzingInsights: false } : b));
     }
   };
 
-  const processAllMode = async (mode: 'normal' | 'pro' | 'white' | 'pattern') => {
+  const handleReviewResult = (batchId: string, key: string, review?: ResultReview) => {
+    setActiveBatches(p => p.map(b => b.id === batchId ? { ...b, reviews: setResultReview(b, key, review) } : b));
+  };
+
+  const handleGenerateListing = async (batchId: string, sourceKey: string) => {
+    const batch = getActiveBatches().find(b => b.id === batchId);
+    const source = batch && listBatchResults(batch).find(r => r.key === sourceKey);
+    if (!batch || !source) return;
+
+    setActiveBatches(p => p.map(b => b.id === batchId ? { ...b, isGeneratingListing: true } : b));
+    try {
+      const listing = await generateListingCopy(batch.name, source.image, batch.insights, { batchId });
+      setActiveBatches(p => p.map(b => b.id === batchId ? { ...b, listing: { ...listing, sourceKey }, isGeneratingListing: false } : b));
+    } catch (err: any) {
+      alert(err.message);
+      setActiveBatches(p => p.map(b => b.id === batchId ? { ...b, isGeneratingListing: false } : b));
+    }
+  };
+
+  // Áp dụng cấu hình generate của một batch cho tất cả các batch khác
+  const handleCopySettingsToAll = (sourceId: string) => {
+    const source = getActiveBatches().find(b => b.id === sourceId);
+    if (!source) return;
+    const { customPrompt, proBackgroundColor, generationMode, outputsPerBatch, aspectRatio, modelOverride, injectInsight } = source;
+    setActiveBatches(p => p.map(b => ({ ...b, customPrompt, proBackgroundColor, generationMode, outputsPerBatch, aspectRatio, modelOverride, injectInsight })));
+  };
+
+  const handleExportInsightsCsv = () => {
+    const batches = getActiveBatches().filter(b => b.insights);
+    if (batches.length === 0) {
+      alert("Chưa có batch nào được phân tích insight.");
+      return;
+    }
+    downloadCsv(`insights-${new Date().getTime()}.csv`, buildInsightsCsv(batches));
+  };
+
+  const processAllMode = async (mode: GenerationMode) => {
     setIsProcessingAll(true);
-    setShouldStopGlobal(false);
     const batches = getActiveBatches();
-    for (const b of batches) {
-      if (shouldStopGlobal) break;
-      await processBatch(b.id, mode);
+    // Các batch được đưa vào scheduler cùng lúc, scheduler tự giới hạn số lệnh chạy song song
+    await Promise.all(batches.map(b => processBatch(b.id, mode)));
+    setIsProcessingAll(false);
+  };
+
+  // Chạy lại các batch bị lỗi (sau khi scheduler đã hết lượt retry)
+  const handleRetryFailed = async () => {
+    const failed = getActiveBatches().filter(b => b.status === 'error');
+    if (failed.length === 0) return;
+    failed.forEach(b => dismissFinishedJobs(b.id));
+    setIsProcessingAll(true);
+    await Promise.all(failed.map(b => processBatch(b.id, b.processingMode || 'pattern')));
+    setIsProcessingAll(false);
+  };
+
+  // Dừng thật sự: hủy job đang chờ và lệnh gọi AI đang chạy, giữ lại kết quả đã có
+  const handleStopAll = () => {
+    const controllers = batchControllersRef.current;
+    if (controllers.size === 0) return;
+    setActiveBatches(p => p.map(b => controllers.has(b.id) ? { ...b, status: 'stopping' } : b));
+    controllers.forEach(c => c.abort());
+    resumeScheduler();
+    setIsPaused(false);
+  };
+
+  const handleTogglePause = () => {
+    if (isPaused) {
+      resumeScheduler();
+      setIsPaused(false);
+    } else {
+      pauseScheduler();
+      setIsPaused(true);
     }
+  };
+
+  const handleResumeInterrupted = async () => {
+    const interrupted = getActiveBatches().filter(b => b.status === 'interrupted');
+    if (interrupted.length === 0) return;
+    setIsProcessingAll(true);
+    await Promise.all(interrupted.map(b => processBatch(b.id, b.processingMode || 'pattern', true)));
     setIsProcessingAll(false);
   };
 
-  const downloadProject = async () => {
+  /**
+   * Upscale một kết quả lên độ phân giải in; dùng lại bản đã có nếu đã upscale trước đó
+   */
+  const ensureUpscaled = async (batchId: string, result: BatchResult): Promise<UpscaledAsset> => {
+    const existing = getActiveBatches().find(b => b.id === batchId)?.upscaled?.[result.key];
+    if (existing) return existing;
+    setUpscaleTask({ batchId, key: result.key, done: 0, total: 1 });
+    try {
+      const { blob, url, width, height, algorithm, dpi } = await upscaleImage(result.image, {
+        algorithm: upscaleAlgorithm,
+        onProgress: (done, total) => setUpscaleTask({ batchId, key: result.key, done, total }),
+      });
+      const asset: UpscaledAsset = { blob, url, width, height, algorithm, dpi };
+      setActiveBatches(p => p.map(b => b.id === batchId ? { ...b, upscaled: { ...b.upscaled, [result.key]: asset } } : b));
+      return asset;
+    } finally {
+      setUpscaleTask(null);
+    }
+  };
+
+  const handleUpscaleResult = async (batchId: string, result: BatchResult) => {
+    try {
+      await ensureUpscaled(batchId, result);
+      setCompareTarget({ batchId, key: result.key });
+    } catch (err: any) {
+      alert("Lỗi Upscale: " + err.message);
+    }
+  };
+
+  // Bước batch: upscale lần lượt mọi kết quả chưa có bản in (CPU chỉ chạy một ảnh mỗi lúc)
+  const upscaleAllResults = async () => {
+    for (const batch of getActiveBatches()) {
+      for (const result of listBatchResults(batch)) {
+        await ensureUpscaled(batch.id, result);
+      }
+    }
+  };
+
+  const handleUpscaleAll = async () => {
+    setIsUpscalingAll(true);
+    try {
+      await upscaleAllResults();
+    } catch (err: any) {
+      alert("Lỗi Upscale: " + err.message);
+    } finally {
+      setIsUpscalingAll(false);
+    }
+  };
+
+  // Sàng lọc trademark trước khi export; còn rủi ro chưa xác nhận thì mở hộp thoại (proceed chạy sau khi xác nhận) và trả về false
+  const clearIpRisk = async (targets: Array<{ batch: BatchItem; results: BatchResult[] }>, actionLabel: string, proceed: () => void): Promise<boolean> => {
+    const screenAll = (vision: boolean) => Promise.all(targets.map(async ({ batch, results }) =>
+      [batch.id, await screenBatch(batch, results, { vision, job: { label: `IP check • ${batch.name}` } })] as [string, IpScreening]));
+    let screenings: Array<[string, IpScreening]>;
+    setIsScreeningIp(true);
+    try {
+      screenings = await screenAll(ipVisionCheck);
+    } catch (err: any) {
+      // AI lỗi thì vẫn cho export nếu người dùng đồng ý chỉ kiểm tra keyword
+      if (!confirm(`${err.message}\n\nTiếp tục chỉ với kiểm tra keyword?`)) {
+        setIsScreeningIp(false);
+        return false;
+      }
+      screenings = await screenAll(false);
+    }
+    setIsScreeningIp(false);
+    const byId = new Map(screenings);
+    setActiveBatches(p => p.map(b => byId.has(b.id) ? { ...b, ipScreening: byId.get(b.id) } : b));
+    const risky = screenings.filter(([, screening]) => needsIpAcknowledgement(screening)).map(([id]) => id);
+    if (risky.length === 0) return true;
+    setIpGate({ actionLabel, batchIds: risky, proceed });
+    return false;
+  };
+
+  const handleAcknowledgeIp = () => {
+    if (!ipGate) return;
+    const acknowledgedAt = Date.now();
+    setActiveBatches(p => p.map(b => ipGate.batchIds.includes(b.id) && b.ipScreening ? { ...b, ipScreening: { ...b.ipScreening, acknowledgedAt } } : b));
+    setIpGate(null);
+    ipGate.proceed();
+  };
+
+  const downloadProject = async (ipCleared: boolean = false) => {
+    if (!ipCleared) {
+      const targets = getActiveBatches().map(batch => ({ batch, results: listSelectedResults(batch) })).filter(t => t.results.length > 0);
+      if (!(await clearIpRisk(targets, 'Download ZIP', () => downloadProject(true)))) return;
+    }
+    if (upscaleBeforeExport) {
+      setIsUpscalingAll(true);
+      try {
+        await upscaleAllResults();
+      } catch (err: any) {
+        alert("Lỗi Upscale: " + err.message);
+        return;
+      } finally {
+        setIsUpscalingAll(false);
+      }
+    }
     const batches = getActiveBatches();
     const zip = new JSZip();
     for (const batch of batches) {
       const folder = zip.folder(batch.name);
       if (!folder) continue;
-      const cleanName = batch.name.replace(/[^a-zA-Z0-9 ]/g, ' ');
-      if (batch.resultsNormal.length) {
-        const f = folder.folder("Normal");
-        batch.resultsNormal.forEach((res, i) => f?.file(`${cleanName} Normal ${i+1}.png`, res.split(',')[1], {base64: true}));
+      for (const { mode, folder: modeFolder } of RESULT_MODES) {
+        const results = listSelectedResults(batch).filter(r => r.mode === mode);
+        if (!results.length) continue;
+        const f = folder.folder(modeFolder);
+        results.forEach(res => f?.file(`${getResultFileName(batch, res)}.png`, res.image.split(',')[1], {base64: true}));
       }
-      if (batch.resultsPro.length) {
-        const f = folder.folder("Pro");
-        batch.resultsPro.forEach((res, i) => f?.file(`${cleanName} Pro ${i+1}.png`, res.split(',')[1], {base64: true}));
+      // PNG trong suốt đã tách nền
+      const cutoutResults = listSelectedResults(batch).filter(r => batch.cutouts?.[r.key]);
+      if (cutoutResults.length) {
+        const f = folder.folder("Transparent");
+        cutoutResults.forEach(res => f?.file(`${getResultFileName(batch, res)} Transparent.png`, batch.cutouts![res.key].split(',')[1], {base64: true}));
       }
-      if (batch.resultsWhite.length) {
-        const f = folder.folder("White");
-        batch.resultsWhite.forEach((res, i) => f?.file(`${cleanName} White ${i+1}.png`, res.split(',')[1], {base64: true}));
+      // Bản in 300 DPI (nếu đã upscale)
+      const printResults = listSelectedResults(batch).filter(r => batch.upscaled?.[r.key]);
+      if (printResults.length) {
+        const f = folder.folder("Print 300DPI");
+        printResults.forEach(res => f?.file(`${getResultFileName(batch, res)} Print.png`, batch.upscaled![res.key].blob));
       }
-      if (batch.resultsPattern.length) {
-        const f = folder.folder("Pattern3D");
-        batch.resultsPattern.forEach((res, i) => f?.file(`${cleanName} Pattern ${i+1}.png`, res.split(',')[1], {base64: true}));
+      // Listing đi kèm ảnh: bản text để copy và JSON để import vào công cụ khác
+      if (batch.listing) {
+        folder.file("Listing.txt", listingToText(batch.name, batch.listing));
+        folder.file("listing.json", JSON.stringify(batch.listing, null, 2));
       }
     }
     const content = await zip.generateAsync({ type: 'blob' });
@@ -468,28 +1136,121 @@ const App: React.FC = () => {
     link.click();
   };
 
+  // Xuất file bulk-upload của một marketplace kèm ảnh đã đặt tên theo quy tắc của sàn
+  const handleMarketplaceExport = async (profileId: MarketplaceProfileId, ipCleared: boolean = false) => {
+    const profile = MARKETPLACE_PROFILES.find(p => p.id === profileId)!;
+    if (!ipCleared) {
+      const targets = getActiveBatches().map(batch => ({ batch, results: listSelectedResults(batch) })).filter(t => t.results.length > 0);
+      if (!(await clearIpRisk(targets, `Export ${profile.label}`, () => handleMarketplaceExport(profileId, true)))) return;
+    }
+    setIsExportingMarketplace(true);
+    try {
+      if (upscaleBeforeExport) await upscaleAllResults();
+      const batches = getActiveBatches().filter(b => listSelectedResults(b).length > 0);
+      const { files, errors } = buildMarketplaceExport(profileId, batches, marketplaceDefaults);
+      if (errors.length) {
+        alert(`Không xuất được ${profile.label}:\n\n${errors.join('\n')}`);
+        return;
+      }
+      const zip = new JSZip();
+      files.forEach(file => zip.file(file.path, file.data, { base64: file.base64 }));
+      const content = await zip.generateAsync({ type: 'blob' });
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(content);
+      link.download = `${profileId}-bulk-upload-${new Date().getTime()}.zip`;
+      link.click();
+      setShowMarketplaceExport(false);
+    } catch (err: any) {
+      alert("Lỗi Export: " + err.message);
+    } finally {
+      setIsExportingMarketplace(false);
+    }
+  };
+
+  const clearPatternMask = () => {
+    setPatternMask(null);
+    setPatternMaskKey(k => k + 1);
+  };
+
+  const activeEditSession = editSessions.find(s => s.id === activeEditSessionId) || null;
+
+  const updateEditSession = (session: EditSession) => {
+    setEditSessions(p => p.some(s => s.id === session.id) ? p.map(s => s.id === session.id ? session : s) : [...p, session]);
+    setActiveEditSessionId(session.id);
+  };
+
+  // Pattern hiển thị trên 3D luôn thuộc một cây version: tiếp tục cây chứa ảnh này, nếu không có thì tạo mới
+  useEffect(() => {
+    if (!current3DImage) return;
+    if (activeEditSession && getActiveTurn(activeEditSession).image === current3DImage) return;
+    const found = findTurnByImage(editSessions, current3DImage);
+    updateEditSession(found
+      ? selectTurn(found.session, found.turn.id)
+      : createEditSession(current3DImage, currentThemeName || 'abstract design'));
+  }, [current3DImage]);
+
+  // Đưa pattern lên 3D viewer và ghi nhận làm gốc của một cây version (nếu chưa có)
+  const showPatternIn3D = (image: string, theme: string, kind: EditTurnKind = 'original', prompt: string = '', wrapMode: 'panels' | 'tile' = 'panels') => {
+    setViewerWrapMode(wrapMode);
+    const found = findTurnByImage(editSessions, image);
+    updateEditSession(found ? selectTurn(found.session, found.turn.id) : createEditSession(image, theme, kind, prompt));
+    // Force re-trigger by setting null first, then the image
+    setCurrent3DImage(null);
+    setTimeout(() => setCurrent3DImage(image), 50);
+  };
+
+  // Khôi phục một version bất kỳ; lượt chỉnh sửa tiếp theo sẽ rẽ nhánh từ version này
+  const handleRestoreVersion = (sessionId: string, turnId: string) => {
+    const target = editSessions.find(s => s.id === sessionId);
+    if (!target) return;
+    const session = selectTurn(target, turnId);
+    updateEditSession(session);
+    clearPatternMask();
+    setCurrent3DImage(null);
+    setTimeout(() => setCurrent3DImage(getActiveTurn(session).image), 50);
+  };
+
+  const handleUndoEdit = () => {
+    if (!activeEditSession) return;
+    const parentId = getActiveTurn(activeEditSession).parentId;
+    if (parentId) handleRestoreVersion(activeEditSession.id, parentId);
+  };
+
+  const handleNewEditSession = () => {
+    if (!current3DImage) return;
+    updateEditSession(createEditSession(current3DImage, currentThemeName || 'abstract design'));
+  };
+
   // Handle edit pattern (redesign or creative mode)
   const handleEditPattern = async (mode: 'redesign' | 'creative') => {
     if (!editPrompt.trim() || !current3DImage) return;
     
+    const session = activeEditSession || createEditSession(current3DImage, currentThemeName || 'abstract design');
+    const history = buildConversation(session);
+    const isMasked = mode === 'redesign' && isMaskingPattern && !!patternMask;
     setEditMode(mode);
     setIsEditing(true);
     try {
       let newPattern: string;
+      let modelParts: PatternEdit['modelParts'];
       
-      if (mode === 'redesign') {
-        // Redesign: use current pattern + edit prompt
-        newPattern = await redesignPattern(current3DImage, editPrompt);
+      if (isMasked) {
+        // Chỉ tạo lại vùng được tô, phần còn lại của pattern giữ nguyên
+        newPattern = await editMaskedRegion(current3DImage, patternMask!, editPrompt);
+      } else if (mode === 'redesign') {
+        // Redesign: use current pattern + edit prompt + các lượt trước của session
+        ({ image: newPattern, modelParts } = await redesignPattern(current3DImage, editPrompt, history));
       } else {
         // Creative: combine original theme with edit prompt to create new pattern
-        newPattern = await creativePattern(currentThemeName || 'abstract design', editPrompt);
+        ({ image: newPattern, modelParts } = await creativePattern(session.theme, editPrompt, history));
       }
       
+      updateEditSession(addEditTurn(session, isMasked ? 'masked' : mode, editPrompt, newPattern, modelParts));
       // Apply new pattern to 3D model
       setCurrent3DImage(null);
       setTimeout(() => setCurrent3DImage(newPattern), 50);
       setEditPrompt('');
-      setShowEditPanel(false);
+      clearPatternMask();
     } catch (err: any) {
       alert("Lỗi: " + err.message);
     } finally {
@@ -516,8 +1277,7 @@ const App: React.FC = () => {
   // Handle apply cloned pattern to 3D
   const handleApplyClonedPattern = () => {
     if (!clonedPattern) return;
-    setCurrent3DImage(null);
-    setTimeout(() => setCurrent3DImage(clonedPattern), 50);
+    showPatternIn3D(clonedPattern, 'cloned mockup', 'clone', 'Clone mockup');
   };
 
   // Check mockup server status
@@ -563,7 +1323,22 @@ const App: React.FC = () => {
     setExportedMockup(null);
     
     try {
-      const result = await exportToMockup(current3DImage);
+      let printSource = current3DImage;
+      if (upscaleBeforeExport) {
+        setExportMessage('Upscaling...');
+        // Pattern đang hiển thị có thể là kết quả của batch (dùng lại bản upscale) hoặc bản đã chỉnh sửa
+        const batch = getActiveBatches().find(b => b.resultsPattern.includes(current3DImage));
+        if (batch) {
+          const index = batch.resultsPattern.indexOf(current3DImage);
+          const asset = await ensureUpscaled(batch.id, { key: getResultKey('pattern', index), mode: 'pattern', index, image: current3DImage });
+          printSource = await blobToDataUrl(asset.blob);
+        } else {
+          const upscaled = await upscaleImage(current3DImage, { algorithm: upscaleAlgorithm });
+          URL.revokeObjectURL(upscaled.url);
+          printSource = await blobToDataUrl(upscaled.blob);
+        }
+      }
+      const result = await exportToMockup(printSource);
       
       setExportProgress(100);
       setExportMessage('Complete!');
@@ -585,16 +1360,13 @@ const App: React.FC = () => {
   };
 
   // Handle Export All - batch export all patterns
-  const handleExportAll = async () => {
-    const patternsToExport = activeBatches
-      .filter(batch => batch.resultsPattern && batch.resultsPattern.length > 0)
-      .map(batch => ({
-        id: batch.id,
-        name: batch.name,
-        imageBase64: batch.resultsPattern[0]
-      }));
+  const handleExportAll = async (ipCleared: boolean = false) => {
+    // Mỗi batch xuất một pattern: hero, hoặc pattern đã duyệt / chưa bị loại đầu tiên
+    const exportBatches = getActiveBatches()
+      .map(batch => ({ batch, pattern: pickBatchResult(batch, 'pattern') }))
+      .filter((t): t is { batch: BatchItem; pattern: BatchResult } => t.pattern !== undefined);
     
-    if (patternsToExport.length === 0) {
+    if (exportBatches.length === 0) {
       alert('Không có pattern nào để export!');
       return;
     }
@@ -603,12 +1375,25 @@ const App: React.FC = () => {
       alert('Mockup Server chưa chạy!\n\nChạy lệnh: cd server && npm start');
       return;
     }
+
+    // Export All chỉ lấy một pattern mỗi batch nên chỉ cần soi ảnh đó
+    if (!ipCleared) {
+      const targets = exportBatches.map(({ batch, pattern }) => ({ batch, results: [pattern] }));
+      if (!(await clearIpRisk(targets, 'Export All', () => handleExportAll(true)))) return;
+    }
     
     setIsExportingAll(true);
     setExportAllProgress(0);
     setExportAllResults([]);
     
     try {
+      const patternsToExport = [];
+      for (const { batch, pattern } of exportBatches) {
+        const imageBase64 = upscaleBeforeExport
+          ? await blobToDataUrl((await ensureUpscaled(batch.id, pattern)).blob)
+          : pattern.image;
+        patternsToExport.push({ id: batch.id, name: batch.name, imageBase64 });
+      }
       const result = await exportBatch(patternsToExport);
       
       if (result.success) {
@@ -632,16 +1417,8 @@ const App: React.FC = () => {
   };
 
   // Handle add keywords from text
-  const handleAddKeywords = () => {
-    if (!keywordsText.trim()) return;
-    
-    const keywords = keywordsText
-      .split('\n')
-      .map(k => k.trim())
-      .filter(k => k.length > 0);
-    
-    if (keywords.length === 0) return;
-    
+  // Mỗi keyword thành một batch rỗng (ảnh sẽ được crawl sau)
+  const createKeywordBatches = (keywords: string[], metricsByKeyword: Record<string, KeywordMetrics> = {}) => {
     const newBatches: BatchItem[] = keywords.map((keyword, index) => ({
       id: `keyword-${Date.now()}-${index}`,
       name: keyword,
@@ -651,13 +1428,45 @@ const App: React.FC = () => {
       resultsPro: [],
       resultsWhite: [],
       resultsPattern: [],
+      resultsTile: [],
+      keywordMetrics: metricsByKeyword[keyword],
     }));
     
     setActiveBatches(prev => [...prev, ...newBatches]);
+  };
+
+  const handleAddKeywords = () => {
+    if (!keywordsText.trim()) return;
+    
+    const keywords = keywordsText
+      .split('\n')
+      .map(k => k.trim())
+      .filter(k => k.length > 0);
+    
+    if (keywords.length === 0) return;
+    
+    createKeywordBatches(keywords);
     setKeywordsText('');
     setShowKeywordsInput(false);
   };
 
+  // Import từ Helium 10: keyword đã có batch thì cập nhật chỉ số, còn lại tạo batch mới
+  const handleImportHelium10 = (rows: Array<{ keyword: string; metrics: KeywordMetrics }>) => {
+    const existing = getActiveBatches();
+    const updates = new Map<string, KeywordMetrics>();
+    const fresh: Record<string, KeywordMetrics> = {};
+    for (const { keyword, metrics } of rows) {
+      const match = existing.find(b => b.name === findDuplicateKeyword(keyword, existing.map(e => e.name)));
+      if (match) updates.set(match.id, metrics);
+      else fresh[keyword] = metrics;
+    }
+    if (updates.size > 0) {
+      setActiveBatches(prev => prev.map(b => (updates.has(b.id) ? { ...b, keywordMetrics: updates.get(b.id) } : b)));
+    }
+    createKeywordBatches(Object.keys(fresh), fresh);
+    setShowHelium10Import(false);
+  };
+
   // Handle crawl images for ALL batches
   const handleCrawlAll = async () => {
     const batchesToCrawl = activeBatches.filter(b => b.images.length === 0);
@@ -677,23 +1486,36 @@ const App: React.FC = () => {
     for (const batch of batchesToCrawl) {
       try {
         console.log(`🔍 Crawling for: ${batch.name}`);
-        const imageBase64List = await crawlBoth(batch.name, 3);
-        console.log(`📸 Received ${imageBase64List.length} images for ${batch.name}`);
+        const products = await crawlBoth(batch.name, CRAWL_CANDIDATES_PER_SOURCE);
+        console.log(`📸 Received ${products.length} products for ${batch.name}`);
         
-        if (imageBase64List.length > 0) {
-          // Convert base64 strings to ImageFile objects
-          const imageFiles: ImageFile[] = imageBase64List.map((base64, idx) => ({
-            id: `crawled-${Date.now()}-${idx}`,
-            file: new File([], `crawled-${idx}.jpg`), // Dummy file
-            preview: base64,
-            base64: base64
+        if (products.length > 0) {
+          // Toàn bộ sản phẩm thành pool tham chiếu; điền sẵn slot bằng đại diện của các nhóm ảnh khác nhau, chọn lại trong picker
+          const crawledAt = Date.now();
+          const hashes = await Promise.all(products.map(p => computeHashes(p.image).catch(() => undefined)));
+          // Ảnh đã có ở batch khác (input hoặc pool crawl) được đánh dấu và xếp sau khi điền sẵn slot
+          const index = await buildHashIndex(getActiveBatches().filter(b => b.id !== batch.id), ['reference', 'competitor']);
+          const competitors: CompetitorProduct[] = products.map((product, idx) => {
+            const match = hashes[idx] && findNearest(hashes[idx]!, index);
+            return { ...product, hash: hashes[idx]?.d, duplicateOf: match ? describeMatch(match) : undefined, crawledAt };
+          });
+          const picks = groupNearDuplicates(competitors, c => c.hash)
+            .map(group => group[0])
+            .sort((a, b) => Number(!!a.duplicateOf) - Number(!!b.duplicateOf))
+            .slice(0, MAX_INPUT_IMAGES);
+          const imageFiles: ImageFile[] = picks.map((product, idx) => ({
+            id: `crawled-${crawledAt}-${idx}`,
+            file: new File([], `crawled-${product.source}-${idx}.jpg`), // Dummy file
+            preview: product.image!,
+            base64: product.image!
           }));
+          picks.forEach((product, idx) => { product.imageId = imageFiles[idx].id; });
           
-          console.log(`✅ Adding ${imageFiles.length} images to batch ${batch.name}`);
+          console.log(`✅ Adding ${imageFiles.length}/${competitors.length} images to batch ${batch.name}`);
           
           setActiveBatches(prev => prev.map(b => 
             b.id === batch.id 
-              ? { ...b, images: [...b.images, ...imageFiles] }
+              ? { ...b, images: [...b.images, ...imageFiles].slice(0, MAX_INPUT_IMAGES), competitors: [...(b.competitors || []), ...competitors] }
               : b
           ));
         } else {
@@ -708,6 +1530,29 @@ const App: React.FC = () => {
     console.log('✅ Crawl All completed!');
   };
 
+  // Thay ảnh crawl trong input slot bằng các ứng viên đã chọn trong picker (ảnh upload tay giữ nguyên)
+  const handleApplyReferences = (batchId: string, selected: CompetitorProduct[]) => {
+    const now = Date.now();
+    setActiveBatches(prev => prev.map(b => {
+      if (b.id !== batchId) return b;
+      const crawledIds = new Set((b.competitors || []).map(c => c.imageId).filter(Boolean));
+      const manual = b.images.filter(img => !crawledIds.has(img.id));
+      const picked: ImageFile[] = selected.map((c, idx) => b.images.find(img => img.id === c.imageId) ?? {
+        id: `crawled-${now}-${idx}`,
+        file: new File([], `crawled-${c.source}-${idx}.jpg`), // Dummy file
+        preview: c.image!,
+        base64: c.image!
+      });
+      const pickedIds = new Map(selected.map((c, idx) => [c.imageUrl, picked[idx].id]));
+      return {
+        ...b,
+        images: [...manual, ...picked].slice(0, MAX_INPUT_IMAGES),
+        competitors: b.competitors?.map(c => ({ ...c, imageId: pickedIds.get(c.imageUrl) })),
+      };
+    }));
+    setReferencePickerBatchId(null);
+  };
+
   // Handle clone image drop
   const handleCloneImageDrop = async (e: React.DragEvent) => {
     e.preventDefault();
@@ -758,21 +1603,16 @@ const App: React.FC = () => {
     input.click();
   };
 
-  const onEditRegenerate = async (prompt: string, currentImage: string) => {
+  const onEditRegenerate = async (prompt: string, currentImage: string, mask: string | null) => {
     if (!editTarget) return;
     try {
       const batches = getActiveBatches();
       const b = batches.find(x => x.id === editTarget.batchId);
-      const newB64 = await generatePodImage([], prompt, currentImage, editTarget.mode, b?.name || "design");
+      const newB64 = mask
+        ? await editMaskedRegion(currentImage, mask, prompt)
+        : await generatePodImage([], prompt, currentImage, editTarget.mode, b?.name || "design");
       setEditTarget(prev => prev ? { ...prev, data: newB64 } : null);
-      setActiveBatches(p => p.map(b => {
-        if (b.id === editTarget.batchId) {
-          const keyMap: Record<string, keyof BatchItem> = { 'pro': 'resultsPro', 'normal': 'resultsNormal', 'white': 'resultsWhite', 'pattern': 'resultsPattern' };
-          const key = keyMap[editTarget.mode];
-          return { ...b, [key]: (b[key] as string[]).map((r, i) => (i === editTarget.index) ? newB64 : r) };
-        }
-        return b;
-      }));
+      replaceEditedResult(editTarget.batchId, editTarget.mode, editTarget.index, newB64, false);
     } catch (e) { alert(e); }
   };
 
@@ -808,7 +1648,7 @@ const App: React.FC = () => {
     }
   };
 
-  const activeBatches = getActiveBatches();
+  const activeBatches = batches3D;
 
   return (
     <div ref={containerRef} className="min-h-screen bg-[#F8FAFC] flex">
@@ -958,6 +1798,21 @@ const App: React.FC = () => {
                  </h1>
                  <p className="text-[9px] font-bold text-slate-400 uppercase tracking-[0.2em]">CUT-AND-SEW / ALL-OVER PRINT</p>
                </div>
+               {projectId && (
+                 <div className="flex items-center gap-2 bg-slate-50 pl-4 pr-2 py-2 rounded-2xl border border-slate-200">
+                   <span className="text-[9px] font-black uppercase text-slate-500">Project:</span>
+                   <input
+                     value={projectName}
+                     onChange={e => setProjectName(e.target.value)}
+                     placeholder="Untitled"
+                     title="Tự động lưu vào trình duyệt"
+                     className="w-40 bg-transparent text-sm font-black text-violet-600 focus:outline-none"
+                   />
+                   <button onClick={handleNewProject} title="Đóng project hiện tại, bắt đầu project mới" className="px-3 py-1.5 rounded-xl bg-white border border-slate-200 text-[9px] font-black uppercase text-slate-500 hover:bg-slate-100 transition-all">
+                     New
+                   </button>
+                 </div>
+               )}
             </div>
             <div className="flex flex-wrap items-center gap-4">
                <div className="flex items-center gap-3 bg-slate-50 px-4 py-2 rounded-2xl border border-slate-200">
@@ -966,11 +1821,61 @@ const App: React.FC = () => {
                     {[1,2,3,4,5,10].map(v => <option key={v} value={v}>{v}</option>)}
                   </select>
                </div>
-               <button onClick={() => setShouldStopGlobal(true)} className="bg-red-50 text-red-500 px-5 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-red-500 hover:text-white transition-all">Emergency Stop</button>
+               <div className="flex items-center gap-3 bg-slate-50 px-4 py-2 rounded-2xl border border-slate-200">
+                  <span className="text-[9px] font-black uppercase text-slate-500">AI:</span>
+                  <select value={providerId} onChange={e => handleProviderChange(e.target.value)} className="bg-transparent text-sm font-black text-violet-600 focus:outline-none">
+                    {listProviders().map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                  </select>
+               </div>
+               <button onClick={() => setShowQueuePanel(v => !v)} className="bg-slate-50 text-slate-600 border border-slate-200 px-5 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-100 transition-all flex items-center gap-2">
+                 Queue
+                 {queueJobs.filter(j => j.status !== 'done').length > 0 && (
+                   <span className={`px-1.5 py-0.5 rounded-md text-[9px] text-white ${queueJobs.some(j => j.status === 'failed') ? 'bg-red-500' : 'bg-violet-600'}`}>
+                     {queueJobs.filter(j => j.status !== 'done').length}
+                   </span>
+                 )}
+               </button>
+               <button onClick={() => setShowPromptLibrary(true)} className="bg-slate-50 text-slate-600 border border-slate-200 px-5 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-100 transition-all">
+                 Prompts
+               </button>
+               <button onClick={() => setShowIpBlocklist(true)} title="Blocklist trademark dùng khi sàng lọc trước export" className="bg-slate-50 text-slate-600 border border-slate-200 px-5 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-100 transition-all">
+                 IP Blocklist
+               </button>
+               <button
+                 onClick={handleTogglePause}
+                 disabled={!isPaused && !activeBatches.some(b => b.status === 'processing')}
+                 className={`px-5 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest transition-all disabled:opacity-50 ${isPaused ? 'bg-amber-500 text-white hover:bg-amber-600' : 'bg-amber-50 text-amber-600 hover:bg-amber-100'}`}
+               >
+                 {isPaused ? 'Resume' : 'Pause'}
+               </button>
+               <button onClick={handleStopAll} className="bg-red-50 text-red-500 px-5 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-red-500 hover:text-white transition-all">Emergency Stop</button>
+               {activeBatches.some(b => b.status === 'interrupted') && (
+                 <button disabled={isProcessingAll} onClick={handleResumeInterrupted} className="bg-violet-50 text-violet-600 border border-violet-200 px-5 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-violet-100 transition-all disabled:opacity-50">
+                   Resume Interrupted ({activeBatches.filter(b => b.status === 'interrupted').length})
+                 </button>
+               )}
+               <button
+                 onClick={handleScanDuplicates}
+                 disabled={isScanningDuplicates || !activeBatches.some(b => listBatchResults(b).length > 0)}
+                 title="So kết quả với ảnh đối thủ đã crawl và với nhau (perceptual hash)"
+                 className="bg-slate-50 text-slate-600 border border-slate-200 px-5 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-100 transition-all disabled:opacity-50"
+               >
+                 {isScanningDuplicates ? 'Scanning...' : 'Duplicate scan'}
+               </button>
+               <button
+                 onClick={handleExportInsightsCsv}
+                 disabled={!activeBatches.some(b => b.insights)}
+                 className="bg-indigo-50 text-indigo-600 border border-indigo-100 px-5 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-indigo-100 transition-all disabled:opacity-50"
+               >
+                 Insights CSV
+               </button>
                <button onClick={() => setShowKeywordsInput(true)} className="bg-amber-50 text-amber-600 border border-amber-200 px-5 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-amber-100 transition-all flex items-center gap-2">
                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6v6m0 0v6m0-6h6m-6 0H6"/></svg>
                  Keywords
                </button>
+               <button onClick={() => setShowHelium10Import(true)} className="bg-amber-50 text-amber-600 border border-amber-200 px-5 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-amber-100 transition-all">
+                 Helium 10
+               </button>
                <button 
                  disabled={crawlingBatchId !== null || activeBatches.length === 0 || mockupServerStatus !== 'online'} 
                  onClick={handleCrawlAll} 
@@ -989,9 +1894,82 @@ const App: React.FC = () => {
                  )}
                </button>
                <button onClick={() => folderInputRef.current?.click()} className="bg-slate-900 text-white px-5 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-violet-600 transition-all">Import Project</button>
+               <div className="flex items-center gap-2 bg-slate-50 border border-slate-200 rounded-2xl px-3 py-2">
+                 <select
+                   value={upscaleAlgorithm}
+                   onChange={e => setUpscaleAlgorithm(e.target.value as UpscaleAlgorithm)}
+                   title={UPSCALE_ALGORITHMS.find(a => a.id === upscaleAlgorithm)?.description}
+                   className="bg-transparent text-[10px] font-black uppercase text-slate-600 outline-none"
+                 >
+                   {UPSCALE_ALGORITHMS.map(a => (
+                     <option key={a.id} value={a.id} disabled={!isAlgorithmAvailable(a.id)}>{a.label}</option>
+                   ))}
+                 </select>
+                 <button
+                   onClick={handleUpscaleAll}
+                   disabled={isUpscalingAll || upscaleTask !== null || !activeBatches.some(b => listBatchResults(b).some(r => !b.upscaled?.[r.key]))}
+                   className="bg-violet-600 text-white px-3 py-1.5 rounded-xl font-black text-[10px] uppercase disabled:opacity-50"
+                 >
+                   {upscaleTask ? `Upscaling ${Math.round(upscaleTask.done / upscaleTask.total * 100)}%` : 'Upscale All'}
+                 </button>
+                 <label className="flex items-center gap-1.5 text-[9px] font-black uppercase text-slate-500 cursor-pointer" title="Upscale lên 4500px @ 300 DPI trước khi xuất ZIP / mockup">
+                   <input type="checkbox" checked={upscaleBeforeExport} onChange={e => setUpscaleBeforeExport(e.target.checked)} className="accent-violet-600" />
+                   Print res
+                 </label>
+               </div>
+               <div className="flex items-center gap-2 bg-slate-50 border border-slate-200 rounded-2xl px-3 py-2" title="Kiểm tra chất lượng pattern / tile sau mỗi lần tạo, lỗi thì tự tạo lại">
+                 <label className="flex items-center gap-1.5 text-[9px] font-black uppercase text-slate-500 cursor-pointer">
+                   <input type="checkbox" checked={qcSettings.enabled} onChange={e => setQcSettings(s => ({ ...s, enabled: e.target.checked }))} className="accent-violet-600" />
+                   QC
+                 </label>
+                 <label className="flex items-center gap-1.5 text-[9px] font-black uppercase text-slate-500 cursor-pointer" title="Gọi thêm model vision để tìm chữ / watermark (tốn thêm 1 request mỗi ảnh)">
+                   <input type="checkbox" checked={qcSettings.vision} disabled={!qcSettings.enabled} onChange={e => setQcSettings(s => ({ ...s, vision: e.target.checked }))} className="accent-violet-600" />
+                   Vision
+                 </label>
+                 <select
+                   value={qcSettings.maxRetries}
+                   disabled={!qcSettings.enabled}
+                   onChange={e => setQcSettings(s => ({ ...s, maxRetries: Number(e.target.value) }))}
+                   title="Số lần tự tạo lại khi QC không đạt"
+                   className="bg-transparent text-[10px] font-black uppercase text-slate-600 outline-none disabled:opacity-50"
+                 >
+                   {[0, 1, 2, 3].map(n => <option key={n} value={n}>Retry {n}</option>)}
+                 </select>
+               </div>
+               <button
+                 disabled={isUpscalingAll || isScreeningIp || !activeBatches.some(b => listSelectedResults(b).length > 0)}
+                 onClick={() => downloadProject()}
+                 className="bg-slate-50 text-slate-600 border border-slate-200 px-5 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-100 transition-all disabled:opacity-50"
+               >
+                 {isScreeningIp ? 'IP check...' : 'Download ZIP'}
+               </button>
+               <button
+                 disabled={isTransferringProject || activeBatches.length === 0}
+                 onClick={handleExportProjectFile}
+                 title="File project (.zecom) gồm batch, prompt, lịch sử chỉnh sửa và cấu hình — mở lại được ở máy khác"
+                 className="bg-slate-50 text-slate-600 border border-slate-200 px-5 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-100 transition-all disabled:opacity-50"
+               >
+                 Save .zecom
+               </button>
+               <button
+                 disabled={isTransferringProject}
+                 onClick={() => projectFileInputRef.current?.click()}
+                 title="Mở file .zecom hoặc dựng lại batch từ ZIP đã tải trước đây"
+                 className="bg-slate-50 text-slate-600 border border-slate-200 px-5 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-100 transition-all disabled:opacity-50"
+               >
+                 {isTransferringProject ? 'Loading...' : 'Open file'}
+               </button>
+               <button
+                 disabled={!activeBatches.some(b => listSelectedResults(b).length > 0)}
+                 onClick={() => setShowMarketplaceExport(true)}
+                 title="File bulk-upload cho Etsy / Shopify / Amazon"
+                 className="bg-slate-50 text-slate-600 border border-slate-200 px-5 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-100 transition-all disabled:opacity-50"
+               >
+                 Marketplace
+               </button>
                <button 
-                 disabled={isExportingAll || activeBatches.filter(b => b.resultsPattern?.length > 0).length === 0 || mockupServerStatus !== 'online'} 
-                 onClick={handleExportAll} 
+                 disabled={isExportingAll || isScreeningIp || !activeBatches.some(b => pickBatchResult(b, 'pattern')) || mockupServerStatus !== 'online'} 
+                 onClick={() => handleExportAll()} 
                  className="bg-emerald-600 text-white px-5 py-3 rounded-2xl font-black text-[10px] uppercase flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
                >
                  {isExportingAll ? (
@@ -1048,6 +2026,16 @@ const App: React.FC = () => {
                           Etsy
                         </a>
                       </div>
+                      {/* Chỉ số keyword từ Helium 10 */}
+                      {batch.keywordMetrics && (
+                        <div className="flex gap-1.5" title={`Helium 10 • ${batch.keywordMetrics.source}`}>
+                          {([['searchVolume', 'SV'], ['competingProducts', 'Comp'], ['searchVolumeTrend', 'Trend'], ['cpc', 'CPC']] as const).map(([field, label]) => batch.keywordMetrics![field] !== undefined && (
+                            <span key={field} className={`px-2 py-1 rounded-lg text-[9px] font-black uppercase border ${field === 'searchVolumeTrend' && batch.keywordMetrics![field]! < 0 ? 'bg-red-50 text-red-500 border-red-100' : 'bg-amber-50 text-amber-700 border-amber-100'}`}>
+                              {label} {formatMetric(field, batch.keywordMetrics![field])}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                    </div>
                    <div className="flex gap-2">
                       <button 
@@ -1062,6 +2050,11 @@ const App: React.FC = () => {
                          )}
                          PHÂN TÍCH INSIGHT
                       </button>
+                      {getBatchRetryCount(batch.id) > 0 && (
+                        <span title="Số lần retry do lỗi quota / server" className="self-center px-3 py-2 rounded-xl bg-amber-50 text-amber-600 border border-amber-100 text-[10px] font-black uppercase">
+                          ↻ {getBatchRetryCount(batch.id)}
+                        </span>
+                      )}
                       <button onClick={() => removeBatchById(batch.id)} className="bg-red-500 text-white px-6 py-4 rounded-2xl font-black text-[11px] uppercase tracking-widest flex items-center gap-3">
                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"/></svg>
                          DELETE
@@ -1072,9 +2065,19 @@ const App: React.FC = () => {
                 <div className="flex flex-col gap-8">
                   {/* INPUTS ROW */}
                   <div className="flex flex-col gap-4">
-                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">INPUTS (DRAG & DROP TO REPLACE/ADD)</label>
+                    <div className="flex items-center gap-3">
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">INPUTS (DRAG & DROP TO REPLACE/ADD)</label>
+                      {batch.competitors?.some(c => c.image) && (
+                        <button
+                          onClick={() => setReferencePickerBatchId(batch.id)}
+                          className="px-3 py-1 rounded-lg text-[9px] font-black uppercase border bg-cyan-50 text-cyan-600 border-cyan-100 hover:bg-cyan-100 transition-all"
+                        >
+                          Chọn từ {batch.competitors.filter(c => c.image).length} ảnh crawl
+                        </button>
+                      )}
+                    </div>
                     <div className="flex flex-row gap-2 flex-wrap">
-                      {[0, 1, 2, 3, 4].map(idx => {
+                      {Array.from({ length: MAX_INPUT_IMAGES }, (_, idx) => idx).map(idx => {
                         const img = batch.images[idx];
                         const slotId = `${batch.id}-${idx}`;
                         const isDraggingOver = dragSlotId === slotId;
@@ -1112,43 +2115,129 @@ const App: React.FC = () => {
                   <div className="flex items-center justify-between border-b border-violet-100 pb-4">
                     <div className="flex items-center gap-3">
                       <label className="text-[10px] font-black text-violet-500 uppercase tracking-[0.2em]">GENERATE 3D DESIGN</label>
+                      {batch.ipScreening && batch.ipScreening.findings.length > 0 && (
+                        <span
+                          title={batch.ipScreening.findings.map(f => `${f.term} (${f.detail})`).join('\n')}
+                          className={`px-2 py-1 rounded-lg text-[9px] font-black uppercase ${batch.ipScreening.acknowledgedAt ? 'bg-slate-100 text-slate-500' : batch.ipScreening.findings.some(f => f.severity === 'block') ? 'bg-red-50 text-red-600' : 'bg-amber-50 text-amber-600'}`}
+                        >
+                          {batch.ipScreening.acknowledgedAt ? 'IP acknowledged' : '⚠ IP'}: {Array.from(new Set(batch.ipScreening.findings.map(f => f.term))).join(', ')}
+                        </span>
+                      )}
                     </div>
                     <div className="flex gap-2">
+                      {batch.status === 'interrupted' && (
+                        <button 
+                          onClick={() => processBatch(batch.id, batch.processingMode || 'pattern', true)} 
+                          className="bg-amber-500 text-white px-6 py-3 rounded-xl text-[10px] font-black uppercase"
+                        >
+                          RESUME {batch[RESULT_KEYS[batch.processingMode || 'pattern']].length}/{batch.targetOutputs ?? outputsPerBatch}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setSettingsBatchId(batch.id)}
+                        title="Batch settings"
+                        className={`px-4 py-3 rounded-xl text-[10px] font-black uppercase border transition-all ${batch.customPrompt || batch.generationMode || batch.outputsPerBatch || batch.aspectRatio || batch.modelOverride || batch.injectInsight ? 'bg-violet-50 text-violet-600 border-violet-200' : 'bg-slate-50 text-slate-500 border-slate-200 hover:bg-slate-100'}`}
+                      >
+                        SETTINGS
+                      </button>
                       <button 
-                        onClick={() => processBatch(batch.id, 'pattern')} 
-                        disabled={batch.status === 'processing'}
+                        onClick={() => processBatch(batch.id, batch.generationMode || 'pattern')} 
+                        disabled={batch.status === 'processing' || batch.status === 'stopping'}
                         className="bg-violet-600 text-white px-8 py-3 rounded-xl text-[10px] font-black uppercase disabled:opacity-50"
                       >
-                        {batch.status === 'processing' && batch.processingMode === 'pattern' ? (
+                        {batch.status === 'stopping' ? (
                           <span className="flex items-center gap-2">
                             <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                            GENERATING...
+                            STOPPING...
                           </span>
-                        ) : 'RUN 3D'}
+                        ) : batch.status === 'processing' ? (
+                          <span className="flex items-center gap-2">
+                            <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                            {isPaused ? 'PAUSED' : 'GENERATING...'}
+                          </span>
+                        ) : !batch.generationMode || batch.generationMode === 'pattern' ? 'RUN 3D' : `RUN ${batch.generationMode.toUpperCase()}`}
                       </button>
-                      {batch.resultsPattern.length > 0 && (
+                      {pickBatchResult(batch, 'pattern') && (
                         <button 
-                          onClick={() => {
-                            // Force re-trigger by setting null first, then the image
-                            setCurrent3DImage(null);
-                            setTimeout(() => setCurrent3DImage(batch.resultsPattern[0]), 50);
-                          }} 
+                          onClick={() => showPatternIn3D(pickBatchResult(batch, 'pattern')!.image, batch.name, 'original', batch.customPrompt || `Generate pattern: ${batch.name}`)} 
                           className="bg-emerald-600 text-white px-6 py-3 rounded-xl text-[10px] font-black uppercase flex items-center gap-2"
                         >
                           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"/><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"/></svg>
                           SHOW 3D
                         </button>
                       )}
+                      {pickBatchResult(batch, 'tile') && (
+                        <button 
+                          onClick={() => showPatternIn3D(pickBatchResult(batch, 'tile')!.image, batch.name, 'original', `Generate tile: ${batch.name}`, 'tile')} 
+                          className="bg-emerald-600 text-white px-6 py-3 rounded-xl text-[10px] font-black uppercase flex items-center gap-2"
+                        >
+                          WRAP 3D
+                        </button>
+                      )}
                     </div>
                   </div>
                   
 {/* Generated output preview - hidden, auto apply to 3D */}
+                  <BatchResultsStrip
+                    batch={batch}
+                    upscalingKey={upscaleTask?.batchId === batch.id ? upscaleTask.key : null}
+                    upscaleDisabled={upscaleTask !== null}
+                    onUpscale={result => handleUpscaleResult(batch.id, result)}
+                    onCompare={result => setCompareTarget({ batchId: batch.id, key: result.key })}
+                    onCutout={result => createCutout(batch.id, result)}
+                    onPreviewTile={result => setTilePreviewTarget({ batchId: batch.id, key: result.key })}
+                    qcRunningKey={qcRunningKey?.startsWith(`${batch.id}:`) ? qcRunningKey.slice(batch.id.length + 1) : null}
+                    onRunQc={result => handleRunQc(batch.id, result)}
+                    onReview={(result, review) => handleReviewResult(batch.id, result.key, review)}
+                  />
+
+                  {/* COMPETITOR SECTION */}
+                  {batch.competitors && batch.competitors.length > 0 && (
+                    <div className="flex flex-col gap-3">
+                      <div className="flex items-center gap-2">
+                        <div className="w-2 h-2 rounded-full bg-cyan-500" />
+                        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">COMPETITOR REFERENCES ({batch.competitors.length})</span>
+                      </div>
+                      <CompetitorTable
+                        competitors={batch.competitors}
+                        images={batch.images}
+                        onRemove={imageUrl => setActiveBatches(p => p.map(b => b.id === batch.id ? { ...b, competitors: b.competitors?.filter(c => c.imageUrl !== imageUrl) } : b))}
+                      />
+                    </div>
+                  )}
+
+                  {/* LISTING SECTION */}
+                  {listBatchResults(batch).length > 0 && (
+                    <div className="flex flex-col gap-3">
+                      <div className="flex items-center gap-2">
+                        <div className={`w-2 h-2 rounded-full ${batch.listing ? 'bg-emerald-500' : 'bg-slate-200'}`} />
+                        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">LISTING COPY</span>
+                      </div>
+                      <ListingEditor
+                        listing={batch.listing}
+                        results={listSelectedResults(batch)}
+                        defaultKey={pickBatchResult(batch)?.key}
+                        isGenerating={batch.isGeneratingListing}
+                        onGenerate={sourceKey => handleGenerateListing(batch.id, sourceKey)}
+                        onChange={listing => setActiveBatches(p => p.map(b => b.id === batch.id ? { ...b, listing } : b))}
+                      />
+                    </div>
+                  )}
 
                   {/* INSIGHTS SECTION */}
                   <div className="flex flex-col gap-4">
                     <div className="flex items-center gap-2">
                       <div className={`w-2 h-2 rounded-full ${batch.insights ? 'bg-emerald-500' : 'bg-slate-200 animate-pulse'}`} />
                       <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">CUSTOMER INSIGHT ANALYSIS</span>
+                      {batch.insights && (
+                        <button
+                          onClick={() => setActiveBatches(p => p.map(b => b.id === batch.id ? { ...b, injectInsight: !b.injectInsight || undefined } : b))}
+                          title="Đưa insight vào prompt thiết kế (xem diff trong SETTINGS)"
+                          className={`ml-auto px-3 py-1 rounded-lg text-[9px] font-black uppercase border transition-all ${batch.injectInsight ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-indigo-600 border-indigo-100 hover:bg-indigo-50'}`}
+                        >
+                          {batch.injectInsight ? '✓ Dùng cho prompt' : 'Dùng cho prompt'}
+                        </button>
+                      )}
                     </div>
                     <div className="p-6 rounded-[24px] border-2 border-dashed border-slate-100 bg-slate-50/30 min-h-[300px] max-h-[500px] overflow-y-auto custom-scrollbar">
                       {batch.isAnalyzingInsights ? (
@@ -1157,14 +2246,7 @@ const App: React.FC = () => {
                           <span className="text-sm font-black text-slate-500 uppercase animate-pulse tracking-widest">Đang giải mã Insight...</span>
                         </div>
                       ) : batch.insights ? (
-                        <div className="prose prose-slate prose-sm max-w-none whitespace-pre-line text-slate-700 font-medium text-sm">
-                          {batch.insights.split('\n').map((line, lIdx) => {
-                             if (line.startsWith('Keyword sản phẩm:')) return <div key={lIdx} className="text-lg font-black text-violet-600 mb-4">{line}</div>;
-                             if (line.includes('🖌') || line.includes('💡') || line.includes('🧍')) return <div key={lIdx} className="text-sm font-black text-slate-900 mt-6 mb-3 uppercase tracking-tight border-b border-slate-200 pb-2">{line}</div>;
-                             if (line.startsWith('Kết luận:')) return <div key={lIdx} className="mt-6 p-4 bg-violet-50 rounded-xl border border-violet-100 text-violet-900 font-bold italic">{line}</div>;
-                             return <div key={lIdx} className="mb-1.5 leading-relaxed">{line}</div>;
-                          })}
-                        </div>
+                        <InsightCards insight={batch.insights} />
                       ) : (
                         <div className="flex flex-col items-center justify-center py-12 opacity-40">
                           <svg className="w-12 h-12 text-slate-200 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5" d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z"/></svg>
@@ -1183,7 +2265,21 @@ const App: React.FC = () => {
                  <div className="w-24 h-24 bg-white rounded-full flex items-center justify-center mb-8 shadow-sm border border-slate-100"><svg className="w-10 h-10 text-slate-200" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a2 2 0 002 2h12a2 2 0 002-2v-1m-4-4l-4 4m0 0l-4-4m4 4V4"/></svg></div>
                  <h2 className="text-xl font-black text-slate-400 uppercase tracking-tighter">No 3D Projects Loaded</h2>
                  <p className="text-sm text-slate-400 mt-2">Import folders to extract themes and generate 3D assets.</p>
-                 <button onClick={() => folderInputRef.current?.click()} className="mt-8 text-white px-8 py-4 rounded-3xl font-black text-[12px] uppercase shadow-2xl bg-violet-600 shadow-violet-100">Upload Folder</button>
+                 <div className="mt-8 flex items-center gap-3">
+                   <button onClick={() => folderInputRef.current?.click()} className="text-white px-8 py-4 rounded-3xl font-black text-[12px] uppercase shadow-2xl bg-violet-600 shadow-violet-100">Upload Folder</button>
+                   <button disabled={isTransferringProject} onClick={() => projectFileInputRef.current?.click()} className="px-8 py-4 rounded-3xl font-black text-[12px] uppercase bg-white text-violet-600 border border-violet-200 disabled:opacity-50">
+                     {isTransferringProject ? 'Loading...' : 'Open .zecom / ZIP'}
+                   </button>
+                 </div>
+                 {projects.length > 0 && (
+                   <ProjectList
+                     projects={projects}
+                     activeProjectId={projectId}
+                     disabled={isRestoringProject}
+                     onOpen={handleOpenProject}
+                     onDelete={handleDeleteProject}
+                   />
+                 )}
               </div>
             )}
           </div>
@@ -1217,6 +2313,23 @@ const App: React.FC = () => {
                 <span className="text-[9px] font-bold text-slate-400 bg-slate-100 px-2 py-1 rounded-lg">
                   {Math.round(leftColumnWidth)}% / {Math.round(100 - leftColumnWidth)}%
                 </span>
+                {editSessions.length > 0 && (
+                  <button
+                    onClick={() => setShowVersionTimeline(v => !v)}
+                    className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase transition-all ${showVersionTimeline ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                  >
+                    Versions ({editSessions.reduce((n, s) => n + s.turns.length, 0)})
+                  </button>
+                )}
+                {current3DImage && (
+                  <button
+                    onClick={() => setViewerWrapMode(m => m === 'tile' ? 'panels' : 'tile')}
+                    title="Tile: lặp ảnh khắp áo • Panels: cắt 3 vùng của pattern 16:9"
+                    className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase transition-all ${viewerWrapMode === 'tile' ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                  >
+                    {viewerWrapMode === 'tile' ? 'Wrap: Tile' : 'Wrap: Panels'}
+                  </button>
+                )}
                 {current3DImage && (
                   <>
                     <button 
@@ -1273,6 +2386,7 @@ const App: React.FC = () => {
               </div>
             </div>
             
+            <div className="flex-1 flex gap-4 min-h-0">
             <div className="flex-1 rounded-3xl overflow-hidden relative">
               {current3DImage ? (
                 <Suspense fallback={
@@ -1285,6 +2399,7 @@ const App: React.FC = () => {
                 }>
                   <TShirt3DViewer 
                     newImageBase64={current3DImage} 
+                    wrapMode={viewerWrapMode}
                     onApplyComplete={() => console.log('Applied to 3D model')}
                   />
                 </Suspense>
@@ -1300,7 +2415,7 @@ const App: React.FC = () => {
               
               {/* Edit Panel Bubble - Small floating panel */}
               {showEditPanel && current3DImage && (
-                <div className="absolute bottom-4 right-4 w-80 bg-white rounded-2xl shadow-2xl border border-slate-200 z-50 animate-in fade-in slide-in-from-bottom-4 duration-200">
+                <div className={`absolute bottom-4 right-4 ${isMaskingPattern ? 'w-[32rem]' : 'w-80'} bg-white rounded-2xl shadow-2xl border border-slate-200 z-50 animate-in fade-in slide-in-from-bottom-4 duration-200`}>
                   {/* Header */}
                   <div className="flex items-center justify-between p-3 border-b border-slate-100">
                     <h3 className="text-xs font-black text-slate-900 uppercase flex items-center gap-2">
@@ -1314,6 +2429,30 @@ const App: React.FC = () => {
                   
                   {/* Content */}
                   <div className="p-3 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <span className="text-[9px] font-bold text-slate-400 uppercase">{isMaskingPattern ? 'Tô vùng cần sửa - phần còn lại giữ nguyên' : 'Sửa toàn bộ pattern'}</span>
+                      <button
+                        onClick={() => { setIsMaskingPattern(v => !v); clearPatternMask(); }}
+                        className={`px-2 py-1 rounded-lg text-[9px] font-black uppercase transition-all ${isMaskingPattern ? 'bg-red-500 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                      >
+                        Mask {isMaskingPattern ? 'on' : 'off'}
+                      </button>
+                    </div>
+                    {isMaskingPattern && (
+                      <>
+                        <div className="relative rounded-xl overflow-hidden border border-slate-200">
+                          <img
+                            src={current3DImage}
+                            onLoad={e => setPatternSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                            className="block w-full"
+                          />
+                          {patternSize.width > 0 && (
+                            <MaskCanvas key={patternMaskKey} width={patternSize.width} height={patternSize.height} tool={maskTool} brushSize={maskBrushSize} onChange={setPatternMask} />
+                          )}
+                        </div>
+                        <MaskToolbar tool={maskTool} brushSize={maskBrushSize} hasMask={!!patternMask} onToolChange={setMaskTool} onBrushSizeChange={setMaskBrushSize} onClear={clearPatternMask} />
+                      </>
+                    )}
                     {/* Edit prompt */}
                     <textarea 
                       value={editPrompt}
@@ -1326,7 +2465,7 @@ const App: React.FC = () => {
                     <div className="flex gap-2">
                       <button 
                         onClick={() => handleEditPattern('redesign')}
-                        disabled={isEditing || !editPrompt.trim()}
+                        disabled={isEditing || !editPrompt.trim() || (isMaskingPattern && !patternMask)}
                         className="flex-1 py-2.5 rounded-xl font-black text-[10px] uppercase tracking-wider transition-all flex items-center justify-center gap-2 disabled:opacity-50 bg-indigo-600 text-white hover:bg-indigo-700"
                       >
                         {isEditing && editMode === 'redesign' ? (
@@ -1337,7 +2476,8 @@ const App: React.FC = () => {
                       </button>
                       <button 
                         onClick={() => handleEditPattern('creative')}
-                        disabled={isEditing || !editPrompt.trim()}
+                        disabled={isEditing || !editPrompt.trim() || isMaskingPattern}
+                        title={isMaskingPattern ? 'Creative tạo pattern mới hoàn toàn nên không dùng mask' : undefined}
                         className="flex-1 py-2.5 rounded-xl font-black text-[10px] uppercase tracking-wider transition-all flex items-center justify-center gap-2 disabled:opacity-50 bg-violet-600 text-white hover:bg-violet-700"
                       >
                         {isEditing && editMode === 'creative' ? (
@@ -1347,10 +2487,50 @@ const App: React.FC = () => {
                         )}
                       </button>
                     </div>
+
+                    {/* Edit session - các lượt chỉnh sửa, bấm vào lượt cũ để rẽ nhánh */}
+                    {activeEditSession && (
+                      <div className="border-t border-slate-100 pt-3 space-y-2">
+                        <div className="flex items-center justify-between">
+                          <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Session • {activeEditSession.turns.length - 1} turns</span>
+                          <div className="flex items-center gap-3">
+                            <button onClick={handleUndoEdit} disabled={isEditing || !getActiveTurn(activeEditSession).parentId} className="text-[9px] font-black uppercase text-slate-400 hover:text-indigo-600 disabled:opacity-50">Undo</button>
+                            <button onClick={handleNewEditSession} disabled={isEditing} className="text-[9px] font-black uppercase text-slate-400 hover:text-indigo-600 disabled:opacity-50">New session</button>
+                          </div>
+                        </div>
+                        <div className="max-h-48 overflow-y-auto custom-scrollbar space-y-1">
+                          {getTurnTree(activeEditSession).map(({ turn, depth }) => (
+                            <button
+                              key={turn.id}
+                              onClick={() => handleRestoreVersion(activeEditSession.id, turn.id)}
+                              disabled={isEditing}
+                              style={{ paddingLeft: 6 + depth * 12 }}
+                              className={`w-full flex items-center gap-2 pr-2 py-1.5 rounded-lg text-left transition-all disabled:opacity-50 ${turn.id === activeEditSession.activeTurnId ? 'bg-indigo-50 ring-1 ring-indigo-200' : 'hover:bg-slate-50'}`}
+                            >
+                              <img src={turn.image} className="w-14 aspect-video object-cover rounded-md border border-slate-200 shrink-0" />
+                              <div className="min-w-0 flex-1">
+                                <span className={`text-[8px] font-black uppercase ${turn.kind === 'creative' ? 'text-violet-600' : turn.kind === 'masked' ? 'text-red-500' : turn.kind === 'original' ? 'text-slate-400' : 'text-indigo-600'}`}>{turn.kind}</span>
+                                <p className="text-[10px] text-slate-600 truncate">{turn.prompt || 'Pattern gốc'}</p>
+                              </div>
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                   </div>
                 </div>
               )}
             </div>
+            {showVersionTimeline && (
+              <PatternVersionTimeline
+                sessions={editSessions}
+                activeSessionId={activeEditSessionId}
+                disabled={isEditing}
+                onRestore={handleRestoreVersion}
+                onClose={() => setShowVersionTimeline(false)}
+              />
+            )}
+            </div>
           </div>
         </div>
       </main>
@@ -1363,6 +2543,13 @@ const App: React.FC = () => {
         onChange={handleFolderUpload} 
         {...({ webkitdirectory: '', directory: '' } as any)} 
       />
+      <input
+        type="file"
+        ref={projectFileInputRef}
+        className="hidden"
+        accept={`${PROJECT_ARCHIVE_EXTENSION},.zip`}
+        onChange={handleImportProjectFile}
+      />
       
       {editTarget && (
         <EditModal 
@@ -1370,9 +2557,7 @@ const App: React.FC = () => {
           batchName={activeBatches.find(b => b.id === editTarget.batchId)?.name || 'design'}
           onClose={() => setEditTarget(null)} 
           onSave={(newB64, applyToAll) => {
-            const keyMap: Record<string, keyof BatchItem> = { 'pro': 'resultsPro', 'normal': 'resultsNormal', 'white': 'resultsWhite', 'pattern': 'resultsPattern' };
-            const key = keyMap[editTarget.mode];
-            setActiveBatches(p => p.map(b => b.id === editTarget.batchId ? { ...b, [key]: (b[key] as string[]).map((r, i) => (i === editTarget.index || applyToAll) ? newB64 : r) } : b));
+            replaceEditedResult(editTarget.batchId, editTarget.mode, editTarget.index, newB64, applyToAll);
             if (!applyToAll) setEditTarget(prev => prev ? { ...prev, data: newB64 } : null);
           }}
           onRegenerate={onEditRegenerate}
@@ -1381,6 +2566,93 @@ const App: React.FC = () => {
       
       {zoomImage && <Lightbox image={zoomImage} onClose={() => setZoomImage(null)} />}
 
+      {showQueuePanel && (
+        <GenerationQueuePanel
+          jobs={queueJobs}
+          config={schedulerConfig}
+          failedBatchCount={activeBatches.filter(b => b.status === 'error').length}
+          onConfigChange={handleSchedulerConfigChange}
+          onRetryFailed={handleRetryFailed}
+          onClearFinished={() => dismissFinishedJobs()}
+          onClose={() => setShowQueuePanel(false)}
+        />
+      )}
+
+      {showPromptLibrary && <PromptLibraryModal onClose={() => setShowPromptLibrary(false)} />}
+
+      {showIpBlocklist && (
+        <IpBlocklistModal
+          visionCheck={ipVisionCheck}
+          onVisionCheckChange={setIpVisionCheck}
+          onClose={() => setShowIpBlocklist(false)}
+        />
+      )}
+
+      {showMarketplaceExport && (
+        <MarketplaceExportModal
+          batches={activeBatches.filter(b => listSelectedResults(b).length > 0)}
+          defaults={marketplaceDefaults}
+          isExporting={isExportingMarketplace || isScreeningIp}
+          onDefaultsChange={setMarketplaceDefaults}
+          onBatchChange={(batchId, patch) => setActiveBatches(p => p.map(b => b.id === batchId ? { ...b, ...patch } : b))}
+          onExport={profileId => handleMarketplaceExport(profileId)}
+          onClose={() => setShowMarketplaceExport(false)}
+        />
+      )}
+
+      {ipGate && (
+        <IpRiskModal
+          actionLabel={ipGate.actionLabel}
+          batches={activeBatches.filter(b => ipGate.batchIds.includes(b.id))}
+          onAcknowledge={handleAcknowledgeIp}
+          onEditBlocklist={() => setShowIpBlocklist(true)}
+          onClose={() => setIpGate(null)}
+        />
+      )}
+
+      {settingsBatchId && activeBatches.find(b => b.id === settingsBatchId) && (
+        <BatchSettingsDrawer
+          batch={activeBatches.find(b => b.id === settingsBatchId)!}
+          defaultOutputs={outputsPerBatch}
+          onChange={patch => setActiveBatches(p => p.map(b => b.id === settingsBatchId ? { ...b, ...patch } : b))}
+          onCopyToAll={() => handleCopySettingsToAll(settingsBatchId)}
+          onClose={() => setSettingsBatchId(null)}
+        />
+      )}
+
+      {compareTarget && (() => {
+        const batch = activeBatches.find(b => b.id === compareTarget.batchId);
+        const result = batch && listBatchResults(batch).find(r => r.key === compareTarget.key);
+        const asset = batch?.upscaled?.[compareTarget.key];
+        return batch && result && asset ? (
+          <UpscaleCompare
+            title={getResultFileName(batch, result)}
+            original={result.image}
+            asset={asset}
+            onClose={() => setCompareTarget(null)}
+          />
+        ) : null;
+      })()}
+
+      {tilePreviewTarget && (() => {
+        const batch = activeBatches.find(b => b.id === tilePreviewTarget.batchId);
+        const result = batch && listBatchResults(batch).find(r => r.key === tilePreviewTarget.key);
+        return batch && result ? (
+          <TilePreview
+            title={getResultFileName(batch, result)}
+            image={result.image}
+            report={batch.seamReports?.[result.key]}
+            isRepairing={repairingTileKey === result.key}
+            onRepair={() => handleRepairTile(batch.id, result)}
+            onWrap3D={() => {
+              showPatternIn3D(result.image, batch.name, 'original', `Generate tile: ${batch.name}`, 'tile');
+              setTilePreviewTarget(null);
+            }}
+            onClose={() => setTilePreviewTarget(null)}
+          />
+        ) : null;
+      })()}
+
       {/* Export Result Modal */}
       {showExportResult && (exportedPrint || exportedMockup) && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/90 backdrop-blur-md animate-in fade-in duration-200">
@@ -1489,9 +2761,34 @@ const App: React.FC = () => {
       )}
 
       {/* Keywords Input Modal */}
+      {referencePickerBatchId && (() => {
+        const batch = activeBatches.find(b => b.id === referencePickerBatchId);
+        if (!batch) return null;
+        const candidates = (batch.competitors || []).filter(c => c.image);
+        const crawledIds = new Set(candidates.map(c => c.imageId).filter(Boolean));
+        return (
+          <ReferencePickerModal
+            batchName={batch.name}
+            candidates={candidates}
+            initialSelection={batch.images.map(img => candidates.find(c => c.imageId === img.id)).filter((c): c is CompetitorProduct => !!c)}
+            availableSlots={MAX_INPUT_IMAGES - batch.images.filter(img => !crawledIds.has(img.id)).length}
+            onConfirm={selected => handleApplyReferences(batch.id, selected)}
+            onClose={() => setReferencePickerBatchId(null)}
+          />
+        );
+      })()}
+
+      {showHelium10Import && (
+        <Helium10ImportModal
+          existingKeywords={activeBatches.map(b => b.name)}
+          onImport={handleImportHelium10}
+          onClose={() => setShowHelium10Import(false)}
+        />
+      )}
+
       {showKeywordsInput && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 animate-in fade-in duration-200">
-          <div className="bg-white rounded-3xl shadow-2xl w-[500px] max-h-[80vh] overflow-hidden animate-in slide-in-from-bottom-4 duration-300">
+          <div className="bg-white rounded-3xl shadow-2xl w-[600px] max-h-[90vh] overflow-y-auto custom-scrollbar animate-in slide-in-from-bottom-4 duration-300">
             {/* Header */}
             <div className="p-6 border-b border-slate-100 flex items-center justify-between">
               <div>
@@ -1526,6 +2823,16 @@ const App: React.FC = () => {
                   Clear All
                 </button>
               </div>
+              <div className="pt-4 border-t border-slate-100 space-y-2">
+                <p className="text-xs font-bold text-slate-500">Hoặc mở rộng từ một niche gốc (sub-niche, nhóm khách hàng, dịp tặng quà)</p>
+                <KeywordExpansionPanel
+                  existingKeywords={activeBatches.map(b => b.name)}
+                  onAdd={keywords => {
+                    createKeywordBatches(keywords);
+                    setShowKeywordsInput(false);
+                  }}
+                />
+              </div>
             </div>
             
             {/* Footer */}
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { BatchItem } from '../types';
+import { listBatchResults, RESULT_MODES, BatchResult } from '../services/batchResults';
+import { getBackgroundKeyColor } from '../services/backgroundRemoval';
+import { isQcApplicable } from '../services/qualityGate';
+import { ResultReview } from '../services/resultReview';
+
+interface BatchResultsStripProps {
+  batch: BatchItem;
+  upscalingKey: string | null; // Key của kết quả đang upscale trong batch này
+  upscaleDisabled: boolean;
+  onUpscale: (result: BatchResult) => void;
+  onCompare: (result: BatchResult) => void;
+  onCutout: (result: BatchResult) => void; // Tách lại nền (normal / pro / white)
+  onPreviewTile: (result: BatchResult) => void;
+  qcRunningKey: string | null; // Key của kết quả đang chạy QC trong batch này
+  onRunQc: (result: BatchResult) => void;
+  onReview: (result: BatchResult, review?: ResultReview) => void; // undefined = bỏ cờ
+}
+
+const REVIEW_BUTTONS: Array<{ review: ResultReview; label: string; title: string; active: string }> = [
+  { review: 'hero', label: '★ Hero', title: 'Ảnh đại diện: dùng cho 3D, mockup và listing', active: 'bg-amber-400 text-white' },
+  { review: 'approved', label: '✓', title: 'Duyệt: được đưa vào ZIP / export', active: 'bg-emerald-500 text-white' },
+  { review: 'rejected', label: '✗', title: 'Loại: bỏ khỏi mọi lần export', active: 'bg-red-500 text-white' },
+];
+
+// Nền caro để thấy rõ vùng trong suốt
+const CHECKERBOARD: React.CSSProperties = {
+  backgroundImage: 'conic-gradient(#e2e8f0 25%, #fff 0 50%, #e2e8f0 0 75%, #fff 0)',
+  backgroundSize: '12px 12px',
+};
+
+// Dải thumbnail các kết quả đã tạo của batch, kèm thao tác upscale / tách nền / xem tile / QC từng ảnh
+const BatchResultsStrip: React.FC<BatchResultsStripProps> = ({ batch, upscalingKey, upscaleDisabled, onUpscale, onCompare, onCutout, onPreviewTile, qcRunningKey, onRunQc, onReview }) => {
+  const [showTransparent, setShowTransparent] = useState(false);
+  const [qcDetailKey, setQcDetailKey] = useState<string | null>(null);
+  const results = listBatchResults(batch);
+  if (results.length === 0) return null;
+  const hasCutouts = results.some(r => batch.cutouts?.[r.key]);
+
+  return (
+    <div className="space-y-2">
+      {hasCutouts && (
+        <button
+          onClick={() => setShowTransparent(v => !v)}
+          className={`px-3 py-1 rounded-lg text-[9px] font-black uppercase border transition-all ${showTransparent ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'}`}
+        >
+          {showTransparent ? '✓ Transparent PNG' : 'Transparent PNG'}
+        </button>
+      )}
+      <div className="flex gap-3 overflow-x-auto custom-scrollbar pb-1">
+        {results.map(result => {
+          const upscaled = batch.upscaled?.[result.key];
+          const cutout = batch.cutouts?.[result.key];
+          const seamReport = batch.seamReports?.[result.key];
+          const qcReport = batch.qcReports?.[result.key];
+          const duplicateFlag = batch.duplicateFlags?.[result.key];
+          const review = batch.reviews?.[result.key];
+          const isUpscaling = upscalingKey === result.key;
+          return (
+            <div key={result.key} className="shrink-0 w-36 space-y-1.5">
+              <div className={`relative rounded-xl ${review === 'hero' ? 'ring-2 ring-amber-400 ring-offset-1' : ''} ${review === 'rejected' ? 'opacity-40 grayscale' : ''}`}>
+                {showTransparent && cutout ? (
+                  <img src={cutout} style={CHECKERBOARD} className="w-36 h-24 object-contain rounded-xl border border-slate-200" />
+                ) : (
+                  <img src={result.image} className="w-36 h-24 object-cover rounded-xl border border-slate-200 bg-slate-50" />
+                )}
+                <span className="absolute top-1.5 left-1.5 px-1.5 py-0.5 rounded-md bg-slate-900/70 text-white text-[8px] font-black uppercase">
+                  {RESULT_MODES.find(m => m.mode === result.mode)!.label} {result.index + 1}
+                </span>
+                {qcReport && (
+                  <button
+                    onClick={() => setQcDetailKey(k => k === result.key ? null : result.key)}
+                    title={qcReport.checks.filter(c => !c.passed || c.skipped).map(c => `${c.label}: ${c.detail}`).join('\n') || 'QC đạt'}
+                    className={`absolute bottom-1.5 left-1.5 px-1.5 py-0.5 rounded-md text-white text-[8px] font-black uppercase ${qcReport.passed ? 'bg-emerald-500' : 'bg-red-500'}`}
+                  >
+                    QC {qcReport.passed ? '✓' : '✗'}{qcReport.attempts > 1 ? ` • ${qcReport.attempts} lần` : ''}
+                  </button>
+                )}
+                {duplicateFlag && (
+                  <span
+                    title={`${duplicateFlag.kind === 'copyRisk' ? 'Giống ảnh đối thủ' : 'Gần trùng'} ${duplicateFlag.label} (batch "${duplicateFlag.batchName}", lệch ${duplicateFlag.distance}/64 bit)`}
+                    className={`absolute bottom-1.5 right-1.5 flex items-center gap-1 pl-0.5 pr-1.5 py-0.5 rounded-md text-white text-[8px] font-black uppercase ${duplicateFlag.kind === 'copyRisk' ? 'bg-red-500' : 'bg-amber-500'}`}
+                  >
+                    <img src={duplicateFlag.preview} className="w-4 h-4 rounded object-cover" />
+                    {duplicateFlag.kind === 'copyRisk' ? 'Copy risk' : 'Trùng'}
+                  </span>
+                )}
+                {upscaled && (
+                  <span className="absolute top-1.5 right-1.5 px-1.5 py-0.5 rounded-md bg-emerald-500 text-white text-[8px] font-black uppercase">
+                    {upscaled.width}px
+                  </span>
+                )}
+              </div>
+              <div className="flex gap-1">
+                {REVIEW_BUTTONS.map(button => (
+                  <button
+                    key={button.review}
+                    onClick={() => onReview(result, review === button.review ? undefined : button.review)}
+                    title={button.title}
+                    className={`py-1 rounded-lg text-[9px] font-black uppercase transition-all ${button.review === 'hero' ? 'flex-1' : 'w-7'} ${review === button.review ? button.active : 'bg-slate-50 text-slate-400 hover:bg-slate-100'}`}
+                  >
+                    {button.label}
+                  </button>
+                ))}
+              </div>
+              {upscaled ? (
+                <button
+                  onClick={() => onCompare(result)}
+                  className="w-full py-1.5 rounded-lg text-[9px] font-black uppercase bg-slate-100 text-slate-600 hover:bg-slate-200"
+                >
+                  Zoom check
+                </button>
+              ) : (
+                <button
+                  onClick={() => onUpscale(result)}
+                  disabled={upscaleDisabled}
+                  className="w-full py-1.5 rounded-lg text-[9px] font-black uppercase bg-violet-50 text-violet-600 hover:bg-violet-100 disabled:opacity-50"
+                >
+                  {isUpscaling ? 'Upscaling...' : 'Upscale'}
+                </button>
+              )}
+              {qcReport && qcDetailKey === result.key && (
+                <ul className="p-2 rounded-lg bg-slate-50 border border-slate-100 space-y-1">
+                  {qcReport.checks.map(check => (
+                    <li key={check.id} className={`text-[9px] leading-snug ${check.skipped ? 'text-amber-600' : check.passed ? 'text-slate-500' : 'text-red-600 font-bold'}`} title={check.detail}>
+                      {check.skipped ? '–' : check.passed ? '✓' : '✗'} {check.label}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {isQcApplicable(result.mode) && (
+                <button
+                  onClick={() => onRunQc(result)}
+                  disabled={qcRunningKey !== null}
+                  className="w-full py-1.5 rounded-lg text-[9px] font-black uppercase bg-slate-50 text-slate-500 hover:bg-slate-100 disabled:opacity-50"
+                >
+                  {qcRunningKey === result.key ? 'Checking...' : qcReport ? 'Re-run QC' : 'Run QC'}
+                </button>
+              )}
+              {result.mode === 'tile' && (
+                <button
+                  onClick={() => onPreviewTile(result)}
+                  className={`w-full py-1.5 rounded-lg text-[9px] font-black uppercase ${seamReport && !seamReport.seamless ? 'bg-amber-50 text-amber-600 hover:bg-amber-100' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}
+                >
+                  Tile preview{seamReport ? (seamReport.seamless ? ' ✓' : ' ⚠') : ''}
+                </button>
+              )}
+              {getBackgroundKeyColor(result.mode) && (
+                <button
+                  onClick={() => onCutout(result)}
+                  title={cutout ? 'Tách nền lại' : 'Tách nền thành PNG trong suốt'}
+                  className="w-full py-1.5 rounded-lg text-[9px] font-black uppercase bg-slate-50 text-slate-500 hover:bg-slate-100"
+                >
+                  {cutout ? 'Re-cut background' : 'Remove background'}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default BatchResultsStrip;
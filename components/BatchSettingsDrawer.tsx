@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { BatchItem } from '../types';
+import { buildGenerationPrompt, getDefaultAspectRatio, GenerationMode } from '../services/geminiService';
+import { ASPECT_RATIOS, getProvider } from '../services/imageProvider';
+
+interface BatchSettingsDrawerProps {
+  batch: BatchItem;
+  defaultOutputs: number;
+  onChange: (patch: Partial<BatchItem>) => void;
+  onCopyToAll: () => void;
+  onClose: () => void;
+}
+
+const MODES: Array<{ mode: GenerationMode; label: string }> = [
+  { mode: 'pattern', label: '3D Pattern' },
+  { mode: 'tile', label: 'Seamless Tile' },
+  { mode: 'pro', label: 'Pro' },
+  { mode: 'normal', label: 'Normal' },
+  { mode: 'white', label: 'White' },
+];
+
+const PRESET_COLORS = ['#000000', '#ffffff', '#f2c3d5', '#bb1120'];
+
+const BatchSettingsDrawer: React.FC<BatchSettingsDrawerProps> = ({
+  batch,
+  defaultOutputs,
+  onChange,
+  onCopyToAll,
+  onClose,
+}) => {
+  const [showPreview, setShowPreview] = useState(true);
+  const mode = batch.generationMode || 'pattern';
+  const aspectRatio = batch.aspectRatio || getDefaultAspectRatio(mode);
+  const models = getProvider().imageModels;
+
+  // White mode dùng kết quả Pro đầu tiên làm ảnh nguồn nếu có (giống processBatch)
+  const promptOptions = {
+    customPrompt: batch.customPrompt,
+    themeName: batch.name,
+    backgroundColor: mode === 'pro' ? batch.proBackgroundColor : undefined,
+    hasSourceImage: mode === 'white' && batch.resultsPro.length > 0,
+  };
+  const basePrompt = buildGenerationPrompt(mode, promptOptions);
+  const finalPrompt = buildGenerationPrompt(mode, {
+    ...promptOptions,
+    insight: batch.injectInsight ? batch.insights : undefined,
+  });
+  // Diff theo dòng: dòng nào không có trong prompt gốc là phần insight thêm vào
+  const baseLines = new Set(basePrompt.split('\n'));
+  const addedLineCount = finalPrompt.split('\n').filter(line => line.trim() && !baseLines.has(line)).length;
+  const customPromptIgnored = !!batch.customPrompt && (mode === 'pattern' || mode === 'tile' || mode === 'white');
+
+  return (
+    <div className="fixed inset-0 z-[90] flex justify-end bg-slate-900/40 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div className="w-full max-w-md h-full bg-white shadow-2xl flex flex-col animate-in slide-in-from-right duration-200" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <div className="min-w-0">
+            <h3 className="text-sm font-black text-slate-900 uppercase">Batch Settings</h3>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1 truncate">{batch.name}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-all">
+            <svg className="w-5 h-5 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-6">
+          <div className="space-y-2">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Mode</label>
+            <div className="grid grid-cols-4 gap-2">
+              {MODES.map(m => (
+                <button
+                  key={m.mode}
+                  onClick={() => onChange({ generationMode: m.mode })}
+                  className={`py-2.5 rounded-xl text-[10px] font-black uppercase transition-all ${mode === m.mode ? 'bg-violet-600 text-white' : 'bg-slate-50 text-slate-500 border border-slate-200 hover:bg-slate-100'}`}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex items-center justify-between gap-2 bg-slate-50 px-3 py-2.5 rounded-xl border border-slate-200">
+              <span className="text-[9px] font-black uppercase text-slate-500">Outputs</span>
+              <select
+                value={batch.outputsPerBatch ?? ''}
+                onChange={e => onChange({ outputsPerBatch: e.target.value ? Number(e.target.value) : undefined })}
+                className="bg-transparent text-sm font-black text-violet-600 focus:outline-none"
+              >
+                <option value="">Global ({defaultOutputs})</option>
+                {[1, 2, 3, 4, 5, 10].map(v => <option key={v} value={v}>{v}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center justify-between gap-2 bg-slate-50 px-3 py-2.5 rounded-xl border border-slate-200">
+              <span className="text-[9px] font-black uppercase text-slate-500">Ratio</span>
+              <select
+                value={batch.aspectRatio ?? ''}
+                onChange={e => onChange({ aspectRatio: (e.target.value || undefined) as BatchItem['aspectRatio'] })}
+                className="bg-transparent text-sm font-black text-violet-600 focus:outline-none"
+              >
+                <option value="">Auto ({getDefaultAspectRatio(mode)})</option>
+                {ASPECT_RATIOS.map(r => <option key={r} value={r}>{r}</option>)}
+              </select>
+            </label>
+          </div>
+          {mode === 'pattern' && aspectRatio !== '16:9' && (
+            <p className="text-[10px] font-bold text-amber-600 bg-amber-50 px-3 py-2 rounded-xl">3D viewer và mockup cần pattern 16:9 - tỉ lệ khác sẽ bị crop sai.</p>
+          )}
+
+          <div className="space-y-2">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Model override</label>
+            <select
+              value={batch.modelOverride ?? ''}
+              onChange={e => onChange({ modelOverride: e.target.value || undefined })}
+              className="w-full px-3 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-700 focus:outline-none focus:ring-2 focus:ring-violet-500"
+            >
+              <option value="">Mặc định theo mode</option>
+              {models.map(m => <option key={m} value={m}>{m}</option>)}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Background color {mode !== 'pro' && <span className="text-slate-300">(chỉ dùng ở Pro mode)</span>}</label>
+            <div className="flex items-center gap-2">
+              {PRESET_COLORS.map(color => (
+                <button
+                  key={color}
+                  onClick={() => onChange({ proBackgroundColor: color })}
+                  style={{ backgroundColor: color }}
+                  className={`w-9 h-9 rounded-xl border-2 transition-all ${(batch.proBackgroundColor || '#000000').toLowerCase() === color ? 'border-violet-600 scale-110' : 'border-slate-200'}`}
+                />
+              ))}
+              <input
+                type="color"
+                value={batch.proBackgroundColor || '#000000'}
+                onChange={e => onChange({ proBackgroundColor: e.target.value })}
+                className="w-9 h-9 rounded-xl border border-slate-200 cursor-pointer"
+              />
+              <span className="text-[11px] font-mono font-bold text-slate-500 uppercase">{batch.proBackgroundColor || '#000000'}</span>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Custom prompt</label>
+            <textarea
+              value={batch.customPrompt || ''}
+              onChange={e => onChange({ customPrompt: e.target.value || undefined })}
+              placeholder="Để trống = dùng template mặc định. Có thể dùng {{keyword}}, {{bgStyle}}, {{backgroundColor}}"
+              className="w-full h-32 p-3 bg-slate-50 border border-slate-200 rounded-xl text-xs text-slate-700 focus:outline-none focus:ring-2 focus:ring-violet-500 resize-none custom-scrollbar"
+            />
+            {customPromptIgnored && (
+              <p className="text-[10px] font-bold text-amber-600">Mode {mode} dùng template riêng - custom prompt chỉ áp dụng cho Normal / Pro.</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <label className={`flex items-center justify-between gap-3 px-3 py-2.5 rounded-xl border ${batch.insights ? 'bg-indigo-50 border-indigo-100 cursor-pointer' : 'bg-slate-50 border-slate-200 opacity-50'}`}>
+              <div>
+                <span className="block text-[10px] font-black uppercase text-indigo-600">Inject customer insight</span>
+                <span className="block text-[10px] text-slate-500">
+                  {batch.insights ? 'Thêm motif, màu sắc và khách hàng mục tiêu vào prompt' : 'Chạy "PHÂN TÍCH INSIGHT" trước'}
+                </span>
+              </div>
+              <input
+                type="checkbox"
+                disabled={!batch.insights}
+                checked={!!batch.injectInsight}
+                onChange={e => onChange({ injectInsight: e.target.checked || undefined })}
+                className="w-4 h-4 accent-indigo-600"
+              />
+            </label>
+            {batch.injectInsight && batch.insights && addedLineCount === 0 && (
+              <p className="text-[10px] font-bold text-amber-600">Mode {mode} vẽ lại từ ảnh có sẵn nên không dùng insight.</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <button onClick={() => setShowPreview(v => !v)} className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] hover:text-violet-600">
+              {showPreview ? '▾' : '▸'} Final prompt preview
+              {addedLineCount > 0 && <span className="ml-2 text-emerald-500">+{addedLineCount} dòng từ insight</span>}
+            </button>
+            {showPreview && (
+              <pre className="p-3 bg-slate-900 text-slate-100 rounded-xl text-[10px] leading-relaxed whitespace-pre-wrap break-words max-h-72 overflow-y-auto custom-scrollbar">
+                {finalPrompt.split('\n').map((line, i) => (
+                  line.trim() && !baseLines.has(line)
+                    ? <div key={i} className="bg-emerald-500/20 text-emerald-300">+ {line}</div>
+                    : <div key={i}>{line || ' '}</div>
+                ))}
+              </pre>
+            )}
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex gap-2">
+          <button
+            onClick={onCopyToAll}
+            className="flex-1 py-3 rounded-xl font-black text-[10px] uppercase tracking-wider bg-slate-100 text-slate-600 hover:bg-slate-200 transition-all"
+          >
+            Copy settings to all batches
+          </button>
+          <button
+            onClick={onClose}
+            className="px-6 py-3 rounded-xl font-black text-[10px] uppercase tracking-wider bg-violet-600 text-white hover:bg-violet-700 transition-all"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchSettingsDrawer;
@@ -0,0 +1,78 @@
+import React, { useMemo, useState } from 'react';
+import { CompetitorProduct, ImageFile } from '../types';
+
+interface CompetitorTableProps {
+  competitors: CompetitorProduct[];
+  images: ImageFile[]; // Ảnh input của batch, dùng làm thumbnail khi còn
+  onRemove: (imageUrl: string) => void;
+}
+
+type SortField = 'price' | 'rating' | 'reviewCount';
+
+const SOURCE_BADGES: Record<CompetitorProduct['source'], string> = {
+  amazon: 'bg-orange-50 text-orange-600',
+  etsy: 'bg-orange-50 text-orange-700',
+};
+
+const formatPrice = (product: CompetitorProduct) => {
+  if (product.price === undefined) return '—';
+  return product.currency && product.currency !== 'USD' ? `${product.price.toFixed(2)} ${product.currency}` : `$${product.price.toFixed(2)}`;
+};
+
+// Bảng sản phẩm đối thủ đã crawl: ảnh, tiêu đề (link listing), giá, rating, số review
+const CompetitorTable: React.FC<CompetitorTableProps> = ({ competitors, images, onRemove }) => {
+  const [sortField, setSortField] = useState<SortField>('reviewCount');
+
+  const rows = useMemo(() => [...competitors].sort((a, b) => (b[sortField] ?? -1) - (a[sortField] ?? -1)), [competitors, sortField]);
+  const thumbnailOf = (product: CompetitorProduct) => images.find(img => img.id === product.imageId)?.preview ?? product.image ?? product.imageUrl;
+
+  const header = (field: SortField, label: string) => (
+    <th className="py-2 w-20 text-right">
+      <button onClick={() => setSortField(field)} className={`uppercase ${sortField === field ? 'text-cyan-600' : 'hover:text-slate-600'}`}>
+        {label}{sortField === field ? ' ↓' : ''}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="rounded-[24px] border border-slate-100 overflow-hidden max-h-[360px] overflow-y-auto custom-scrollbar">
+      <table className="w-full text-left">
+        <thead className="bg-slate-50 sticky top-0">
+          <tr className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+            <th className="py-2 pl-4 w-14"></th>
+            <th className="py-2">Sản phẩm</th>
+            {header('price', 'Giá')}
+            {header('rating', 'Rating')}
+            {header('reviewCount', 'Reviews')}
+            <th className="py-2 w-10"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(product => (
+            <tr key={product.imageUrl} className="border-t border-slate-100 group">
+              <td className="py-2 pl-4">
+                <img src={thumbnailOf(product)} alt="" className="w-10 h-10 rounded-lg object-cover bg-slate-100" />
+              </td>
+              <td className="py-2 pr-3">
+                <a href={product.url} target="_blank" rel="noopener noreferrer" className="text-[11px] font-bold text-slate-700 hover:text-cyan-600 line-clamp-2">
+                  {product.title || product.url}
+                </a>
+                <span className={`inline-block mt-1 px-1.5 py-0.5 rounded-md text-[8px] font-black uppercase ${SOURCE_BADGES[product.source]}`}>{product.source}</span>
+              </td>
+              <td className="py-2 text-right text-[11px] font-bold text-slate-600">{formatPrice(product)}</td>
+              <td className="py-2 text-right text-[11px] font-bold text-slate-600">{product.rating !== undefined ? `★ ${product.rating.toFixed(1)}` : '—'}</td>
+              <td className="py-2 text-right text-[11px] font-bold text-slate-600">{product.reviewCount?.toLocaleString() ?? '—'}</td>
+              <td className="py-2 pr-3 text-right">
+                <button onClick={() => onRemove(product.imageUrl)} title="Bỏ khỏi danh sách" className="opacity-0 group-hover:opacity-100 text-slate-300 hover:text-red-500 transition-all">
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default CompetitorTable;
@@ -0,0 +1,106 @@
+import React from 'react';
+import { SchedulerJob, SchedulerConfig, JobStatus } from '../services/generationScheduler';
+
+interface GenerationQueuePanelProps {
+  jobs: SchedulerJob[];
+  config: SchedulerConfig;
+  failedBatchCount: number;
+  onConfigChange: (patch: Partial<SchedulerConfig>) => void;
+  onRetryFailed: () => void;
+  onClearFinished: () => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  pending: 'bg-slate-100 text-slate-500',
+  running: 'bg-violet-100 text-violet-600',
+  retrying: 'bg-amber-100 text-amber-600',
+  failed: 'bg-red-100 text-red-600',
+  cancelled: 'bg-slate-100 text-slate-400',
+  done: 'bg-emerald-100 text-emerald-600',
+};
+
+// Thứ tự hiển thị: job đang chạy lên đầu, job đã xong xuống cuối
+const STATUS_ORDER: JobStatus[] = ['running', 'retrying', 'pending', 'failed', 'cancelled', 'done'];
+
+const GenerationQueuePanel: React.FC<GenerationQueuePanelProps> = ({
+  jobs,
+  config,
+  failedBatchCount,
+  onConfigChange,
+  onRetryFailed,
+  onClearFinished,
+  onClose,
+}) => {
+  const sortedJobs = [...jobs].sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status));
+  const countBy = (status: JobStatus) => jobs.filter(j => j.status === status).length;
+
+  return (
+    <div className="fixed bottom-6 left-24 w-96 max-h-[70vh] bg-white rounded-2xl shadow-2xl border border-slate-200 z-50 flex flex-col animate-in fade-in slide-in-from-bottom-4 duration-200">
+      <div className="flex items-center justify-between p-4 border-b border-slate-100">
+        <div>
+          <h3 className="text-xs font-black text-slate-900 uppercase">Generation Queue</h3>
+          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mt-1">
+            {countBy('running')} running • {countBy('pending') + countBy('retrying')} pending • {countBy('failed')} failed
+          </p>
+        </div>
+        <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded-full">
+          <svg className="w-4 h-4 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+        </button>
+      </div>
+
+      <div className="p-4 grid grid-cols-2 gap-3 border-b border-slate-100">
+        <label className="flex items-center justify-between gap-2 bg-slate-50 px-3 py-2 rounded-xl border border-slate-200">
+          <span className="text-[9px] font-black uppercase text-slate-500">Parallel</span>
+          <select value={config.concurrency} onChange={e => onConfigChange({ concurrency: Number(e.target.value) })} className="bg-transparent text-sm font-black text-violet-600 focus:outline-none">
+            {[1, 2, 3, 4, 6, 8].map(v => <option key={v} value={v}>{v}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-2 bg-slate-50 px-3 py-2 rounded-xl border border-slate-200">
+          <span className="text-[9px] font-black uppercase text-slate-500">Retries</span>
+          <select value={config.maxRetries} onChange={e => onConfigChange({ maxRetries: Number(e.target.value) })} className="bg-transparent text-sm font-black text-violet-600 focus:outline-none">
+            {[0, 1, 2, 3, 5, 8].map(v => <option key={v} value={v}>{v}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-1">
+        {sortedJobs.length === 0 && (
+          <p className="text-center text-[10px] font-bold text-slate-400 uppercase tracking-widest py-8">Queue is empty</p>
+        )}
+        {sortedJobs.map(job => (
+          <div key={job.id} className="flex items-start gap-2 px-3 py-2 rounded-xl hover:bg-slate-50">
+            <span className={`shrink-0 px-2 py-0.5 rounded-md text-[8px] font-black uppercase ${STATUS_STYLES[job.status]}`}>{job.status}</span>
+            <div className="min-w-0 flex-1">
+              <p className="text-[11px] font-bold text-slate-700 truncate">{job.label}</p>
+              {job.attempts > 1 && (
+                <p className="text-[9px] text-slate-400">Attempt {job.attempts}/{config.maxRetries + 1}</p>
+              )}
+              {job.error && job.status !== 'done' && (
+                <p className="text-[9px] text-red-400 truncate" title={job.error}>{job.error}</p>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="p-4 border-t border-slate-100 flex gap-2">
+        <button
+          onClick={onRetryFailed}
+          disabled={failedBatchCount === 0}
+          className="flex-1 py-2.5 rounded-xl font-black text-[10px] uppercase tracking-wider bg-violet-600 text-white hover:bg-violet-700 transition-all disabled:opacity-50"
+        >
+          Retry failed ({failedBatchCount})
+        </button>
+        <button
+          onClick={onClearFinished}
+          className="px-4 py-2.5 rounded-xl font-black text-[10px] uppercase tracking-wider bg-slate-100 text-slate-500 hover:bg-slate-200 transition-all"
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GenerationQueuePanel;
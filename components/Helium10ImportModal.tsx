@@ -0,0 +1,185 @@
+import React, { useMemo, useState } from 'react';
+import { KeywordMetrics } from '../types';
+import {
+  Helium10Filter, Helium10Import, METRIC_LABELS, MetricField,
+  filterHelium10Rows, formatMetric, readHelium10File, sortHelium10Rows,
+} from '../services/helium10Import';
+import { findDuplicateKeyword } from '../services/keywordExpansion';
+
+interface Helium10ImportModalProps {
+  existingKeywords: string[]; // Tên các batch đang có, keyword trùng sẽ cập nhật chỉ số thay vì tạo batch mới
+  onImport: (rows: Array<{ keyword: string; metrics: KeywordMetrics }>) => void;
+  onClose: () => void;
+}
+
+const FIELDS: MetricField[] = ['searchVolume', 'competingProducts', 'searchVolumeTrend', 'cpc'];
+
+const toNumber = (text: string) => (text.trim() === '' ? undefined : Number(text));
+
+// Đọc export Cerebro / Magnet (XLSX hoặc CSV), lọc + sắp xếp theo chỉ số rồi tạo batch từ các keyword đã tick
+const Helium10ImportModal: React.FC<Helium10ImportModalProps> = ({ existingKeywords, onImport, onClose }) => {
+  const [data, setData] = useState<Helium10Import | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [filter, setFilter] = useState<Helium10Filter>({ query: '' });
+  const [sort, setSort] = useState<{ field: MetricField; direction: 'asc' | 'desc' }>({ field: 'searchVolume', direction: 'desc' });
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const visibleRows = useMemo(
+    () => (data ? sortHelium10Rows(filterHelium10Rows(data.rows, filter), sort.field, sort.direction) : []),
+    [data, filter, sort]
+  );
+  const inputClass = 'w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-[11px] font-bold text-slate-700 focus:outline-none focus:ring-2 focus:ring-amber-400';
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsReading(true);
+    try {
+      const result = await readHelium10File(file);
+      if (result.rows.length === 0) throw new Error('File không có dòng keyword nào');
+      setData(result);
+      setSelected(new Set());
+    } catch (err: any) {
+      alert(`Không đọc được file Helium 10: ${err.message}`);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const toggleSort = (field: MetricField) => setSort(prev => ({
+    field,
+    direction: prev.field === field && prev.direction === 'desc' ? 'asc' : 'desc',
+  }));
+
+  const toggle = (keyword: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(keyword)) next.delete(keyword);
+    else next.add(keyword);
+    return next;
+  });
+
+  const allVisibleSelected = visibleRows.length > 0 && visibleRows.every(row => selected.has(row.keyword));
+  const toggleAllVisible = () => setSelected(prev => {
+    const next = new Set(prev);
+    visibleRows.forEach(row => (allVisibleSelected ? next.delete(row.keyword) : next.add(row.keyword)));
+    return next;
+  });
+
+  const handleImport = () => {
+    if (!data) return;
+    onImport(data.rows.filter(row => selected.has(row.keyword)));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl w-full max-w-4xl max-h-[90vh] overflow-hidden shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <div>
+            <h2 className="text-lg font-black text-slate-900 uppercase">Helium 10 Import</h2>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">
+              {data ? `${data.fileName} • ${data.rows.length} keyword` : 'Export XLSX / CSV từ Cerebro hoặc Magnet'}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-all">
+            <svg className="w-6 h-6 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-5">
+          <label className="flex items-center justify-center gap-2 p-4 border-2 border-dashed border-slate-200 rounded-2xl cursor-pointer hover:border-amber-300 hover:bg-amber-50/40 transition-all">
+            {isReading && <div className="w-4 h-4 border-2 border-amber-500 border-t-transparent rounded-full animate-spin" />}
+            <span className="text-[11px] font-black text-slate-500 uppercase">{isReading ? 'Đang đọc file...' : data ? 'Chọn file khác' : 'Chọn file .xlsx / .csv'}</span>
+            <input type="file" accept=".xlsx,.csv,.tsv,.txt" className="hidden" onChange={e => { handleFile(e.target.files?.[0]); e.target.value = ''; }} />
+          </label>
+
+          {data && (
+            <>
+              {data.mappedFields.length < FIELDS.length && (
+                <p className="p-3 rounded-xl bg-amber-50 text-[10px] font-bold text-amber-700">
+                  ⚠ Không tìm thấy cột: {FIELDS.filter(f => !data.mappedFields.includes(f)).map(f => METRIC_LABELS[f]).join(', ')}
+                </p>
+              )}
+
+              <div className="grid grid-cols-5 gap-3">
+                <label className="space-y-1">
+                  <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Tìm keyword</span>
+                  <input value={filter.query} onChange={e => setFilter({ ...filter, query: e.target.value })} className={inputClass} />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">SV tối thiểu</span>
+                  <input type="number" min={0} value={filter.minSearchVolume ?? ''} onChange={e => setFilter({ ...filter, minSearchVolume: toNumber(e.target.value) })} className={inputClass} />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Competing tối đa</span>
+                  <input type="number" min={0} value={filter.maxCompetingProducts ?? ''} onChange={e => setFilter({ ...filter, maxCompetingProducts: toNumber(e.target.value) })} className={inputClass} />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Trend tối thiểu (%)</span>
+                  <input type="number" value={filter.minTrend ?? ''} onChange={e => setFilter({ ...filter, minTrend: toNumber(e.target.value) })} className={inputClass} />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">CPC tối đa ($)</span>
+                  <input type="number" min={0} step={0.01} value={filter.maxCpc ?? ''} onChange={e => setFilter({ ...filter, maxCpc: toNumber(e.target.value) })} className={inputClass} />
+                </label>
+              </div>
+
+              <table className="w-full text-left">
+                <thead>
+                  <tr className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                    <th className="py-2 w-8">
+                      <input type="checkbox" checked={allVisibleSelected} onChange={toggleAllVisible} className="accent-amber-500" />
+                    </th>
+                    <th className="py-2">Keyword</th>
+                    {FIELDS.map(field => (
+                      <th key={field} className="py-2 w-24 text-right">
+                        <button onClick={() => toggleSort(field)} className={`uppercase ${sort.field === field ? 'text-amber-600' : 'hover:text-slate-600'}`}>
+                          {METRIC_LABELS[field]} {sort.field === field ? (sort.direction === 'desc' ? '↓' : '↑') : ''}
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.map(row => {
+                    const duplicateOf = findDuplicateKeyword(row.keyword, existingKeywords);
+                    return (
+                      <tr key={row.keyword} onClick={() => toggle(row.keyword)} className={`border-t border-slate-100 cursor-pointer ${selected.has(row.keyword) ? 'bg-amber-50/60' : 'hover:bg-slate-50'}`}>
+                        <td className="py-2">
+                          <input type="checkbox" checked={selected.has(row.keyword)} readOnly className="accent-amber-500 pointer-events-none" />
+                        </td>
+                        <td className="py-2 pr-3 text-[11px] font-bold text-slate-700">
+                          {row.keyword}
+                          {duplicateOf && (
+                            <span className="ml-2 px-1.5 py-0.5 rounded-md text-[8px] font-black uppercase bg-sky-50 text-sky-600" title={`Sẽ cập nhật chỉ số cho batch "${duplicateOf}"`}>Đã có: {duplicateOf}</span>
+                          )}
+                        </td>
+                        {FIELDS.map(field => (
+                          <td key={field} className={`py-2 text-right text-[11px] font-bold ${field === 'searchVolumeTrend' && (row.metrics[field] ?? 0) < 0 ? 'text-red-500' : 'text-slate-600'}`}>
+                            {formatMetric(field, row.metrics[field])}
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {visibleRows.length === 0 && <p className="text-center text-[11px] font-bold text-slate-400 py-6">Không có keyword nào khớp bộ lọc</p>}
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between p-5 border-t border-slate-100">
+          <span className="text-[10px] font-bold text-slate-400 uppercase">{visibleRows.length} hiển thị • {selected.size} đã chọn</span>
+          <button
+            onClick={handleImport}
+            disabled={selected.size === 0}
+            className="px-6 py-3 rounded-xl font-black text-[10px] uppercase bg-amber-500 text-white hover:bg-amber-600 transition-all disabled:opacity-50"
+          >
+            Import {selected.size} keywords
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Helium10ImportModal;
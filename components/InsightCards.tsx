@@ -0,0 +1,63 @@
+import React from 'react';
+import { CustomerInsight, CustomerPersona } from '../types';
+
+interface InsightCardsProps {
+  insight: CustomerInsight;
+}
+
+const PERSONA_LABELS: Array<[keyof CustomerPersona, string]> = [
+  ['age', 'Độ tuổi'],
+  ['gender', 'Giới tính'],
+  ['education', 'Trình độ giáo dục'],
+  ['occupation', 'Nghề nghiệp'],
+  ['income', 'Mức thu nhập'],
+  ['region', 'Khu vực sống'],
+  ['familyPets', 'Gia đình / Thú nuôi'],
+  ['ethnicityReligion', 'Chủng tộc / Tôn giáo'],
+];
+
+const ListCard: React.FC<{ title: string; items: string[] }> = ({ title, items }) => (
+  <div className="p-4 bg-white rounded-2xl border border-slate-100">
+    <h4 className="text-[11px] font-black text-slate-900 uppercase tracking-tight mb-3">{title}</h4>
+    {items.length === 0 ? (
+      <p className="text-[11px] text-slate-400">Không có dữ liệu</p>
+    ) : (
+      <ul className="space-y-1.5">
+        {items.map((item, i) => (
+          <li key={i} className="text-[12px] text-slate-700 leading-relaxed flex gap-2">
+            <span className="text-violet-400">-</span>
+            <span>{item}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const InsightCards: React.FC<InsightCardsProps> = ({ insight }) => (
+  <div className="space-y-4">
+    <div className="text-lg font-black text-violet-600">Keyword sản phẩm: {insight.keyword}</div>
+    <div className="grid grid-cols-2 gap-4">
+      <ListCard title="🖌 Phần thiết kế" items={insight.designElements} />
+      <ListCard title="💡 Lý do mua hàng" items={insight.purchaseMotivations} />
+    </div>
+    <div className="p-4 bg-white rounded-2xl border border-slate-100">
+      <h4 className="text-[11px] font-black text-slate-900 uppercase tracking-tight mb-3">🧍 Chân dung khách hàng</h4>
+      <div className="grid grid-cols-2 gap-x-6 gap-y-2">
+        {PERSONA_LABELS.map(([field, label]) => (
+          <div key={field} className="flex flex-col">
+            <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{label}</span>
+            <span className="text-[12px] font-medium text-slate-700">{insight.persona[field] || '—'}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+    {insight.conclusion && (
+      <div className="p-4 bg-violet-50 rounded-xl border border-violet-100 text-violet-900 font-bold italic text-sm">
+        Kết luận: {insight.conclusion}
+      </div>
+    )}
+  </div>
+);
+
+export default InsightCards;
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import {
+  IpSeverity,
+  listBlocklist,
+  setBlocklistEntry,
+  removeBlocklistEntry,
+  resetBlocklist,
+  subscribeToBlocklist,
+} from '../services/ipScreening';
+
+interface IpBlocklistModalProps {
+  visionCheck: boolean;
+  onVisionCheckChange: (value: boolean) => void;
+  onClose: () => void;
+}
+
+// Sửa blocklist trademark (lưu trong trình duyệt) dùng để sàng lọc keyword trước khi export
+const IpBlocklistModal: React.FC<IpBlocklistModalProps> = ({ visionCheck, onVisionCheckChange, onClose }) => {
+  const [, setRevision] = useState(0);
+  const [term, setTerm] = useState('');
+  const [severity, setSeverity] = useState<IpSeverity>('block');
+  const [filter, setFilter] = useState('');
+
+  useEffect(() => subscribeToBlocklist(() => setRevision(r => r + 1)), []);
+
+  const entries = listBlocklist().filter(e => e.term.toLowerCase().includes(filter.trim().toLowerCase()));
+
+  const handleAdd = () => {
+    if (!term.trim()) return;
+    setBlocklistEntry(term, severity);
+    setTerm('');
+  };
+
+  const handleReset = () => {
+    if (!confirm('Khôi phục blocklist mặc định? Các term đã thêm sẽ bị xóa.')) return;
+    resetBlocklist();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl w-full max-w-2xl h-[80vh] overflow-hidden shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <div>
+            <h2 className="text-lg font-black text-slate-900 uppercase">IP Blocklist</h2>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">Thương hiệu / nhân vật cần chặn hoặc cảnh báo trong keyword trước khi export</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-all">
+            <svg className="w-6 h-6 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="p-5 space-y-3 border-b border-slate-100">
+          <label className="flex items-center gap-2 text-[11px] font-bold text-slate-600 cursor-pointer">
+            <input type="checkbox" checked={visionCheck} onChange={e => onVisionCheckChange(e.target.checked)} className="accent-violet-600" />
+            Dùng AI soi logo / nhân vật trong output trước khi export (thêm 1 request mỗi ảnh chưa soi)
+          </label>
+          <div className="flex gap-2">
+            <input
+              value={term}
+              onChange={e => setTerm(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && handleAdd()}
+              placeholder="Thêm term, vd. Garfield"
+              className="flex-1 px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-bold text-slate-900 focus:outline-none focus:ring-2 focus:ring-violet-500"
+            />
+            <select
+              value={severity}
+              onChange={e => setSeverity(e.target.value as IpSeverity)}
+              className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-[10px] font-black uppercase text-slate-600 outline-none"
+            >
+              <option value="block">Block</option>
+              <option value="warn">Warn</option>
+            </select>
+            <button onClick={handleAdd} disabled={!term.trim()} className="px-4 py-2 rounded-xl font-black text-[10px] uppercase bg-violet-600 text-white hover:bg-violet-700 transition-all disabled:opacity-50">Add</button>
+          </div>
+          <input
+            value={filter}
+            onChange={e => setFilter(e.target.value)}
+            placeholder="Lọc..."
+            className="w-full px-3 py-2 bg-white border border-slate-200 rounded-xl text-[11px] font-bold text-slate-600 focus:outline-none focus:ring-2 focus:ring-violet-500"
+          />
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-5">
+          <div className="flex flex-wrap gap-2">
+            {entries.map(entry => (
+              <span
+                key={entry.term}
+                className={`flex items-center gap-1.5 pl-3 pr-1 py-1 rounded-full text-[11px] font-bold border ${entry.severity === 'block' ? 'bg-red-50 text-red-600 border-red-100' : 'bg-amber-50 text-amber-600 border-amber-100'}`}
+              >
+                <button
+                  onClick={() => setBlocklistEntry(entry.term, entry.severity === 'block' ? 'warn' : 'block')}
+                  title="Đổi Block / Warn"
+                  className="text-[8px] font-black uppercase opacity-60 hover:opacity-100"
+                >
+                  {entry.severity}
+                </button>
+                {entry.term}
+                <button onClick={() => removeBlocklistEntry(entry.term)} className="p-1 rounded-full hover:bg-white/70">
+                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12"/></svg>
+                </button>
+              </span>
+            ))}
+            {entries.length === 0 && <p className="text-[11px] text-slate-400">Không có term nào.</p>}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between p-5 border-t border-slate-100">
+          <span className="text-[10px] font-bold text-slate-400 uppercase">{listBlocklist().length} terms</span>
+          <button onClick={handleReset} className="px-4 py-2.5 rounded-xl font-black text-[10px] uppercase tracking-wider bg-slate-100 text-slate-600 hover:bg-slate-200 transition-all">Reset to default</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IpBlocklistModal;
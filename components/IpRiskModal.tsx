@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { BatchItem } from '../types';
+
+interface IpRiskModalProps {
+  actionLabel: string; // Thao tác export đang chờ, vd. "Download ZIP"
+  batches: BatchItem[]; // Các batch có rủi ro chưa được xác nhận
+  onAcknowledge: () => void;
+  onEditBlocklist: () => void;
+  onClose: () => void;
+}
+
+// Chặn export khi keyword / output có dấu hiệu trademark: cảnh báo thì chỉ cần bấm tiếp, chặn thì phải tick xác nhận
+const IpRiskModal: React.FC<IpRiskModalProps> = ({ actionLabel, batches, onAcknowledge, onEditBlocklist, onClose }) => {
+  const [accepted, setAccepted] = useState(false);
+  const hasBlocking = batches.some(b => b.ipScreening?.findings.some(f => f.severity === 'block'));
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-slate-900/90 backdrop-blur-md animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-white rounded-3xl w-full max-w-xl max-h-[85vh] overflow-hidden shadow-2xl flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-slate-100">
+          <h2 className={`text-lg font-black uppercase ${hasBlocking ? 'text-red-600' : 'text-amber-600'}`}>
+            {hasBlocking ? '⛔ Rủi ro trademark / bản quyền' : '⚠ Cảnh báo trademark'}
+          </h2>
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">Kiểm tra trước khi {actionLabel}</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-4">
+          {batches.map(batch => (
+            <div key={batch.id} className="space-y-1.5">
+              <p className="text-[11px] font-black text-slate-900 uppercase">{batch.name}</p>
+              {batch.ipScreening!.findings.map((finding, i) => (
+                <div
+                  key={i}
+                  className={`flex items-center gap-2 px-3 py-2 rounded-xl text-[11px] ${finding.severity === 'block' ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-700'}`}
+                >
+                  <span className="text-[8px] font-black uppercase px-1.5 py-0.5 rounded-md bg-white/70">{finding.source === 'vision' ? 'AI' : 'Keyword'}</span>
+                  <span className="font-black">{finding.term}</span>
+                  <span className="opacity-70 truncate">{finding.detail}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 space-y-4">
+          {hasBlocking && (
+            <label className="flex items-start gap-2 text-[11px] font-bold text-slate-600 cursor-pointer">
+              <input type="checkbox" checked={accepted} onChange={e => setAccepted(e.target.checked)} className="accent-red-600 mt-0.5" />
+              Tôi đã kiểm tra và chịu trách nhiệm về rủi ro vi phạm trademark / bản quyền của các thiết kế này
+            </label>
+          )}
+          <div className="flex items-center justify-between gap-2">
+            <button onClick={onEditBlocklist} className="px-4 py-2.5 rounded-xl font-black text-[10px] uppercase bg-slate-100 text-slate-600 hover:bg-slate-200 transition-all">Edit blocklist</button>
+            <div className="flex gap-2">
+              <button onClick={onClose} className="px-4 py-2.5 rounded-xl font-black text-[10px] uppercase bg-slate-100 text-slate-600 hover:bg-slate-200 transition-all">Cancel</button>
+              <button
+                onClick={onAcknowledge}
+                disabled={hasBlocking && !accepted}
+                className={`px-5 py-2.5 rounded-xl font-black text-[10px] uppercase text-white transition-all disabled:opacity-50 ${hasBlocking ? 'bg-red-600 hover:bg-red-700' : 'bg-amber-500 hover:bg-amber-600'}`}
+              >
+                Acknowledge & {actionLabel}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IpRiskModal;
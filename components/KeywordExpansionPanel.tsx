@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { KeywordProposal } from '../types';
+import { expandNicheKeywords } from '../services/geminiService';
+import { ExpandedKeyword, markDuplicateProposals } from '../services/keywordExpansion';
+
+interface KeywordExpansionPanelProps {
+  existingKeywords: string[]; // Tên các batch đang có, dùng để kiểm tra trùng
+  onAdd: (keywords: string[]) => void;
+}
+
+const KIND_LABELS: Record<KeywordProposal['kind'], { label: string; className: string }> = {
+  subNiche: { label: 'Sub-niche', className: 'bg-violet-50 text-violet-600' },
+  audience: { label: 'Audience', className: 'bg-sky-50 text-sky-600' },
+  occasion: { label: 'Occasion', className: 'bg-rose-50 text-rose-600' },
+};
+
+// Mở rộng một niche gốc bằng AI, tick các đề xuất muốn tạo batch
+const KeywordExpansionPanel: React.FC<KeywordExpansionPanelProps> = ({ existingKeywords, onAdd }) => {
+  const [seed, setSeed] = useState('');
+  const [proposals, setProposals] = useState<ExpandedKeyword[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isExpanding, setIsExpanding] = useState(false);
+
+  const handleExpand = async () => {
+    if (!seed.trim()) return;
+    setIsExpanding(true);
+    try {
+      const result = markDuplicateProposals(await expandNicheKeywords(seed.trim(), existingKeywords), existingKeywords);
+      setProposals(result);
+      // Mặc định tick các đề xuất không trùng
+      setSelected(new Set(result.filter(p => !p.duplicateOf).map(p => p.keyword)));
+    } catch (err: any) {
+      alert(err.message);
+    } finally {
+      setIsExpanding(false);
+    }
+  };
+
+  const toggle = (keyword: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(keyword)) next.delete(keyword);
+    else next.add(keyword);
+    return next;
+  });
+
+  const handleAdd = () => {
+    onAdd(proposals.filter(p => selected.has(p.keyword)).map(p => p.keyword));
+    setProposals([]);
+    setSelected(new Set());
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <input
+          value={seed}
+          onChange={e => setSeed(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleExpand()}
+          placeholder="Niche gốc, vd. cat lover"
+          className="flex-1 px-4 py-2 border-2 border-slate-200 rounded-xl text-sm font-medium text-slate-700 placeholder:text-slate-400 focus:outline-none focus:border-yellow-400 focus:ring-4 focus:ring-yellow-100"
+        />
+        <button
+          onClick={handleExpand}
+          disabled={isExpanding || !seed.trim()}
+          className="px-4 py-2 bg-slate-900 text-white rounded-xl font-bold text-sm hover:bg-violet-600 transition-all disabled:opacity-50 flex items-center gap-2"
+        >
+          {isExpanding && <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />}
+          {isExpanding ? 'Expanding...' : 'Expand'}
+        </button>
+      </div>
+
+      {proposals.length > 0 && (
+        <>
+          <div className="max-h-72 overflow-y-auto custom-scrollbar space-y-1.5 pr-1">
+            {proposals.map(proposal => (
+              <label
+                key={proposal.keyword}
+                className={`flex items-start gap-3 p-3 rounded-xl border cursor-pointer transition-all ${selected.has(proposal.keyword) ? 'border-yellow-300 bg-yellow-50/50' : 'border-slate-100 hover:bg-slate-50'}`}
+              >
+                <input type="checkbox" checked={selected.has(proposal.keyword)} onChange={() => toggle(proposal.keyword)} className="mt-1 accent-yellow-500" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="text-sm font-bold text-slate-800">{proposal.keyword}</span>
+                    <span className={`px-1.5 py-0.5 rounded-md text-[8px] font-black uppercase ${KIND_LABELS[proposal.kind].className}`}>{KIND_LABELS[proposal.kind].label}</span>
+                    {proposal.duplicateOf && (
+                      <span className="px-1.5 py-0.5 rounded-md text-[8px] font-black uppercase bg-red-50 text-red-500" title={`Trùng với "${proposal.duplicateOf}"`}>Trùng: {proposal.duplicateOf}</span>
+                    )}
+                  </div>
+                  {proposal.rationale && <p className="text-xs text-slate-500 mt-0.5 leading-snug">{proposal.rationale}</p>}
+                </div>
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-slate-500">{selected.size}/{proposals.length} đã chọn</span>
+            <button
+              onClick={handleAdd}
+              disabled={selected.size === 0}
+              className="px-4 py-2 bg-yellow-500 text-white rounded-xl font-bold text-sm hover:bg-yellow-600 transition-all disabled:opacity-50"
+            >
+              Create {selected.size} batches
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default KeywordExpansionPanel;
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { ListingCopy } from '../types';
+import { BatchResult, RESULT_MODES } from '../services/batchResults';
+import { LISTING_LIMITS, getListingIssues, normalizeEtsyTags } from '../services/listingCopy';
+
+interface ListingEditorProps {
+  listing?: ListingCopy;
+  results: BatchResult[];
+  defaultKey?: string; // Ảnh chọn sẵn khi listing chưa có ảnh nguồn (hero của batch)
+  isGenerating?: boolean;
+  onGenerate: (sourceKey: string) => void;
+  onChange: (listing: ListingCopy) => void;
+}
+
+const Counter: React.FC<{ value: string; max: number; min?: number }> = ({ value, max, min }) => {
+  const invalid = value.length > max || (!!min && value.trim().length < min);
+  return <span className={`text-[9px] font-black ${invalid ? 'text-red-500' : 'text-slate-300'}`}>{value.length}/{max}</span>;
+};
+
+const Field: React.FC<{ label: string; value: string; max: number; min?: number; rows?: number; onChange: (value: string) => void }> = ({ label, value, max, min, rows, onChange }) => (
+  <div className="space-y-1">
+    <div className="flex items-center justify-between">
+      <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{label}</span>
+      <Counter value={value} max={max} min={min} />
+    </div>
+    {rows ? (
+      <textarea
+        value={value}
+        rows={rows}
+        onChange={e => onChange(e.target.value)}
+        className="w-full px-3 py-2 bg-white border border-slate-200 rounded-xl text-[12px] text-slate-700 leading-relaxed focus:outline-none focus:ring-2 focus:ring-violet-500 resize-y custom-scrollbar"
+      />
+    ) : (
+      <input
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        className="w-full px-3 py-2 bg-white border border-slate-200 rounded-xl text-[12px] font-bold text-slate-700 focus:outline-none focus:ring-2 focus:ring-violet-500"
+      />
+    )}
+  </div>
+);
+
+// Listing Amazon Merch / Etsy của batch: chọn ảnh thiết kế để AI viết, sau đó sửa tay với bộ đếm giới hạn ký tự
+const ListingEditor: React.FC<ListingEditorProps> = ({ listing, results, defaultKey, isGenerating, onGenerate, onChange }) => {
+  const [tab, setTab] = useState<'amazon' | 'etsy'>('amazon');
+  const [sourceKey, setSourceKey] = useState(listing?.sourceKey || '');
+  const [tagDraft, setTagDraft] = useState('');
+  const { amazon, etsy } = LISTING_LIMITS;
+  const isAvailable = (key?: string) => results.some(r => r.key === key);
+  const selectedKey = isAvailable(sourceKey) ? sourceKey : isAvailable(defaultKey) ? defaultKey : results[0]?.key;
+  const issues = listing ? getListingIssues(listing) : [];
+
+  const setAmazon = (patch: Partial<ListingCopy['amazon']>) => listing && onChange({ ...listing, amazon: { ...listing.amazon, ...patch } });
+  const setEtsy = (patch: Partial<ListingCopy['etsy']>) => listing && onChange({ ...listing, etsy: { ...listing.etsy, ...patch } });
+
+  const handleAddTags = () => {
+    if (!listing || !tagDraft.trim()) return;
+    setEtsy({ tags: normalizeEtsyTags([...listing.etsy.tags, ...tagDraft.split(',')]) });
+    setTagDraft('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <select
+          value={selectedKey}
+          onChange={e => setSourceKey(e.target.value)}
+          title="Ảnh thiết kế dùng để viết listing"
+          className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-[10px] font-black uppercase text-slate-600 outline-none"
+        >
+          {results.map(r => (
+            <option key={r.key} value={r.key}>{RESULT_MODES.find(m => m.mode === r.mode)!.label} {r.index + 1}</option>
+          ))}
+        </select>
+        {selectedKey && <img src={results.find(r => r.key === selectedKey)!.image} className="w-12 h-8 object-cover rounded-lg border border-slate-200" />}
+        <button
+          onClick={() => selectedKey && onGenerate(selectedKey)}
+          disabled={isGenerating || !selectedKey}
+          className="ml-auto px-4 py-2 rounded-xl text-[10px] font-black uppercase bg-indigo-600 text-white hover:bg-indigo-700 transition-all disabled:opacity-50"
+        >
+          {isGenerating ? 'Writing...' : listing ? 'Rewrite listing' : 'Write listing'}
+        </button>
+      </div>
+
+      {listing && (
+        <div className="p-4 rounded-[24px] border border-slate-100 bg-slate-50/50 space-y-3">
+          <div className="flex gap-2">
+            {(['amazon', 'etsy'] as const).map(t => (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase transition-all ${tab === t ? 'bg-slate-900 text-white' : 'bg-white text-slate-500 border border-slate-200 hover:bg-slate-100'}`}
+              >
+                {t === 'amazon' ? 'Amazon Merch' : 'Etsy'}
+              </button>
+            ))}
+          </div>
+
+          {tab === 'amazon' ? (
+            <>
+              <Field label="Brand" value={listing.amazon.brand} min={amazon.brand.min} max={amazon.brand.max} onChange={brand => setAmazon({ brand })} />
+              <Field label="Title" value={listing.amazon.title} min={amazon.title.min} max={amazon.title.max} onChange={title => setAmazon({ title })} />
+              {Array.from({ length: amazon.bullets.count }, (_, i) => (
+                <Field
+                  key={i}
+                  label={`Bullet ${i + 1}`}
+                  rows={2}
+                  value={listing.amazon.bullets[i] || ''}
+                  max={amazon.bullets.max}
+                  onChange={value => setAmazon({ bullets: Array.from({ length: amazon.bullets.count }, (_, j) => j === i ? value : listing.amazon.bullets[j] || '') })}
+                />
+              ))}
+              <Field label="Description" rows={4} value={listing.amazon.description} min={amazon.description.min} max={amazon.description.max} onChange={description => setAmazon({ description })} />
+            </>
+          ) : (
+            <>
+              <Field label="Title" value={listing.etsy.title} max={etsy.title.max} onChange={title => setEtsy({ title })} />
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Tags</span>
+                  <span className={`text-[9px] font-black ${listing.etsy.tags.length > etsy.tags.count ? 'text-red-500' : 'text-slate-300'}`}>{listing.etsy.tags.length}/{etsy.tags.count}</span>
+                </div>
+                <div className="flex flex-wrap gap-1.5">
+                  {listing.etsy.tags.map(tag => (
+                    <span key={tag} className="flex items-center gap-1 pl-2.5 pr-1 py-1 rounded-full bg-white border border-slate-200 text-[11px] font-bold text-slate-600">
+                      {tag}
+                      <button onClick={() => setEtsy({ tags: listing.etsy.tags.filter(t => t !== tag) })} className="p-0.5 rounded-full hover:bg-slate-100">
+                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12"/></svg>
+                      </button>
+                    </span>
+                  ))}
+                </div>
+                {listing.etsy.tags.length < etsy.tags.count && (
+                  <input
+                    value={tagDraft}
+                    onChange={e => setTagDraft(e.target.value)}
+                    onKeyDown={e => e.key === 'Enter' && handleAddTags()}
+                    onBlur={handleAddTags}
+                    placeholder={`Thêm tag (≤ ${etsy.tags.max} ký tự, cách nhau bằng dấu phẩy)`}
+                    className="w-full px-3 py-2 bg-white border border-slate-200 rounded-xl text-[11px] font-bold text-slate-600 focus:outline-none focus:ring-2 focus:ring-violet-500"
+                  />
+                )}
+              </div>
+              <Field label="Description" rows={5} value={listing.etsy.description} max={etsy.description.max} onChange={description => setEtsy({ description })} />
+            </>
+          )}
+
+          {issues.length > 0 && (
+            <ul className="p-3 rounded-xl bg-red-50 text-[10px] font-bold text-red-600 space-y-0.5">
+              {issues.map(issue => <li key={issue}>⚠ {issue}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ListingEditor;
@@ -0,0 +1,150 @@
+import React, { useMemo, useState } from 'react';
+import { BatchItem } from '../types';
+import { MARKETPLACE_PROFILES, MarketplaceDefaults, MarketplaceProfileId, buildMarketplaceExport } from '../services/marketplaceExport';
+
+interface MarketplaceExportModalProps {
+  batches: BatchItem[]; // Các batch đã có kết quả
+  defaults: MarketplaceDefaults;
+  isExporting?: boolean;
+  onDefaultsChange: (defaults: MarketplaceDefaults) => void;
+  onBatchChange: (batchId: string, patch: Pick<BatchItem, 'price' | 'variantColors'>) => void;
+  onExport: (profileId: MarketplaceProfileId) => void;
+  onClose: () => void;
+}
+
+const parseColors = (text: string) => text.split(',').map(c => c.trim()).filter(Boolean);
+
+// Chọn profile bulk-upload (Etsy / Shopify / Amazon), giá và màu variant từng batch; lỗi cột bắt buộc hiện ngay trước khi xuất
+const MarketplaceExportModal: React.FC<MarketplaceExportModalProps> = ({ batches, defaults, isExporting, onDefaultsChange, onBatchChange, onExport, onClose }) => {
+  const [profileId, setProfileId] = useState<MarketplaceProfileId>('etsy');
+  const check = useMemo(() => buildMarketplaceExport(profileId, batches, defaults), [profileId, batches, defaults]);
+  const inputClass = 'w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-[11px] font-bold text-slate-700 focus:outline-none focus:ring-2 focus:ring-violet-500';
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl w-full max-w-4xl max-h-[90vh] overflow-hidden shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <div>
+            <h2 className="text-lg font-black text-slate-900 uppercase">Marketplace Export</h2>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">File bulk-upload + ảnh đặt tên theo quy tắc của từng sàn</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-all">
+            <svg className="w-6 h-6 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-6">
+          <div className="grid grid-cols-3 gap-3">
+            {MARKETPLACE_PROFILES.map(profile => (
+              <button
+                key={profile.id}
+                onClick={() => setProfileId(profile.id)}
+                className={`text-left p-4 rounded-2xl border-2 transition-all ${profileId === profile.id ? 'border-violet-500 bg-violet-50' : 'border-slate-100 hover:border-slate-200'}`}
+              >
+                <p className="text-[11px] font-black text-slate-900 uppercase">{profile.label}</p>
+                <p className="text-[10px] text-slate-500 mt-1 leading-snug">{profile.description}</p>
+                <p className="text-[9px] font-bold text-slate-400 mt-2">{profile.fileName}</p>
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <label className="space-y-1">
+              <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Giá mặc định</span>
+              <input type="number" min={0} step={0.01} value={defaults.price} onChange={e => onDefaultsChange({ ...defaults, price: Number(e.target.value) })} className={inputClass} />
+            </label>
+            <label className="space-y-1">
+              <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Tiền tệ</span>
+              <input value={defaults.currency} onChange={e => onDefaultsChange({ ...defaults, currency: e.target.value.toUpperCase() })} className={inputClass} />
+            </label>
+            <label className="space-y-1">
+              <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Số lượng</span>
+              <input type="number" min={0} value={defaults.quantity} onChange={e => onDefaultsChange({ ...defaults, quantity: Number(e.target.value) })} className={inputClass} />
+            </label>
+            <label className="space-y-1">
+              <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Màu mặc định</span>
+              <input defaultValue={defaults.colors.join(', ')} onBlur={e => onDefaultsChange({ ...defaults, colors: parseColors(e.target.value) })} placeholder="Black, White, Navy" className={inputClass} />
+            </label>
+            <label className="space-y-1">
+              <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Shop / Vendor</span>
+              <input value={defaults.vendor} onChange={e => onDefaultsChange({ ...defaults, vendor: e.target.value })} placeholder="Dùng khi listing chưa có brand" className={inputClass} />
+            </label>
+            <label className="space-y-1">
+              <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Image base URL</span>
+              <input value={defaults.imageBaseUrl} onChange={e => onDefaultsChange({ ...defaults, imageBaseUrl: e.target.value })} placeholder="https://cdn.example.com/pod" className={inputClass} />
+            </label>
+          </div>
+
+          <table className="w-full text-left">
+            <thead>
+              <tr className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                <th className="py-2">Batch</th>
+                <th className="py-2 w-24">Listing</th>
+                <th className="py-2 w-32">Giá</th>
+                <th className="py-2 w-64">Màu variant</th>
+              </tr>
+            </thead>
+            <tbody>
+              {batches.map(batch => (
+                <tr key={batch.id} className="border-t border-slate-100">
+                  <td className="py-2 pr-3 text-[11px] font-black text-slate-700">{batch.name}</td>
+                  <td className={`py-2 text-[10px] font-black uppercase ${batch.listing ? 'text-emerald-600' : 'text-amber-500'}`}>{batch.listing ? '✓' : 'Chưa có'}</td>
+                  <td className="py-2 pr-3">
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={batch.price ?? ''}
+                      placeholder={String(defaults.price)}
+                      onChange={e => onBatchChange(batch.id, { price: e.target.value === '' ? undefined : Number(e.target.value) })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="py-2">
+                    <input
+                      defaultValue={batch.variantColors?.join(', ') ?? ''}
+                      placeholder={defaults.colors.join(', ')}
+                      onBlur={e => {
+                        const colors = parseColors(e.target.value);
+                        onBatchChange(batch.id, { variantColors: colors.length ? colors : undefined });
+                      }}
+                      className={inputClass}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {(check.errors.length > 0 || check.warnings.length > 0) && (
+            <div className="space-y-2">
+              {check.errors.length > 0 && (
+                <ul className="p-3 rounded-xl bg-red-50 text-[10px] font-bold text-red-600 space-y-0.5">
+                  {check.errors.map(error => <li key={error}>✗ {error}</li>)}
+                </ul>
+              )}
+              {check.warnings.length > 0 && (
+                <ul className="p-3 rounded-xl bg-amber-50 text-[10px] font-bold text-amber-700 space-y-0.5">
+                  {check.warnings.map(warning => <li key={warning}>⚠ {warning}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between p-5 border-t border-slate-100">
+          <span className="text-[10px] font-bold text-slate-400 uppercase">{batches.length} batch • {check.files.length - 1} ảnh</span>
+          <button
+            onClick={() => onExport(profileId)}
+            disabled={isExporting || batches.length === 0 || check.errors.length > 0}
+            className="px-6 py-3 rounded-xl font-black text-[10px] uppercase bg-emerald-600 text-white hover:bg-emerald-700 transition-all disabled:opacity-50"
+          >
+            {isExporting ? 'Exporting...' : `Export ${MARKETPLACE_PROFILES.find(p => p.id === profileId)!.label}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MarketplaceExportModal;
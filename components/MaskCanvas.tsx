@@ -0,0 +1,168 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+export type MaskTool = 'brush' | 'lasso' | 'erase';
+
+interface MaskCanvasProps {
+  width: number; // Kích thước thật của ảnh - mask xuất ra cùng kích thước
+  height: number;
+  tool: MaskTool;
+  brushSize: number;
+  onChange: (mask: string | null) => void;
+}
+
+// Lớp phủ trong suốt đặt chồng lên ảnh để tô vùng cần chỉnh sửa.
+// Mask xuất ra là PNG: pixel có alpha > 0 là vùng được tô.
+const MaskCanvas: React.FC<MaskCanvasProps> = ({ width, height, tool, brushSize, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [lassoPoints, setLassoPoints] = useState<Array<{ x: number; y: number }>>([]);
+
+  // Đổi kích thước canvas sẽ xóa nội dung, nên mask cũ không còn hợp lệ
+  useEffect(() => {
+    onChange(null);
+  }, [width, height]);
+
+  // Đổi tọa độ chuột (theo kích thước hiển thị) sang tọa độ pixel của ảnh
+  const toImagePoint = (e: React.PointerEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * width,
+      y: ((e.clientY - rect.top) / rect.height) * height,
+    };
+  };
+
+  // Bút vẽ tính theo pixel hiển thị để cảm giác giống nhau ở mọi độ phân giải
+  const displayScale = () => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return rect.width > 0 ? width / rect.width : 1;
+  };
+
+  const emitMask = () => {
+    const canvas = canvasRef.current!;
+    const { data } = canvas.getContext('2d')!.getImageData(0, 0, width, height);
+    let hasMask = false;
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] > 0) { hasMask = true; break; }
+    }
+    onChange(hasMask ? canvas.toDataURL('image/png') : null);
+  };
+
+  const strokeTo = (point: { x: number; y: number }) => {
+    const ctx = canvasRef.current!.getContext('2d')!;
+    const from = lastPointRef.current || point;
+    ctx.globalCompositeOperation = tool === 'erase' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = '#ef4444';
+    ctx.lineWidth = brushSize * displayScale();
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPointRef.current = point;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const point = toImagePoint(e);
+    if (tool === 'lasso') {
+      setLassoPoints([point]);
+    } else {
+      lastPointRef.current = null;
+      strokeTo(point);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drawingRef.current) return;
+    const point = toImagePoint(e);
+    if (tool === 'lasso') {
+      setLassoPoints(p => [...p, point]);
+    } else {
+      strokeTo(point);
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    lastPointRef.current = null;
+    if (tool === 'lasso' && lassoPoints.length > 2) {
+      const ctx = canvasRef.current!.getContext('2d')!;
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.fillStyle = '#ef4444';
+      ctx.beginPath();
+      lassoPoints.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+      ctx.closePath();
+      ctx.fill();
+    }
+    setLassoPoints([]);
+    emitMask();
+  };
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+      />
+      {lassoPoints.length > 1 && (
+        <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+          <polyline
+            points={lassoPoints.map(p => `${p.x},${p.y}`).join(' ')}
+            fill="rgba(239,68,68,0.2)"
+            stroke="#ef4444"
+            strokeWidth={2 * (width / 1000)}
+            strokeDasharray={`${8 * (width / 1000)}`}
+          />
+        </svg>
+      )}
+    </>
+  );
+};
+
+export const MaskToolbar: React.FC<{
+  tool: MaskTool;
+  brushSize: number;
+  hasMask: boolean;
+  onToolChange: (tool: MaskTool) => void;
+  onBrushSizeChange: (size: number) => void;
+  onClear: () => void;
+}> = ({ tool, brushSize, hasMask, onToolChange, onBrushSizeChange, onClear }) => (
+  <div className="space-y-2">
+    <div className="flex gap-1">
+      {(['brush', 'lasso', 'erase'] as MaskTool[]).map(t => (
+        <button
+          key={t}
+          onClick={() => onToolChange(t)}
+          className={`flex-1 py-2 rounded-lg text-[9px] font-black uppercase transition-all ${tool === t ? 'bg-red-500 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+        >
+          {t}
+        </button>
+      ))}
+      <button
+        onClick={onClear}
+        disabled={!hasMask}
+        className="px-3 py-2 rounded-lg text-[9px] font-black uppercase bg-slate-100 text-slate-500 hover:bg-slate-200 disabled:opacity-50"
+      >
+        Clear
+      </button>
+    </div>
+    {tool !== 'lasso' && (
+      <div className="flex items-center gap-2">
+        <span className="text-[9px] font-bold text-slate-500 uppercase w-10">Size</span>
+        <input type="range" min="4" max="80" value={brushSize} onChange={e => onBrushSizeChange(parseInt(e.target.value))} className="flex-1 accent-red-500 h-1 bg-slate-200 rounded-full appearance-none" />
+        <span className="text-[9px] font-bold text-slate-500 w-6 text-right">{brushSize}</span>
+      </div>
+    )}
+  </div>
+);
+
+export default MaskCanvas;
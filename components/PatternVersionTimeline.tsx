@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { EditSession, EditTurn, EditTurnKind } from '../types';
+import { getTurnTree } from '../services/editSession';
+
+interface PatternVersionTimelineProps {
+  sessions: EditSession[];
+  activeSessionId: string | null;
+  disabled?: boolean;
+  onRestore: (sessionId: string, turnId: string) => void;
+  onClose: () => void;
+}
+
+const KIND_STYLES: Record<EditTurnKind, string> = {
+  original: 'bg-slate-100 text-slate-500',
+  clone: 'bg-cyan-100 text-cyan-600',
+  redesign: 'bg-indigo-100 text-indigo-600',
+  creative: 'bg-violet-100 text-violet-600',
+  masked: 'bg-red-100 text-red-500',
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const VersionMeta: React.FC<{ turn: EditTurn }> = ({ turn }) => (
+  <div className="flex items-center gap-2 min-w-0">
+    <span className={`shrink-0 px-1.5 py-0.5 rounded-md text-[8px] font-black uppercase ${KIND_STYLES[turn.kind]}`}>{turn.kind}</span>
+    <span className="text-[9px] font-bold text-slate-400 shrink-0">{formatTime(turn.createdAt)}</span>
+    <span className="text-[10px] text-slate-600 truncate" title={turn.prompt}>{turn.prompt || '—'}</span>
+  </div>
+);
+
+const PatternVersionTimeline: React.FC<PatternVersionTimelineProps> = ({
+  sessions,
+  activeSessionId,
+  disabled,
+  onRestore,
+  onClose,
+}) => {
+  // Chọn tối đa 2 version để so sánh cạnh nhau
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [showCompare, setShowCompare] = useState(false);
+
+  const allTurns = sessions.flatMap(s => s.turns);
+  const compareTurns = compareIds.map(id => allTurns.find(t => t.id === id)).filter(Boolean) as EditTurn[];
+
+  const toggleCompare = (turnId: string) => {
+    setCompareIds(p => p.includes(turnId) ? p.filter(id => id !== turnId) : [...p, turnId].slice(-2));
+  };
+
+  // Cây mới nhất lên đầu
+  const orderedSessions = [...sessions].sort((a, b) => b.createdAt - a.createdAt);
+
+  return (
+    <div className="w-64 shrink-0 flex flex-col bg-slate-50 rounded-3xl border border-slate-100 overflow-hidden">
+      <div className="flex items-center justify-between p-3 border-b border-slate-100 bg-white">
+        <div>
+          <h3 className="text-[11px] font-black text-slate-900 uppercase">Versions</h3>
+          <p className="text-[9px] font-bold text-slate-400 uppercase">{allTurns.length} versions • {sessions.length} patterns</p>
+        </div>
+        <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded-full">
+          <svg className="w-4 h-4 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-4">
+        {orderedSessions.length === 0 && (
+          <p className="text-center text-[10px] font-bold text-slate-400 uppercase tracking-widest py-8">Chưa có pattern nào</p>
+        )}
+        {orderedSessions.map(session => (
+          <div key={session.id} className="space-y-1">
+            <p className="px-1 text-[9px] font-black text-slate-400 uppercase tracking-widest truncate">{session.theme}</p>
+            {getTurnTree(session).map(({ turn, depth }) => {
+              const isActive = session.id === activeSessionId && turn.id === session.activeTurnId;
+              const isCompared = compareIds.includes(turn.id);
+              return (
+                <div
+                  key={turn.id}
+                  style={{ marginLeft: depth * 10 }}
+                  className={`group relative rounded-xl p-1.5 border transition-all ${isActive ? 'bg-white border-violet-300 shadow-sm' : 'border-transparent hover:bg-white hover:border-slate-200'}`}
+                >
+                  {depth > 0 && <div className="absolute -left-1.5 top-0 bottom-1/2 w-1.5 border-l border-b border-slate-300 rounded-bl" />}
+                  <img src={turn.image} className="w-full aspect-video object-cover rounded-lg border border-slate-200" />
+                  <div className="mt-1">
+                    <VersionMeta turn={turn} />
+                  </div>
+                  <div className="mt-1 flex gap-1">
+                    <button
+                      onClick={() => onRestore(session.id, turn.id)}
+                      disabled={disabled || isActive}
+                      className="flex-1 py-1 rounded-md text-[8px] font-black uppercase bg-violet-600 text-white hover:bg-violet-700 disabled:opacity-40"
+                    >
+                      {isActive ? 'Current' : 'Restore'}
+                    </button>
+                    <button
+                      onClick={() => toggleCompare(turn.id)}
+                      className={`px-2 py-1 rounded-md text-[8px] font-black uppercase ${isCompared ? 'bg-amber-500 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                    >
+                      {isCompared ? `#${compareIds.indexOf(turn.id) + 1}` : 'Compare'}
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      <div className="p-3 border-t border-slate-100 bg-white">
+        <button
+          onClick={() => setShowCompare(true)}
+          disabled={compareTurns.length !== 2}
+          className="w-full py-2.5 rounded-xl font-black text-[10px] uppercase tracking-wider bg-amber-500 text-white hover:bg-amber-600 transition-all disabled:opacity-50"
+        >
+          Compare ({compareTurns.length}/2)
+        </button>
+      </div>
+
+      {showCompare && compareTurns.length === 2 && (
+        <div className="fixed inset-0 z-[110] flex items-center justify-center p-8 bg-slate-900/90 backdrop-blur-md animate-in fade-in duration-200" onClick={() => setShowCompare(false)}>
+          <div className="bg-white rounded-3xl w-full max-w-7xl p-6 shadow-2xl" onClick={e => e.stopPropagation()}>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-black text-slate-900 uppercase">Compare versions</h2>
+              <button onClick={() => setShowCompare(false)} className="p-2 hover:bg-slate-100 rounded-full transition-all">
+                <svg className="w-6 h-6 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-6">
+              {compareTurns.map(turn => {
+                const session = sessions.find(s => s.turns.some(t => t.id === turn.id))!;
+                return (
+                  <div key={turn.id} className="space-y-3">
+                    <img src={turn.image} className="w-full aspect-video object-contain bg-slate-100 rounded-2xl border border-slate-200" />
+                    <VersionMeta turn={turn} />
+                    <button
+                      onClick={() => { onRestore(session.id, turn.id); setShowCompare(false); }}
+                      disabled={disabled}
+                      className="w-full py-3 bg-slate-900 text-white rounded-xl font-black text-xs uppercase hover:bg-violet-600 transition-all disabled:opacity-50"
+                    >
+                      Restore this version
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PatternVersionTimeline;
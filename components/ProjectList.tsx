@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import { ProjectSummary, getProjectThumbnail } from '../services/projectStore';
+
+interface ProjectListProps {
+  projects: ProjectSummary[];
+  activeProjectId: string | null;
+  disabled?: boolean;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+// Danh sách project đã lưu trong IndexedDB, hiện ở màn hình bắt đầu
+const ProjectList: React.FC<ProjectListProps> = ({ projects, activeProjectId, disabled, onOpen, onDelete }) => {
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    const urls: string[] = [];
+    Promise.all(projects.map(async project => {
+      const blob = await getProjectThumbnail(project).catch(() => undefined);
+      if (!blob) return null;
+      const url = URL.createObjectURL(blob);
+      urls.push(url);
+      return [project.id, url] as const;
+    })).then(entries => {
+      if (!cancelled) setThumbnails(Object.fromEntries(entries.filter((e): e is readonly [string, string] => e !== null)));
+    });
+    return () => {
+      cancelled = true;
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [projects]);
+
+  return (
+    <div className="mt-12 w-full max-w-3xl px-8">
+      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">Project đã lưu</p>
+      <div className="grid grid-cols-2 gap-3">
+        {projects.map(project => (
+          <div key={project.id} className={`flex items-center gap-4 p-3 rounded-2xl bg-white border group ${project.id === activeProjectId ? 'border-violet-300' : 'border-slate-100'}`}>
+            <div className="w-14 h-14 rounded-xl overflow-hidden bg-slate-100 shrink-0">
+              {thumbnails[project.id] && <img src={thumbnails[project.id]} alt="" className="w-full h-full object-cover" />}
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-black text-slate-700 truncate" title={project.name}>{project.name}</p>
+              <p className="text-[9px] font-bold text-slate-400 uppercase mt-0.5">{project.batchCount} batch • {project.resultCount} ảnh</p>
+              <p className="text-[9px] font-bold text-slate-300 mt-0.5">{new Date(project.updatedAt).toLocaleString()}</p>
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <button
+                onClick={() => onOpen(project.id)}
+                disabled={disabled}
+                className="px-3 py-1.5 rounded-lg bg-violet-600 text-white text-[9px] font-black uppercase hover:bg-violet-700 transition-all disabled:opacity-50"
+              >
+                Mở
+              </button>
+              <button
+                onClick={() => onDelete(project.id)}
+                disabled={disabled}
+                className="px-3 py-1.5 rounded-lg bg-slate-50 text-slate-400 text-[9px] font-black uppercase hover:bg-red-50 hover:text-red-500 transition-all disabled:opacity-50"
+              >
+                Xóa
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectList;
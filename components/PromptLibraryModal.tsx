@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import {
+  PromptSlot,
+  PROMPT_SLOTS,
+  listTemplates,
+  getTemplate,
+  getTemplateBody,
+  getDefaultTemplateId,
+  setDefaultTemplate,
+  createTemplate,
+  saveTemplateVersion,
+  restoreTemplateVersion,
+  renameTemplate,
+  deleteTemplate,
+  extractVariables,
+  subscribeToPromptLibrary,
+} from '../services/promptTemplates';
+
+interface PromptLibraryModalProps {
+  onClose: () => void;
+}
+
+const PromptLibraryModal: React.FC<PromptLibraryModalProps> = ({ onClose }) => {
+  const [, setRevision] = useState(0);
+  const [slot, setSlot] = useState<PromptSlot>('pattern');
+  const [selectedId, setSelectedId] = useState<string>(getDefaultTemplateId('pattern'));
+  const [draft, setDraft] = useState('');
+  const [note, setNote] = useState('');
+
+  useEffect(() => subscribeToPromptLibrary(() => setRevision(r => r + 1)), []);
+
+  const templates = listTemplates(slot);
+  const selected = getTemplate(selectedId);
+  const defaultId = getDefaultTemplateId(slot);
+  const slotInfo = PROMPT_SLOTS.find(s => s.slot === slot)!;
+  const currentBody = selected ? getTemplateBody(selected) : '';
+  const isDirty = draft !== currentBody;
+  const unknownVariables = extractVariables(draft).filter(v => !slotInfo.variables.includes(v));
+
+  // Đổi template / version thì nạp lại nội dung vào editor
+  useEffect(() => {
+    setDraft(currentBody);
+    setNote('');
+  }, [selectedId, selected?.currentVersion]);
+
+  const handleSelectSlot = (next: PromptSlot) => {
+    setSlot(next);
+    setSelectedId(getDefaultTemplateId(next));
+  };
+
+  const handleSaveVersion = () => {
+    if (!selected || !isDirty) return;
+    saveTemplateVersion(selected.id, draft, note.trim() || undefined);
+  };
+
+  const handleDuplicate = () => {
+    if (!selected) return;
+    const copy = createTemplate(slot, `${selected.name} (copy)`, draft);
+    setSelectedId(copy.id);
+  };
+
+  const handleDelete = () => {
+    if (!selected || selected.builtIn) return;
+    if (!confirm(`Xóa template "${selected.name}"?`)) return;
+    deleteTemplate(selected.id);
+    setSelectedId(getDefaultTemplateId(slot));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl w-full max-w-6xl h-[85vh] overflow-hidden shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <div>
+            <h2 className="text-lg font-black text-slate-900 uppercase">Prompt Library</h2>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">Template có biến {'{{keyword}}'}, lưu version, chọn mặc định cho từng mode</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-all">
+            <svg className="w-6 h-6 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Mode / slot */}
+          <div className="w-56 border-r border-slate-100 p-3 space-y-1 overflow-y-auto custom-scrollbar">
+            {PROMPT_SLOTS.map(s => (
+              <button
+                key={s.slot}
+                onClick={() => handleSelectSlot(s.slot)}
+                className={`w-full text-left px-3 py-2.5 rounded-xl text-[11px] font-black uppercase tracking-wide transition-all ${slot === s.slot ? 'bg-violet-600 text-white' : 'text-slate-500 hover:bg-slate-50'}`}
+              >
+                {s.label}
+              </button>
+            ))}
+          </div>
+
+          {/* Templates của slot */}
+          <div className="w-64 border-r border-slate-100 p-3 space-y-1 overflow-y-auto custom-scrollbar">
+            {templates.map(t => (
+              <button
+                key={t.id}
+                onClick={() => setSelectedId(t.id)}
+                className={`w-full text-left px-3 py-2.5 rounded-xl transition-all border ${selectedId === t.id ? 'border-violet-300 bg-violet-50' : 'border-transparent hover:bg-slate-50'}`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="text-[11px] font-bold text-slate-700 truncate flex-1">{t.name}</span>
+                  {t.id === defaultId && <span className="px-1.5 py-0.5 rounded-md text-[8px] font-black uppercase bg-emerald-100 text-emerald-600">Default</span>}
+                </div>
+                <p className="text-[9px] text-slate-400 mt-0.5">v{t.currentVersion} • {t.versions.length} version{t.versions.length > 1 ? 's' : ''}{t.builtIn ? ' • built-in' : ''}</p>
+              </button>
+            ))}
+          </div>
+
+          {/* Editor */}
+          {selected ? (
+            <div className="flex-1 flex flex-col min-w-0 p-5 gap-4 overflow-y-auto custom-scrollbar">
+              <div className="flex items-center gap-3">
+                <input
+                  value={selected.name}
+                  onChange={e => renameTemplate(selected.id, e.target.value)}
+                  className="flex-1 px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-black text-slate-900 focus:outline-none focus:ring-2 focus:ring-violet-500"
+                />
+                <button
+                  onClick={() => setDefaultTemplate(slot, selected.id)}
+                  disabled={selected.id === defaultId}
+                  className="px-4 py-2.5 rounded-xl font-black text-[10px] uppercase tracking-wider bg-emerald-50 text-emerald-600 hover:bg-emerald-100 transition-all disabled:opacity-50"
+                >
+                  {selected.id === defaultId ? 'Default' : 'Set default'}
+                </button>
+                <button onClick={handleDuplicate} className="px-4 py-2.5 rounded-xl font-black text-[10px] uppercase tracking-wider bg-slate-100 text-slate-600 hover:bg-slate-200 transition-all">Duplicate</button>
+                {!selected.builtIn && (
+                  <button onClick={handleDelete} className="px-4 py-2.5 rounded-xl font-black text-[10px] uppercase tracking-wider bg-red-50 text-red-500 hover:bg-red-100 transition-all">Delete</button>
+                )}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-1.5">
+                <span className="text-[9px] font-black uppercase text-slate-400 mr-1">Biến:</span>
+                {slotInfo.variables.length === 0 && <span className="text-[10px] text-slate-400">không có</span>}
+                {slotInfo.variables.map(v => (
+                  <button
+                    key={v}
+                    onClick={() => setDraft(d => `${d}{{${v}}}`)}
+                    className="px-2 py-0.5 rounded-md text-[10px] font-mono font-bold bg-violet-50 text-violet-600 hover:bg-violet-100"
+                  >
+                    {`{{${v}}}`}
+                  </button>
+                ))}
+                {unknownVariables.map(v => (
+                  <span key={v} className="px-2 py-0.5 rounded-md text-[10px] font-mono font-bold bg-red-50 text-red-500" title="Biến này sẽ được thay bằng chuỗi rỗng">
+                    {`{{${v}}}`} ?
+                  </span>
+                ))}
+              </div>
+
+              <textarea
+                value={draft}
+                onChange={e => setDraft(e.target.value)}
+                className="flex-1 min-h-[280px] p-4 bg-slate-50 border border-slate-200 rounded-2xl text-[12px] font-mono text-slate-700 leading-relaxed focus:outline-none focus:ring-2 focus:ring-violet-500 resize-none custom-scrollbar"
+              />
+
+              <div className="flex items-center gap-3">
+                <input
+                  value={note}
+                  onChange={e => setNote(e.target.value)}
+                  placeholder="Ghi chú cho version mới (tùy chọn)"
+                  className="flex-1 px-3 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-xs focus:outline-none focus:ring-2 focus:ring-violet-500"
+                />
+                <button
+                  onClick={() => setDraft(currentBody)}
+                  disabled={!isDirty}
+                  className="px-4 py-2.5 rounded-xl font-black text-[10px] uppercase tracking-wider bg-slate-100 text-slate-500 hover:bg-slate-200 transition-all disabled:opacity-50"
+                >
+                  Discard
+                </button>
+                <button
+                  onClick={handleSaveVersion}
+                  disabled={!isDirty}
+                  className="px-5 py-2.5 rounded-xl font-black text-[10px] uppercase tracking-wider bg-violet-600 text-white hover:bg-violet-700 transition-all disabled:opacity-50"
+                >
+                  Save as v{Math.max(...selected.versions.map(v => v.version)) + 1}
+                </button>
+              </div>
+
+              <div>
+                <h4 className="text-[10px] font-black uppercase text-slate-400 tracking-widest mb-2">Version history</h4>
+                <div className="space-y-1">
+                  {[...selected.versions].reverse().map(v => (
+                    <div key={v.version} className={`flex items-center gap-3 px-3 py-2 rounded-xl ${v.version === selected.currentVersion ? 'bg-violet-50' : 'hover:bg-slate-50'}`}>
+                      <span className="text-[11px] font-black text-slate-700 w-8">v{v.version}</span>
+                      <span className="text-[10px] text-slate-400 w-36">{v.createdAt ? new Date(v.createdAt).toLocaleString() : 'Built-in'}</span>
+                      <span className="text-[11px] text-slate-600 flex-1 truncate">{v.note || ''}</span>
+                      {v.version === selected.currentVersion ? (
+                        <span className="text-[9px] font-black uppercase text-violet-600">Current</span>
+                      ) : (
+                        <button onClick={() => restoreTemplateVersion(selected.id, v.version)} className="text-[9px] font-black uppercase text-slate-500 hover:text-violet-600">Restore</button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="flex-1 flex items-center justify-center text-[10px] font-bold text-slate-400 uppercase tracking-widest">Chọn một template</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptLibraryModal;
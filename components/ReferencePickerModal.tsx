@@ -0,0 +1,151 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CompetitorProduct } from '../types';
+import { computeHashes, groupNearDuplicates } from '../services/imageHash';
+
+interface ReferencePickerModalProps {
+  batchName: string;
+  candidates: CompetitorProduct[]; // Sản phẩm đã crawl có ảnh
+  initialSelection: CompetitorProduct[]; // Ứng viên đang nằm trong input slot, theo thứ tự slot
+  availableSlots: number; // Số slot còn lại sau ảnh upload tay
+  onConfirm: (selected: CompetitorProduct[]) => void;
+  onClose: () => void;
+}
+
+type SourceFilter = 'all' | CompetitorProduct['source'];
+
+const SOURCE_BADGES: Record<CompetitorProduct['source'], string> = {
+  amazon: 'bg-orange-500 text-white',
+  etsy: 'bg-orange-700 text-white',
+};
+
+// Chọn ảnh tham chiếu cho input slot từ pool ảnh crawl; ảnh gần trùng (cùng design đăng lại) được gom thành một ô
+const ReferencePickerModal: React.FC<ReferencePickerModalProps> = ({ batchName, candidates, initialSelection, availableSlots, onConfirm, onClose }) => {
+  const [selected, setSelected] = useState<string[]>(() => initialSelection.map(c => c.imageUrl).slice(0, availableSlots));
+  const [sourceFilter, setSourceFilter] = useState<SourceFilter>('all');
+  const [collapseDuplicates, setCollapseDuplicates] = useState(true);
+  const [expandedGroup, setExpandedGroup] = useState<string | null>(null);
+  // Hash tính bù cho ứng viên crawl trước khi có hash
+  const [hashes, setHashes] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const missing = candidates.filter(c => !c.hash && c.image);
+    if (missing.length === 0) return;
+    let cancelled = false;
+    Promise.all(missing.map(async c => [c.imageUrl, await computeHashes(c.image!).then(h => h.d, () => '')] as const)).then(entries => {
+      if (!cancelled) setHashes(Object.fromEntries(entries.filter(([, hash]) => hash)));
+    });
+    return () => { cancelled = true; };
+  }, [candidates]);
+
+  const groups = useMemo(() => {
+    const visible = candidates.filter(c => sourceFilter === 'all' || c.source === sourceFilter);
+    return collapseDuplicates
+      ? groupNearDuplicates(visible, c => c.hash ?? hashes[c.imageUrl])
+      : visible.map(c => [c]);
+  }, [candidates, sourceFilter, collapseDuplicates, hashes]);
+
+  const toggle = (imageUrl: string) => setSelected(prev => {
+    if (prev.includes(imageUrl)) return prev.filter(url => url !== imageUrl);
+    if (prev.length >= availableSlots) return prev;
+    return [...prev, imageUrl];
+  });
+
+  const handleConfirm = () => {
+    onConfirm(selected.map(url => candidates.find(c => c.imageUrl === url)!).filter(Boolean));
+  };
+
+  const renderTile = (candidate: CompetitorProduct, duplicates = 0) => {
+    const order = selected.indexOf(candidate.imageUrl);
+    const isFull = order < 0 && selected.length >= availableSlots;
+    return (
+      <div key={candidate.imageUrl} className="relative group">
+        <button
+          onClick={() => toggle(candidate.imageUrl)}
+          disabled={isFull}
+          title={candidate.title}
+          className={`block w-full aspect-square rounded-2xl overflow-hidden border-4 transition-all ${order >= 0 ? 'border-violet-500' : 'border-transparent hover:border-slate-200'} ${isFull ? 'opacity-40 cursor-not-allowed' : ''}`}
+        >
+          <img src={candidate.image} alt={candidate.title} className="w-full h-full object-cover bg-slate-100" />
+        </button>
+        <span className={`absolute top-2 left-2 px-1.5 py-0.5 rounded-md text-[8px] font-black uppercase pointer-events-none ${SOURCE_BADGES[candidate.source]}`}>{candidate.source}</span>
+        {candidate.duplicateOf && (
+          <span title={`Gần trùng với ${candidate.duplicateOf}`} className="absolute top-8 left-2 px-1.5 py-0.5 rounded-md bg-amber-500 text-white text-[8px] font-black uppercase pointer-events-none">Đã dùng</span>
+        )}
+        {order >= 0 && (
+          <span className="absolute top-2 right-2 w-6 h-6 rounded-full bg-violet-600 text-white text-[10px] font-black flex items-center justify-center pointer-events-none">{order + 1}</span>
+        )}
+        {duplicates > 0 && (
+          <button
+            onClick={() => setExpandedGroup(prev => (prev === candidate.imageUrl ? null : candidate.imageUrl))}
+            title="Xem các ảnh gần trùng"
+            className="absolute bottom-2 right-2 px-2 py-0.5 rounded-md bg-slate-900/80 text-white text-[9px] font-black"
+          >
+            +{duplicates} giống
+          </button>
+        )}
+        {(candidate.rating !== undefined || candidate.reviewCount !== undefined) && (
+          <span className="absolute bottom-2 left-2 px-1.5 py-0.5 rounded-md bg-white/90 text-[9px] font-bold text-slate-600 pointer-events-none">
+            {candidate.rating !== undefined ? `★ ${candidate.rating.toFixed(1)}` : ''}{candidate.reviewCount !== undefined ? ` (${candidate.reviewCount.toLocaleString()})` : ''}
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl w-full max-w-5xl max-h-[90vh] overflow-hidden shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <div>
+            <h2 className="text-lg font-black text-slate-900 uppercase">Chọn ảnh tham chiếu</h2>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">{batchName} • {candidates.length} ảnh crawl • {groups.length} nhóm</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-all">
+            <svg className="w-6 h-6 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="flex items-center gap-3 px-6 py-3 border-b border-slate-100">
+          {(['all', 'amazon', 'etsy'] as SourceFilter[]).map(source => (
+            <button
+              key={source}
+              onClick={() => setSourceFilter(source)}
+              className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase transition-all ${sourceFilter === source ? 'bg-slate-900 text-white' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}
+            >
+              {source === 'all' ? 'Tất cả' : source} ({source === 'all' ? candidates.length : candidates.filter(c => c.source === source).length})
+            </button>
+          ))}
+          <label className="ml-auto flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase cursor-pointer">
+            <input type="checkbox" checked={collapseDuplicates} onChange={e => setCollapseDuplicates(e.target.checked)} className="accent-violet-600" />
+            Gom ảnh gần trùng
+          </label>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6">
+          <div className="grid grid-cols-5 gap-3">
+            {groups.map(([representative, ...rest]) => (
+              <React.Fragment key={representative.imageUrl}>
+                {renderTile(representative, rest.length)}
+                {expandedGroup === representative.imageUrl && rest.map(candidate => (
+                  <div key={candidate.imageUrl} className="ring-2 ring-slate-200 ring-offset-2 rounded-2xl">{renderTile(candidate)}</div>
+                ))}
+              </React.Fragment>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between p-5 border-t border-slate-100">
+          <span className="text-[10px] font-bold text-slate-400 uppercase">{selected.length}/{availableSlots} slot đã chọn</span>
+          <button
+            onClick={handleConfirm}
+            className="px-6 py-3 rounded-xl font-black text-[10px] uppercase bg-violet-600 text-white hover:bg-violet-700 transition-all"
+          >
+            Dùng {selected.length} ảnh
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReferencePickerModal;
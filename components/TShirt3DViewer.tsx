@@ -409,9 +409,10 @@ LayerDecal.displayName = 'LayerDecal';
 interface TShirtProps {
   color: string;
   layers: LayerData[];
+  tileTexture?: THREE.Texture | null;  // Tile mode: texture lặp phủ toàn bộ áo theo UV thay cho decal
 }
 
-const TShirt: React.FC<TShirtProps> = React.memo(({ color, layers }) => {
+const TShirt: React.FC<TShirtProps> = React.memo(({ color, layers, tileTexture }) => {
   const { nodes, materials } = useGLTF('/shirt.glb') as any;
   const meshRef = useRef<THREE.Mesh>(null);
   
@@ -433,23 +434,35 @@ const TShirt: React.FC<TShirtProps> = React.memo(({ color, layers }) => {
 
   return (
     <group scale={11}>
-      <mesh
-        ref={meshRef}
-        castShadow
-        geometry={nodes.T_Shirt_male.geometry}
-        material={materials.lambert1}
-        material-roughness={1}
-        dispose={null}
-      >
-        {visibleLayers.map((layer, index) => (
-          <LayerDecal key={layer.id} layer={layer} index={index} />
-        ))}
-      </mesh>
+      {tileTexture ? (
+        <mesh
+          ref={meshRef}
+          castShadow
+          geometry={nodes.T_Shirt_male.geometry}
+          dispose={null}
+        >
+          <meshStandardMaterial attach="material" map={tileTexture} roughness={1} />
+        </mesh>
+      ) : (
+        <mesh
+          ref={meshRef}
+          castShadow
+          geometry={nodes.T_Shirt_male.geometry}
+          material={materials.lambert1}
+          material-roughness={1}
+          dispose={null}
+        >
+          {visibleLayers.map((layer, index) => (
+            <LayerDecal key={layer.id} layer={layer} index={index} />
+          ))}
+        </mesh>
+      )}
     </group>
   );
 }, (prevProps, nextProps) => {
   // Custom comparison - only re-render if layers content changed
   if (prevProps.color !== nextProps.color) return false;
+  if (prevProps.tileTexture !== nextProps.tileTexture) return false;
   if (prevProps.layers.length !== nextProps.layers.length) return false;
   
   // Compare layers by reference (they should be stable)
@@ -485,16 +498,31 @@ const CameraRig: React.FC<{ children: React.ReactNode }> = React.memo(({ childre
 interface TShirt3DViewerProps {
   newImageBase64?: string | null;
   onApplyComplete?: () => void;
+  wrapMode?: 'panels' | 'tile';  // panels: cắt 3 vùng của pattern 16:9; tile: lặp ảnh khắp áo
 }
 
+const TILE_REPEATS = [2, 4, 6, 8];
+
 // Default preset color from "shirt finale.json"
 const DEFAULT_SHIRT_COLOR = "#EFBD48";
 
-const TShirt3DViewer: React.FC<TShirt3DViewerProps> = ({ newImageBase64, onApplyComplete }) => {
+const TShirt3DViewer: React.FC<TShirt3DViewerProps> = ({ newImageBase64, onApplyComplete, wrapMode = 'panels' }) => {
   // Always start with the preset yellow color
   const [shirtColor, setShirtColor] = useState(DEFAULT_SHIRT_COLOR);
   const [layers, setLayers] = useState<LayerData[]>([]);
   const [isApplying, setIsApplying] = useState(false);
+  const [tileTexture, setTileTexture] = useState<THREE.Texture | null>(null);
+  const [tileRepeat, setTileRepeat] = useState(4);
+
+  // Số lần lặp chỉ đổi thông số texture, không cần tải lại ảnh
+  useEffect(() => {
+    if (!tileTexture) return;
+    tileTexture.repeat.set(tileRepeat, tileRepeat);
+    tileTexture.needsUpdate = true;
+  }, [tileTexture, tileRepeat]);
+
+  // Dispose texture cũ khi đổi tile hoặc unmount
+  useEffect(() => () => { tileTexture?.dispose(); }, [tileTexture]);
   
   // Memoize layers to prevent re-renders during drag
   const memoizedLayers = useMemo(() => layers, [layers]);
@@ -505,9 +533,34 @@ const TShirt3DViewer: React.FC<TShirt3DViewerProps> = ({ newImageBase64, onApply
     if (!newImageBase64) {
       // Reset to default - no layers, but keep preset yellow color
       setLayers([]);
+      setTileTexture(null);
       setShirtColor(DEFAULT_SHIRT_COLOR);
       return;
     }
+
+    // Tile mode: bọc tile lặp lên toàn bộ áo theo UV của model, áo để trắng để giữ đúng màu
+    const applyTile = async () => {
+      setIsApplying(true);
+      try {
+        const tex = await new THREE.TextureLoader().loadAsync(newImageBase64);
+        tex.wrapS = THREE.RepeatWrapping;
+        tex.wrapT = THREE.RepeatWrapping;
+        setLayers([]);
+        setShirtColor('#ffffff');
+        setTileTexture(tex);
+        onApplyComplete?.();
+      } catch (err) {
+        console.error('Error applying tile:', err);
+      } finally {
+        setIsApplying(false);
+      }
+    };
+
+    if (wrapMode === 'tile') {
+      applyTile();
+      return;
+    }
+    setTileTexture(null);
     
     const applyNewImage = async () => {
       setIsApplying(true);
@@ -646,7 +699,7 @@ const TShirt3DViewer: React.FC<TShirt3DViewerProps> = ({ newImageBase64, onApply
     };
     
     applyNewImage();
-  }, [newImageBase64, onApplyComplete]);
+  }, [newImageBase64, onApplyComplete, wrapMode]);
 
   return (
     <div className="relative w-full h-full bg-gradient-to-br from-slate-100 to-slate-200 rounded-3xl overflow-hidden">
@@ -671,7 +724,7 @@ const TShirt3DViewer: React.FC<TShirt3DViewerProps> = ({ newImageBase64, onApply
         <CameraRig>
           <Center>
             <Suspense fallback={null}>
-              <TShirt color={memoizedColor} layers={memoizedLayers} />
+              <TShirt color={memoizedColor} layers={memoizedLayers} tileTexture={tileTexture} />
             </Suspense>
           </Center>
         </CameraRig>
@@ -687,6 +740,21 @@ const TShirt3DViewer: React.FC<TShirt3DViewerProps> = ({ newImageBase64, onApply
       <div className="absolute bottom-4 left-4 bg-white/80 backdrop-blur-sm px-4 py-2 rounded-xl">
         <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">3D Preview • Drag to rotate</span>
       </div>
+
+      {tileTexture && (
+        <div className="absolute bottom-4 right-4 bg-white/80 backdrop-blur-sm px-2 py-1.5 rounded-xl flex items-center gap-1">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 px-2">Repeat</span>
+          {TILE_REPEATS.map(n => (
+            <button
+              key={n}
+              onClick={() => setTileRepeat(n)}
+              className={`px-2 py-1 rounded-lg text-[10px] font-black transition-all ${tileRepeat === n ? 'bg-violet-600 text-white' : 'text-slate-500 hover:bg-slate-100'}`}
+            >
+              {n}×
+            </button>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
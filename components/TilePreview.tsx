@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { SeamReport } from '../services/seamlessTile';
+
+interface TilePreviewProps {
+  title: string;
+  image: string;
+  report?: SeamReport;
+  isRepairing?: boolean;
+  onRepair: () => void;
+  onWrap3D: () => void;
+  onClose: () => void;
+}
+
+const REPEATS = [2, 3, 4, 6];
+
+// Xem tile lặp ở nhiều mật độ để phát hiện đường nối và hiệu ứng "lặp lộ" trước khi in
+const TilePreview: React.FC<TilePreviewProps> = ({ title, image, report, isRepairing, onRepair, onWrap3D, onClose }) => {
+  const [repeat, setRepeat] = useState(3);
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-8 bg-slate-900/90 backdrop-blur-md animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-white rounded-3xl w-full max-w-5xl p-6 shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-black text-slate-900 uppercase">Tile preview</h2>
+            <p className="text-[10px] font-bold text-slate-400 uppercase">{title}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            {REPEATS.map(n => (
+              <button
+                key={n}
+                onClick={() => setRepeat(n)}
+                className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase transition-all ${repeat === n ? 'bg-violet-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+              >
+                {n}×{n}
+              </button>
+            ))}
+            <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-all">
+              <svg className="w-6 h-6 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex gap-6">
+          <div
+            className="flex-1 aspect-square max-h-[65vh] rounded-2xl border border-slate-200"
+            style={{ backgroundImage: `url(${image})`, backgroundSize: `${100 / repeat}% auto`, backgroundRepeat: 'repeat' }}
+          />
+          <div className="w-56 shrink-0 space-y-4">
+            <img src={image} className="w-full rounded-xl border border-slate-200" />
+            {report && (
+              <div className={`p-3 rounded-xl text-[10px] font-bold space-y-1 ${report.seamless ? 'bg-emerald-50 text-emerald-700' : 'bg-amber-50 text-amber-700'}`}>
+                <p className="font-black uppercase">{report.seamless ? '✓ Seamless' : '⚠ Lộ đường nối'}{report.repaired ? ' • đã sửa' : ''}</p>
+                <p>Trái ↔ phải: {report.vertical.toFixed(2)}×</p>
+                <p>Trên ↔ dưới: {report.horizontal.toFixed(2)}×</p>
+                <p className="font-medium opacity-70">So với chênh lệch bình thường giữa 2 cột / hàng liền kề (≤ 2× là liền mạch)</p>
+              </div>
+            )}
+            <button
+              onClick={onRepair}
+              disabled={isRepairing}
+              className="w-full py-3 bg-amber-500 text-white rounded-xl font-black text-xs uppercase hover:bg-amber-600 transition-all disabled:opacity-50"
+            >
+              {isRepairing ? 'Repairing...' : 'Offset & blend seams'}
+            </button>
+            <button
+              onClick={onWrap3D}
+              className="w-full py-3 bg-slate-900 text-white rounded-xl font-black text-xs uppercase hover:bg-violet-600 transition-all"
+            >
+              Wrap on 3D shirt
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TilePreview;
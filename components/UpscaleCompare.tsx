@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { UpscaledAsset } from '../types';
+
+interface UpscaleCompareProps {
+  title: string;
+  original: string;
+  asset: UpscaledAsset;
+  onClose: () => void;
+}
+
+type Zoom = 'fit' | 0.5 | 1 | 2;
+
+const ZOOM_OPTIONS: Array<{ value: Zoom; label: string }> = [
+  { value: 'fit', label: 'Fit' },
+  { value: 0.5, label: '50%' },
+  { value: 1, label: '100%' },
+  { value: 2, label: '200%' },
+];
+
+// So sánh trước/sau khi upscale: hai ảnh chồng lên nhau cùng kích thước hiển thị,
+// kéo thanh chia để xem chi tiết. Zoom tính theo pixel của bản upscale (100% = 1:1 khi in).
+const UpscaleCompare: React.FC<UpscaleCompareProps> = ({ title, original, asset, onClose }) => {
+  const [zoom, setZoom] = useState<Zoom>(1);
+  const [split, setSplit] = useState(50);
+  const [originalWidth, setOriginalWidth] = useState<number | null>(null);
+
+  const frameStyle: React.CSSProperties = zoom === 'fit'
+    ? { width: '100%', aspectRatio: `${asset.width} / ${asset.height}` }
+    : { width: asset.width * zoom, height: asset.height * zoom };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-8 bg-slate-900/90 backdrop-blur-md animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-white rounded-3xl w-full max-w-7xl p-6 shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-black text-slate-900 uppercase">Upscale check</h2>
+            <p className="text-[10px] font-bold text-slate-400 uppercase">
+              {title} • {originalWidth ? `${originalWidth}px → ` : ''}{asset.width}×{asset.height}px @ {asset.dpi} DPI • {asset.algorithm}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {ZOOM_OPTIONS.map(o => (
+              <button
+                key={o.label}
+                onClick={() => setZoom(o.value)}
+                className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase transition-all ${zoom === o.value ? 'bg-violet-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+              >
+                {o.label}
+              </button>
+            ))}
+            <a
+              href={asset.url}
+              download={`${title.replace(/[^a-zA-Z0-9 ]/g, ' ')} ${asset.width}px.png`}
+              className="px-3 py-1.5 rounded-lg text-[10px] font-black uppercase bg-emerald-600 text-white hover:bg-emerald-700"
+            >
+              Download
+            </a>
+            <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-all">
+              <svg className="w-6 h-6 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="h-[65vh] overflow-auto custom-scrollbar bg-slate-100 rounded-2xl border border-slate-200">
+          <div className="relative select-none" style={frameStyle}>
+            <img src={original} onLoad={e => setOriginalWidth(e.currentTarget.naturalWidth)} className="absolute inset-0 w-full h-full" draggable={false} />
+            <img src={asset.url} className="absolute inset-0 w-full h-full" style={{ clipPath: `inset(0 0 0 ${split}%)` }} draggable={false} />
+            <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow-[0_0_0_1px_rgba(15,23,42,0.4)] pointer-events-none" style={{ left: `${split}%` }} />
+            <span className="absolute top-3 left-3 px-2 py-1 rounded-md bg-slate-900/70 text-white text-[9px] font-black uppercase pointer-events-none">Before</span>
+            <span className="absolute top-3 right-3 px-2 py-1 rounded-md bg-violet-600/90 text-white text-[9px] font-black uppercase pointer-events-none">After</span>
+          </div>
+        </div>
+
+        <div className="mt-4 flex items-center gap-3">
+          <span className="text-[9px] font-black text-slate-400 uppercase">Before</span>
+          <input type="range" min="0" max="100" value={split} onChange={e => setSplit(parseInt(e.target.value))} className="flex-1 accent-violet-600 h-1 bg-slate-200 rounded-full appearance-none" />
+          <span className="text-[9px] font-black text-slate-400 uppercase">After</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UpscaleCompare;
@@ -1,16 +1,17 @@
 const puppeteer = require('puppeteer');
+const { parseAmazonSearch } = require('./parsers');
 const path = require('path');
 const fs = require('fs');
 const https = require('https');
 const http = require('http');
 
 /**
- * Crawl images from Amazon search results
+ * Crawl products from Amazon search results
  * @param {string} keyword - Search keyword
- * @param {number} maxImages - Maximum number of images to crawl (default: 5)
- * @returns {Promise<string[]>} - Array of image URLs or base64 data
+ * @param {number} maxImages - Maximum number of products to crawl (default: 5)
+ * @returns {Promise<object[]>} - Products (see parsers.js), imageUrl not downloaded yet
  */
-async function crawlAmazonImages(keyword, maxImages = 5) {
+async function crawlAmazonProducts(keyword, maxImages = 5) {
   console.log(`[Amazon Crawler] Starting for keyword: "${keyword}"`);
   
   const browser = await puppeteer.launch({
@@ -106,9 +107,21 @@ async function crawlAmazonImages(keyword, maxImages = 5) {
       return urls;
     }, maxImages);
     
-    console.log(`[Amazon Crawler] Found ${images.length} images`);
+    // Structured products from the rendered page; image-only fallback if the markup changed
+    const products = parseAmazonSearch(await page.content(), maxImages);
+    console.log(`[Amazon Crawler] Found ${products.length} products (${images.length} images)`);
     
-    return images;
+    if (products.length > 0) return products;
+    return images.map(imageUrl => ({
+      source: 'amazon',
+      title: '',
+      price: null,
+      currency: null,
+      rating: null,
+      reviewCount: null,
+      url: searchUrl,
+      imageUrl,
+    }));
     
   } catch (error) {
     console.error('[Amazon Crawler] Error:', error.message);
@@ -157,14 +170,14 @@ function downloadImageAsBase64(url) {
   });
 }
 
-module.exports = { crawlAmazonImages, downloadImageAsBase64 };
+module.exports = { crawlAmazonProducts, downloadImageAsBase64 };
 
 // CLI support
 if (require.main === module) {
   const keyword = process.argv[2] || 'cat';
-  crawlAmazonImages(keyword, 5)
-    .then(images => {
-      console.log('Results:', JSON.stringify(images, null, 2));
+  crawlAmazonProducts(keyword, 5)
+    .then(products => {
+      console.log('Results:', JSON.stringify(products, null, 2));
     })
     .catch(err => {
       console.error('Failed:', err);
@@ -1,16 +1,17 @@
 const puppeteer = require('puppeteer');
+const { parseEtsySearch } = require('./parsers');
 const https = require('https');
 const http = require('http');
 
 const delay = ms => new Promise(resolve => setTimeout(resolve, ms));
 
 /**
- * Crawl images from Etsy search results
+ * Crawl products from Etsy search results
  * @param {string} keyword - Search keyword
- * @param {number} maxImages - Maximum number of images to crawl (default: 5)
- * @returns {Promise<string[]>} - Array of image URLs
+ * @param {number} maxImages - Maximum number of products to crawl (default: 5)
+ * @returns {Promise<object[]>} - Products (see parsers.js), imageUrl not downloaded yet
  */
-async function crawlEtsyImages(keyword, maxImages = 5) {
+async function crawlEtsyProducts(keyword, maxImages = 5) {
   console.log(`[Etsy Crawler] Starting for keyword: "${keyword}"`);
   
   const browser = await puppeteer.launch({
@@ -135,9 +136,21 @@ async function crawlEtsyImages(keyword, maxImages = 5) {
       return urls;
     }, maxImages);
     
-    console.log(`[Etsy Crawler] Found ${images.length} images`);
+    // Structured products from the rendered page; image-only fallback if the markup changed
+    const products = parseEtsySearch(await page.content(), maxImages);
+    console.log(`[Etsy Crawler] Found ${products.length} products (${images.length} images)`);
     
-    return images;
+    if (products.length > 0) return products;
+    return images.map(imageUrl => ({
+      source: 'etsy',
+      title: '',
+      price: null,
+      currency: null,
+      rating: null,
+      reviewCount: null,
+      url: searchUrl,
+      imageUrl,
+    }));
     
   } catch (error) {
     console.error('[Etsy Crawler] Error:', error.message);
@@ -186,14 +199,14 @@ function downloadImageAsBase64(url) {
   });
 }
 
-module.exports = { crawlEtsyImages, downloadImageAsBase64 };
+module.exports = { crawlEtsyProducts, downloadImageAsBase64 };
 
 // CLI support
 if (require.main === module) {
   const keyword = process.argv[2] || 'cat';
-  crawlEtsyImages(keyword, 5)
-    .then(images => {
-      console.log('Results:', JSON.stringify(images, null, 2));
+  crawlEtsyProducts(keyword, 5)
+    .then(products => {
+      console.log('Results:', JSON.stringify(products, null, 2));
     })
     .catch(err => {
       console.error('Failed:', err);
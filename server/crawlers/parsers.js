@@ -0,0 +1,159 @@
+/**
+ * Parse search result HTML into structured products.
+ * Pure string functions (no puppeteer / DOM) so they can run offline against saved HTML.
+ *
+ * Product shape:
+ * { source, title, price, currency, rating, reviewCount, url, imageUrl }
+ * price / currency / rating / reviewCount are null when missing.
+ */
+
+const ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, code) => {
+    if (code[0] === '#') {
+      const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) ? String.fromCodePoint(point) : match;
+    }
+    return ENTITIES[code.toLowerCase()] ?? match;
+  });
+}
+
+function stripTags(html) {
+  return decodeEntities(html.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+// Split html into chunks starting at each match of `startPattern` (global regex)
+function splitBlocks(html, startPattern) {
+  const starts = [];
+  let match;
+  while ((match = startPattern.exec(html)) !== null) starts.push(match.index);
+  return starts.map((start, i) => html.slice(start, starts[i + 1] ?? html.length));
+}
+
+function firstMatch(html, pattern) {
+  const match = html.match(pattern);
+  return match ? decodeEntities(match[1]).trim() : null;
+}
+
+// "1,234" → 1234, "1.2k" → 1200
+function parseCount(text) {
+  if (!text) return null;
+  const match = text.replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*([km])?/i);
+  if (!match) return null;
+  const multiplier = { k: 1000, m: 1000000 }[(match[2] || '').toLowerCase()] || 1;
+  return Math.round(parseFloat(match[1]) * multiplier);
+}
+
+function parseNumber(text) {
+  if (!text) return null;
+  const number = parseFloat(text.replace(/,/g, ''));
+  return Number.isFinite(number) ? number : null;
+}
+
+const CURRENCY_SYMBOLS = { '$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY' };
+
+// "$19.99" → { price: 19.99, currency: 'USD' }
+function parsePrice(text) {
+  if (!text) return { price: null, currency: null };
+  const symbol = text.match(/[$€£¥]/);
+  const code = text.match(/\b([A-Z]{3})\b/);
+  return {
+    price: parseNumber((text.match(/\d[\d,]*(?:\.\d+)?/) || [])[0]),
+    currency: symbol ? CURRENCY_SYMBOLS[symbol[0]] : code ? code[1] : null,
+  };
+}
+
+// Larger image variants (same rewrite the crawlers used before)
+const amazonHiRes = src => src.replace(/\._AC_[^.]+\./, '._AC_SX679_.');
+const etsyHiRes = src => src.replace(/il_\d+x\d+N?/, 'il_794xN');
+
+/**
+ * Amazon search page: one product per `data-component-type="s-search-result"` block
+ * @param {string} html
+ * @param {number} max
+ */
+function parseAmazonSearch(html, max = 20) {
+  const products = [];
+  const seen = new Set();
+  for (const block of splitBlocks(html, /<div[^>]+data-component-type="s-search-result"/g)) {
+    if (products.length >= max) break;
+    const asin = firstMatch(block, /data-asin="([A-Z0-9]{10})"/);
+    const imageTag = (block.match(/<img[^>]*class="[^"]*\bs-image\b[^"]*"[^>]*>/) || [])[0];
+    const imageUrl = imageTag && firstMatch(imageTag, /\ssrc="([^"]+)"/);
+    if (!asin || !imageUrl || imageUrl.startsWith('data:') || seen.has(asin)) continue;
+    seen.add(asin);
+
+    const heading = firstMatch(block, /<h2[^>]*>([\s\S]*?)<\/h2>/);
+    const title = (heading && stripTags(heading)) || firstMatch(imageTag, /\salt="([^"]*)"/) || '';
+    const { price, currency } = parsePrice(firstMatch(block, /<span class="a-offscreen">([^<]+)<\/span>/));
+    const rating = parseNumber(firstMatch(block, /(\d(?:\.\d)?) out of 5 stars/));
+    const reviewCount = parseCount(
+      firstMatch(block, /aria-label="([\d,.]+[km]?) ratings?"/i) ||
+      firstMatch(block, /<span class="a-size-base s-underline-text">([^<]+)<\/span>/)
+    );
+
+    products.push({
+      source: 'amazon',
+      title,
+      price,
+      currency,
+      rating,
+      reviewCount,
+      url: `https://www.amazon.com/dp/${asin}`,
+      imageUrl: amazonHiRes(imageUrl),
+    });
+  }
+  return products;
+}
+
+/**
+ * Etsy search page: one product per listing card (`data-listing-id`)
+ * @param {string} html
+ * @param {number} max
+ */
+function parseEtsySearch(html, max = 20) {
+  // A card repeats data-listing-id on nested elements (link, favorite button): merge chunks per listing
+  const cards = new Map();
+  for (const block of splitBlocks(html, /<(?:div|li|a|button)[^>]+data-listing-id="\d+"/g)) {
+    const listingId = firstMatch(block, /data-listing-id="(\d+)"/);
+    cards.set(listingId, (cards.get(listingId) || '') + block);
+  }
+
+  const products = [];
+  for (const [listingId, block] of cards) {
+    if (products.length >= max) break;
+    const imageUrl = firstMatch(block, /<img[^>]*\s(?:src|data-src)="(https:\/\/i\.etsystatic\.com\/[^"]*il_[^"]+)"/);
+    if (!imageUrl) continue;
+
+    const heading = firstMatch(block, /<h3[^>]*>([\s\S]*?)<\/h3>/);
+    const title = (heading && stripTags(heading)) || firstMatch(block, /<a[^>]*\stitle="([^"]+)"/) || '';
+    const currencySymbol = firstMatch(block, /<span class="currency-symbol">([^<]+)<\/span>/) || '';
+    const currencyValue = firstMatch(block, /<span class="currency-value">([^<]+)<\/span>/);
+    const { price, currency } = parsePrice(currencyValue && `${currencySymbol}${currencyValue}`);
+    const rating = parseNumber(
+      firstMatch(block, /data-rating="([\d.]+)"/) ||
+      firstMatch(block, /(\d(?:\.\d+)?) out of 5 stars/) ||
+      firstMatch(block, /(\d(?:\.\d+)?) star rating/)
+    );
+    const reviewCount = parseCount(
+      firstMatch(block, /with ([\d,.]+k?) reviews/i) ||
+      firstMatch(block, />\s*\(([\d,.]+k?)\)\s*</i)
+    );
+    const href = firstMatch(block, /href="(https:\/\/www\.etsy\.com\/(?:[a-z-]+\/)?listing\/\d+[^"?]*)/);
+
+    products.push({
+      source: 'etsy',
+      title,
+      price,
+      currency,
+      rating,
+      reviewCount,
+      url: href || `https://www.etsy.com/listing/${listingId}`,
+      imageUrl: etsyHiRes(imageUrl),
+    });
+  }
+  return products;
+}
+
+module.exports = { parseAmazonSearch, parseEtsySearch, decodeEntities };
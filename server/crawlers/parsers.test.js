@@ -0,0 +1,122 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { parseAmazonSearch, parseEtsySearch } = require('./parsers');
+
+const fixture = name => fs.readFileSync(path.join(__dirname, '__fixtures__', name), 'utf8');
+
+test('parseAmazonSearch extracts structured products', () => {
+  const products = parseAmazonSearch(fixture('amazon-search.html'));
+  assert.deepEqual(products, [
+    {
+      source: 'amazon',
+      title: 'Funny Cat Hawaiian Shirt for Men & Women, Tropical Aloha Button Down',
+      price: 24.99,
+      currency: 'USD',
+      rating: 4.6,
+      reviewCount: 1234,
+      url: 'https://www.amazon.com/dp/B0CATSHRT1',
+      imageUrl: 'https://m.media-amazon.com/images/I/71catA1._AC_SX679_.jpg',
+    },
+    {
+      source: 'amazon',
+      title: 'Cat Paw Aloha Shirt, Short Sleeve',
+      price: 1019.5,
+      currency: 'USD',
+      rating: 4,
+      reviewCount: 87,
+      url: 'https://www.amazon.com/dp/B0CATSHRT2',
+      imageUrl: 'https://m.media-amazon.com/images/I/61catB2._AC_SX679_.jpg',
+    },
+    {
+      source: 'amazon',
+      title: 'New Release Kitten Shirt',
+      price: null,
+      currency: null,
+      rating: null,
+      reviewCount: null,
+      url: 'https://www.amazon.com/dp/B0CATSHRT3',
+      imageUrl: 'https://m.media-amazon.com/images/I/81catC3._AC_SX679_.jpg',
+    },
+    {
+      source: 'amazon',
+      title: 'Cat Mom Shirt',
+      price: 19.95,
+      currency: 'USD',
+      rating: 4.8,
+      reviewCount: 2300,
+      url: 'https://www.amazon.com/dp/B0CATSHRT4',
+      imageUrl: 'https://m.media-amazon.com/images/I/91catD4._AC_SX679_.jpg',
+    },
+  ]);
+});
+
+test('parseAmazonSearch skips repeated ASINs and lazy-loaded placeholders', () => {
+  const urls = parseAmazonSearch(fixture('amazon-search.html')).map(p => p.url);
+  assert.equal(urls.filter(url => url.endsWith('B0CATSHRT1')).length, 1);
+  assert.ok(!urls.some(url => url.endsWith('B0LAZYLOAD')));
+});
+
+test('parseAmazonSearch stops at max', () => {
+  const products = parseAmazonSearch(fixture('amazon-search.html'), 2);
+  assert.deepEqual(products.map(p => p.url), ['https://www.amazon.com/dp/B0CATSHRT1', 'https://www.amazon.com/dp/B0CATSHRT2']);
+});
+
+test('parseEtsySearch extracts structured products', () => {
+  const products = parseEtsySearch(fixture('etsy-search.html'));
+  assert.deepEqual(products, [
+    {
+      source: 'etsy',
+      title: 'Cat Hawaiian Shirt, Tropical Cat Lover Gift & Aloha Button Up',
+      price: 32.5,
+      currency: 'USD',
+      rating: 4.9,
+      reviewCount: 2345,
+      url: 'https://www.etsy.com/listing/1234567890/cat-hawaiian-shirt-tropical',
+      imageUrl: 'https://i.etsystatic.com/12345/r/il/abcdef/5550001/il_794xN.5550001_xyz.jpg',
+    },
+    {
+      source: 'etsy',
+      title: 'Kitten Aloha Shirt',
+      price: 18,
+      currency: 'GBP',
+      rating: 4.5,
+      reviewCount: 1200,
+      url: 'https://www.etsy.com/uk/listing/2222222222/kitten-aloha-shirt',
+      imageUrl: 'https://i.etsystatic.com/22222/c/1000/800/0/0/il/fedcba/6660002/il_794xN.6660002_abc.jpg',
+    },
+    {
+      source: 'etsy',
+      title: 'Plain Cat Tee',
+      price: null,
+      currency: null,
+      rating: null,
+      reviewCount: null,
+      url: 'https://www.etsy.com/listing/3333333333/plain-cat-tee',
+      imageUrl: 'https://i.etsystatic.com/33333/r/il/aaaaaa/7770003/il_794xN.7770003_def.jpg',
+    },
+    {
+      source: 'etsy',
+      title: 'Cat Dad Shirt',
+      price: 21,
+      currency: 'USD',
+      rating: null,
+      reviewCount: null,
+      url: 'https://www.etsy.com/listing/5555555555/cat-dad-shirt',
+      imageUrl: 'https://i.etsystatic.com/55555/r/il/bbbbbb/8880005/il_794xN.8880005_ghi.jpg',
+    },
+  ]);
+});
+
+test('parseEtsySearch merges repeated listing ids and skips cards without an Etsy image', () => {
+  const urls = parseEtsySearch(fixture('etsy-search.html')).map(p => p.url);
+  assert.equal(urls.filter(url => url.includes('/1234567890/')).length, 1);
+  assert.ok(!urls.some(url => url.includes('/4444444444/')));
+});
+
+test('parseEtsySearch stops at max', () => {
+  const products = parseEtsySearch(fixture('etsy-search.html'), 1);
+  assert.equal(products.length, 1);
+  assert.equal(products[0].title, 'Cat Hawaiian Shirt, Tropical Cat Lover Gift & Aloha Button Up');
+});
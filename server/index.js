@@ -349,7 +349,27 @@ try {
   console.log('⚠️ Crawlers not loaded:', err.message);
 }
 
-// Crawl Amazon images
+// Download each product image as base64; products whose image fails are dropped
+async function attachImages(crawler, products) {
+  const withImages = await Promise.all(
+    products.map(product => crawler.downloadImageAsBase64(product.imageUrl)
+      .then(image => ({ ...product, image }))
+      .catch(() => null))
+  );
+  return withImages.filter(Boolean);
+}
+
+// `images` is kept alongside `products` for older clients
+function sendProducts(res, keyword, products) {
+  res.json({
+    success: true,
+    keyword,
+    products,
+    images: products.map(p => p.image)
+  });
+}
+
+// Crawl Amazon products
 app.post('/api/crawl/amazon', async (req, res) => {
   const { keyword, maxImages = 5 } = req.body;
   
@@ -363,25 +383,15 @@ app.post('/api/crawl/amazon', async (req, res) => {
   
   try {
     console.log(`🔍 Crawling Amazon for: "${keyword}"`);
-    const imageUrls = await amazonCrawler.crawlAmazonImages(keyword, maxImages);
-    
-    // Convert URLs to base64
-    const images = await Promise.all(
-      imageUrls.map(url => amazonCrawler.downloadImageAsBase64(url).catch(() => null))
-    );
-    
-    res.json({ 
-      success: true, 
-      keyword,
-      images: images.filter(Boolean)
-    });
+    const products = await amazonCrawler.crawlAmazonProducts(keyword, maxImages);
+    sendProducts(res, keyword, await attachImages(amazonCrawler, products));
   } catch (error) {
     console.error('❌ Amazon crawl error:', error);
     res.status(500).json({ error: error.message });
   }
 });
 
-// Crawl Etsy images
+// Crawl Etsy products
 app.post('/api/crawl/etsy', async (req, res) => {
   const { keyword, maxImages = 5 } = req.body;
   
@@ -395,18 +405,8 @@ app.post('/api/crawl/etsy', async (req, res) => {
   
   try {
     console.log(`🔍 Crawling Etsy for: "${keyword}"`);
-    const imageUrls = await etsyCrawler.crawlEtsyImages(keyword, maxImages);
-    
-    // Convert URLs to base64
-    const images = await Promise.all(
-      imageUrls.map(url => etsyCrawler.downloadImageAsBase64(url).catch(() => null))
-    );
-    
-    res.json({ 
-      success: true, 
-      keyword,
-      images: images.filter(Boolean)
-    });
+    const products = await etsyCrawler.crawlEtsyProducts(keyword, maxImages);
+    sendProducts(res, keyword, await attachImages(etsyCrawler, products));
   } catch (error) {
     console.error('❌ Etsy crawl error:', error);
     res.status(500).json({ error: error.message });
@@ -428,11 +428,8 @@ app.post('/api/crawl/both', async (req, res) => {
     
     if (amazonCrawler) {
       try {
-        const amazonUrls = await amazonCrawler.crawlAmazonImages(keyword, maxImages);
-        results.amazon = await Promise.all(
-          amazonUrls.map(url => amazonCrawler.downloadImageAsBase64(url).catch(() => null))
-        );
-        results.amazon = results.amazon.filter(Boolean);
+        const products = await amazonCrawler.crawlAmazonProducts(keyword, maxImages);
+        results.amazon = await attachImages(amazonCrawler, products);
       } catch (err) {
         console.error('Amazon crawl failed:', err.message);
       }
@@ -440,21 +437,14 @@ app.post('/api/crawl/both', async (req, res) => {
     
     if (etsyCrawler) {
       try {
-        const etsyUrls = await etsyCrawler.crawlEtsyImages(keyword, maxImages);
-        results.etsy = await Promise.all(
-          etsyUrls.map(url => etsyCrawler.downloadImageAsBase64(url).catch(() => null))
-        );
-        results.etsy = results.etsy.filter(Boolean);
+        const products = await etsyCrawler.crawlEtsyProducts(keyword, maxImages);
+        results.etsy = await attachImages(etsyCrawler, products);
       } catch (err) {
         console.error('Etsy crawl failed:', err.message);
       }
     }
     
-    res.json({ 
-      success: true, 
-      keyword,
-      images: [...results.amazon, ...results.etsy]
-    });
+    sendProducts(res, keyword, [...results.amazon, ...results.etsy]);
   } catch (error) {
     console.error('❌ Crawl error:', error);
     res.status(500).json({ error: error.message });
@@ -0,0 +1,207 @@
+import { ResultMode } from "./batchResults";
+
+// Tách nền đơn sắc (đen / trắng / proBackgroundColor) thành PNG trong suốt bằng color key.
+// Chạy hoàn toàn trên canvas, không gọi AI.
+
+export interface BackgroundRemovalOptions {
+  tolerance?: number; // Khoảng cách màu (RGB, 0..441) coi là nền tuyệt đối
+  softness?: number; // Dải chuyển tiếp phía ngoài tolerance - alpha tăng dần
+  feather?: number; // Bán kính làm mềm viền alpha (px)
+  removeHoles?: boolean; // Xóa cả vùng nền bị bao kín bên trong họa tiết (lỗ chữ O, khe hở...)
+  minHoleArea?: number; // Tỉ lệ diện tích tối thiểu của lỗ (so với ảnh) - nhỏ hơn coi là chi tiết thiết kế
+}
+
+/**
+ * Màu nền mà prompt của từng mode yêu cầu; pattern / tile là ảnh tràn viền nên không tách nền
+ */
+export const getBackgroundKeyColor = (mode: ResultMode, proBackgroundColor?: string): string | null => {
+  if (mode === 'white') return '#FFFFFF';
+  if (mode === 'pro') return proBackgroundColor || '#000000';
+  if (mode === 'normal') return '#000000';
+  return null;
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.crossOrigin = "anonymous";
+  img.onload = () => resolve(img);
+  img.onerror = reject;
+  img.src = src;
+});
+
+const parseHex = (hex: string): [number, number, number] => {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value;
+  return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16) || 0) as [number, number, number];
+};
+
+const colorDistance = (data: Uint8ClampedArray, i: number, key: [number, number, number]) => {
+  const dr = data[i] - key[0];
+  const dg = data[i + 1] - key[1];
+  const db = data[i + 2] - key[2];
+  return Math.sqrt(dr * dr + dg * dg + db * db);
+};
+
+/**
+ * AI hiếm khi trả về đúng mã màu tuyệt đối, nên lấy trung vị các pixel viền gần màu yêu cầu làm màu key thực tế
+ */
+const estimateKeyColor = (data: Uint8ClampedArray, width: number, height: number, expected: [number, number, number]): [number, number, number] => {
+  const samples: Array<[number, number, number]> = [];
+  const take = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    if (colorDistance(data, i, expected) < 96) samples.push([data[i], data[i + 1], data[i + 2]]);
+  };
+  for (let x = 0; x < width; x += 2) { take(x, 0); take(x, height - 1); }
+  for (let y = 0; y < height; y += 2) { take(0, y); take(width - 1, y); }
+  if (samples.length < 16) return expected;
+  const median = (c: number) => samples.map(s => s[c]).sort((a, b) => a - b)[Math.floor(samples.length / 2)];
+  return [median(0), median(1), median(2)];
+};
+
+/**
+ * Gán nhãn các vùng liền nhau (4 hướng) của pixel thỏa `inside`. Trả về nhãn từng pixel và diện tích từng vùng.
+ */
+const labelRegions = (width: number, height: number, inside: (p: number) => boolean) => {
+  const labels = new Int32Array(width * height).fill(-1);
+  const areas: number[] = [];
+  const touchesBorder: boolean[] = [];
+  const stack: number[] = [];
+  for (let start = 0; start < labels.length; start++) {
+    if (labels[start] !== -1 || !inside(start)) continue;
+    const label = areas.length;
+    let area = 0;
+    let border = false;
+    labels[start] = label;
+    stack.push(start);
+    while (stack.length) {
+      const p = stack.pop()!;
+      area++;
+      const x = p % width;
+      const y = (p - x) / width;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) border = true;
+      const neighbors = [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, y > 0 ? p - width : -1, y < height - 1 ? p + width : -1];
+      for (const n of neighbors) {
+        if (n >= 0 && labels[n] === -1 && inside(n)) {
+          labels[n] = label;
+          stack.push(n);
+        }
+      }
+    }
+    areas.push(area);
+    touchesBorder.push(border);
+  }
+  return { labels, areas, touchesBorder };
+};
+
+// Box blur tách trục cho kênh alpha (0..1)
+const blurAlpha = (alpha: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  if (radius <= 0) return alpha;
+  const size = radius * 2 + 1;
+  const temp = new Float32Array(alpha.length);
+  const out = new Float32Array(alpha.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) sum += alpha[y * width + Math.min(width - 1, Math.max(0, x + k))];
+      temp[y * width + x] = sum / size;
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) sum += temp[Math.min(height - 1, Math.max(0, y + k)) * width + x];
+      out[y * width + x] = sum / size;
+    }
+  }
+  return out;
+};
+
+/**
+ * Tách nền theo màu key, trả về PNG trong suốt (data URL).
+ * Chỉ xóa vùng nền nối với mép ảnh (và các lỗ đủ lớn), nên chi tiết cùng màu nền nằm trong họa tiết được giữ lại.
+ */
+export const removeSolidBackground = async (
+  imageBase64: string,
+  keyColor: string,
+  {
+    tolerance = 28,
+    softness = 40,
+    feather = 1,
+    removeHoles = true,
+    minHoleArea = 0.0005,
+  }: BackgroundRemovalOptions = {}
+): Promise<string> => {
+  const img = await loadImage(imageBase64);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(img, 0, 0);
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const { data } = imageData;
+  const pixelCount = width * height;
+
+  const key = estimateKeyColor(data, width, height, parseHex(keyColor));
+  const distance = new Float32Array(pixelCount);
+  for (let p = 0; p < pixelCount; p++) distance[p] = colorDistance(data, p * 4, key);
+
+  // 1. Vùng nền chắc chắn: nối với mép ảnh, hoặc lỗ kín đủ lớn
+  const { labels, areas, touchesBorder } = labelRegions(width, height, p => distance[p] <= tolerance);
+  const minArea = pixelCount * minHoleArea;
+  const isBackground = (label: number) => label >= 0 && (touchesBorder[label] || (removeHoles && areas[label] >= minArea));
+
+  // 2. Alpha: 0 ở vùng nền, tăng dần ở dải chuyển tiếp sát nền (viền anti-alias), 1 ở phần còn lại
+  let alpha = new Float32Array(pixelCount).fill(1);
+  const queue: number[] = [];
+  const visited = new Uint8Array(pixelCount);
+  for (let p = 0; p < pixelCount; p++) {
+    if (isBackground(labels[p])) {
+      alpha[p] = 0;
+      visited[p] = 1;
+      queue.push(p);
+    }
+  }
+  const edge = tolerance + softness;
+  for (let head = 0; head < queue.length; head++) {
+    const p = queue[head];
+    const x = p % width;
+    const y = (p - x) / width;
+    const neighbors = [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, y > 0 ? p - width : -1, y < height - 1 ? p + width : -1];
+    for (const n of neighbors) {
+      // Lỗ nhỏ cùng màu nền (labels >= 0 nhưng không phải nền) là chi tiết thiết kế - giữ nguyên
+      if (n < 0 || visited[n] || distance[n] >= edge || labels[n] >= 0) continue;
+      visited[n] = 1;
+      alpha[n] = Math.min(1, Math.max(0, (distance[n] - tolerance) / softness));
+      queue.push(n);
+    }
+  }
+
+  // 3. Làm mềm viền, nhưng không để nền tuyệt đối bị kéo lên alpha > 0
+  if (feather > 0) {
+    const blurred = blurAlpha(alpha, width, height, feather);
+    for (let p = 0; p < pixelCount; p++) blurred[p] = alpha[p] > 0 ? Math.min(alpha[p], Math.max(blurred[p], alpha[p] * 0.5)) : 0;
+    alpha = blurred;
+  }
+
+  // 4. Defringe: pixel bán trong suốt đang lẫn màu nền C = a*F + (1-a)*K, khôi phục F
+  for (let p = 0; p < pixelCount; p++) {
+    const a = alpha[p];
+    const i = p * 4;
+    if (a <= 0) {
+      data[i + 3] = 0;
+      continue;
+    }
+    if (a < 1) {
+      const safe = Math.max(a, 0.05);
+      for (let c = 0; c < 3; c++) {
+        data[i + c] = Math.min(255, Math.max(0, Math.round((data[i + c] - (1 - safe) * key[c]) / safe)));
+      }
+    }
+    data[i + 3] = Math.round(a * data[i + 3]);
+  }
+
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png');
+};
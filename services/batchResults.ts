@@ -0,0 +1,95 @@
+import { BatchItem, UpscaledAsset } from "../types";
+import type { IpScreening } from "./ipScreening";
+
+// Liệt kê kết quả của batch theo từng mode, dùng chung cho ZIP, upscale và hiển thị trên card
+
+export type ResultMode = 'normal' | 'pro' | 'white' | 'pattern' | 'tile';
+
+export const RESULT_MODES: Array<{ mode: ResultMode; field: 'resultsNormal' | 'resultsPro' | 'resultsWhite' | 'resultsPattern' | 'resultsTile'; label: string; folder: string }> = [
+  { mode: 'normal', field: 'resultsNormal', label: 'Normal', folder: 'Normal' },
+  { mode: 'pro', field: 'resultsPro', label: 'Pro', folder: 'Pro' },
+  { mode: 'white', field: 'resultsWhite', label: 'White', folder: 'White' },
+  { mode: 'pattern', field: 'resultsPattern', label: 'Pattern', folder: 'Pattern3D' },
+  { mode: 'tile', field: 'resultsTile', label: 'Tile', folder: 'Tile' },
+];
+
+export interface BatchResult {
+  key: string;
+  mode: ResultMode;
+  index: number;
+  image: string;
+}
+
+export const getResultKey = (mode: ResultMode, index: number): string => `${mode}:${index}`;
+
+export const listBatchResults = (batch: BatchItem): BatchResult[] =>
+  RESULT_MODES.flatMap(({ mode, field }) =>
+    batch[field].map((image, index) => ({ key: getResultKey(mode, index), mode, index, image }))
+  );
+
+/**
+ * Bỏ các dữ liệu gắn theo key kết quả của một mode (khi chạy lại mode đó từ đầu, index cũ không còn đúng)
+ */
+export const omitModeEntries = <T>(entries: Record<string, T> | undefined, mode: ResultMode): Record<string, T> | undefined =>
+  entries && Object.fromEntries(Object.entries(entries).filter(([key]) => !key.startsWith(`${mode}:`)));
+
+const omitKeyEntries = <T>(entries: Record<string, T> | undefined, keys: string[]): Record<string, T> | undefined =>
+  entries && Object.fromEntries(Object.entries(entries).filter(([key]) => !keys.includes(key)));
+
+/**
+ * Bỏ bản upscale của các key cũ và giải phóng object URL của chúng (PNG in độ phân giải cao rất nặng)
+ */
+const omitUpscaled = (upscaled: Record<string, UpscaledAsset> | undefined, isStale: (key: string) => boolean): Record<string, UpscaledAsset> | undefined => {
+  if (!upscaled) return upscaled;
+  const kept = Object.entries(upscaled).filter(([key, asset]) => {
+    if (!isStale(key)) return true;
+    URL.revokeObjectURL(asset.url);
+    return false;
+  });
+  return Object.fromEntries(kept);
+};
+
+/**
+ * Bỏ kết quả AI của các output có ảnh đã khác để lần xuất sau soi lại; xác nhận cũ không còn giá trị nếu có gì bị bỏ
+ */
+const omitScreening = (screening: IpScreening | undefined, isStale: (key: string) => boolean): IpScreening | undefined => {
+  if (!screening) return screening;
+  const findings = screening.findings.filter(f => !f.resultKey || !isStale(f.resultKey));
+  const visionKeys = screening.visionKeys.filter(k => !isStale(k));
+  const changed = findings.length !== screening.findings.length || visionKeys.length !== screening.visionKeys.length;
+  return changed ? { ...screening, findings, visionKeys, acknowledgedAt: undefined } : screening;
+};
+
+/**
+ * Dọn mọi dữ liệu gắn theo kết quả của một mode trước khi chạy lại mode đó từ đầu
+ */
+export const resetModeArtifacts = (batch: BatchItem, mode: ResultMode): Partial<BatchItem> => ({
+  upscaled: omitUpscaled(batch.upscaled, key => key.startsWith(`${mode}:`)),
+  cutouts: omitModeEntries(batch.cutouts, mode),
+  seamReports: omitModeEntries(batch.seamReports, mode),
+  qcReports: omitModeEntries(batch.qcReports, mode),
+  duplicateFlags: omitModeEntries(batch.duplicateFlags, mode),
+  reviews: omitModeEntries(batch.reviews, mode),
+  ipScreening: omitScreening(batch.ipScreening, key => key.startsWith(`${mode}:`)),
+});
+
+/**
+ * Dọn dữ liệu gắn theo các kết quả vừa bị thay ảnh (sửa tay, undo / redo, sửa đường nối), kể cả kết quả sàng lọc IP bằng AI; cờ duyệt vẫn giữ
+ */
+export const resetResultArtifacts = (batch: BatchItem, keys: string[]): Partial<BatchItem> => ({
+  upscaled: omitUpscaled(batch.upscaled, key => keys.includes(key)),
+  cutouts: omitKeyEntries(batch.cutouts, keys),
+  seamReports: omitKeyEntries(batch.seamReports, keys),
+  qcReports: omitKeyEntries(batch.qcReports, keys),
+  duplicateFlags: omitKeyEntries(batch.duplicateFlags, keys),
+  ipScreening: omitScreening(batch.ipScreening, key => keys.includes(key)),
+});
+
+/**
+ * Tên file khi xuất, ví dụ "Cat Lover Pattern 2"
+ */
+export const getResultFileName = (batch: BatchItem, result: BatchResult): string => {
+  const cleanName = batch.name.replace(/[^a-zA-Z0-9 ]/g, ' ');
+  const label = RESULT_MODES.find(m => m.mode === result.mode)!.label;
+  return `${cleanName} ${label} ${result.index + 1}`;
+};
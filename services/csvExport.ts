@@ -0,0 +1,57 @@
+import { BatchItem } from "../types";
+
+// Tiện ích xuất CSV (RFC 4180) - mở được trực tiếp bằng Excel / Google Sheets
+
+const escapeCell = (value: string | number | undefined | null): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: Array<Array<string | number | undefined | null>>): string =>
+  rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+
+/**
+ * File tab-delimited (kiểu flat file của Amazon): không có quoting nên tab / xuống dòng trong ô được thay bằng khoảng trắng
+ */
+export const toTsv = (rows: Array<Array<string | number | undefined | null>>): string =>
+  rows.map(row => row.map(value => value === undefined || value === null ? '' : String(value).replace(/[\t\r\n]+/g, ' ')).join('\t')).join('\r\n');
+
+/**
+ * Tải file CSV về máy; thêm BOM để Excel đọc đúng tiếng Việt (UTF-8)
+ */
+export const downloadCsv = (filename: string, csv: string): void => {
+  const blob = new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const INSIGHT_COLUMNS = [
+  'Batch', 'Keyword', 'Design elements', 'Purchase motivations',
+  'Age', 'Gender', 'Education', 'Occupation', 'Income', 'Region', 'Family / Pets', 'Ethnicity / Religion',
+  'Conclusion',
+];
+
+/**
+ * Mỗi batch có insight là một dòng, để so sánh các niche cạnh nhau
+ */
+export const buildInsightsCsv = (batches: BatchItem[]): string => {
+  const rows = batches
+    .filter(b => b.insights)
+    .map(b => {
+      const insight = b.insights!;
+      const p = insight.persona;
+      return [
+        b.name,
+        insight.keyword,
+        insight.designElements.join('\n'),
+        insight.purchaseMotivations.join('\n'),
+        p.age, p.gender, p.education, p.occupation, p.income, p.region, p.familyPets, p.ethnicityReligion,
+        insight.conclusion,
+      ];
+    });
+  return toCsv([INSIGHT_COLUMNS, ...rows]);
+};
@@ -0,0 +1,115 @@
+import { BatchItem } from "../types";
+import { listBatchResults } from "./batchResults";
+import { ImageHashes, NEAR_DUPLICATE_DISTANCE, computeHashes, hashDistance } from "./imageHash";
+
+// Chỉ mục perceptual hash của toàn project: ảnh input, ảnh đối thủ đã crawl và kết quả đã tạo.
+// Dùng để báo ảnh tham chiếu lặp giữa các keyword, kết quả gần như y hệt nhau và kết quả giống ảnh đối thủ (rủi ro copy).
+
+// Ngưỡng rộng hơn một chút cho rủi ro copy: design tạo ra chỉ cần "khá giống" ảnh đối thủ đã đáng xem lại
+export const COPY_RISK_DISTANCE = 14;
+
+export type HashedImageKind = 'reference' | 'competitor' | 'result';
+
+export interface HashedImage {
+  kind: HashedImageKind;
+  batchId: string;
+  batchName: string;
+  key: string; // id của ImageFile, imageUrl của đối thủ, hoặc key kết quả `${mode}:${index}`
+  label: string;
+  preview: string;
+  hashes: ImageHashes;
+}
+
+// Cờ gắn theo key kết quả trên batch
+export interface DuplicateFlag {
+  kind: 'copyRisk' | 'duplicateOutput';
+  batchName: string; // Batch chứa ảnh bị trùng
+  label: string; // Mô tả ảnh bị trùng
+  preview: string;
+  distance: number;
+  checkedAt: number;
+}
+
+export interface HashMatch {
+  entry: HashedImage;
+  distance: number;
+}
+
+/**
+ * Hash mọi ảnh thuộc các loại `kinds` trong project; ảnh không đọc được (CORS, hỏng) bị bỏ qua
+ */
+export const buildHashIndex = async (batches: BatchItem[], kinds: HashedImageKind[] = ['reference', 'competitor', 'result']): Promise<HashedImage[]> => {
+  const sources: Array<Omit<HashedImage, 'hashes'>> = batches.flatMap(batch => [
+    ...(kinds.includes('reference') ? batch.images.map((img, idx) => ({
+      kind: 'reference' as const, batchId: batch.id, batchName: batch.name, key: img.id, label: `Input ${idx + 1}`, preview: img.preview,
+    })) : []),
+    ...(kinds.includes('competitor') ? (batch.competitors || []).filter(c => c.image).map(c => ({
+      kind: 'competitor' as const, batchId: batch.id, batchName: batch.name, key: c.imageUrl, label: `${c.source}: ${c.title || c.url}`, preview: c.image!,
+    })) : []),
+    ...(kinds.includes('result') ? listBatchResults(batch).map(r => ({
+      kind: 'result' as const, batchId: batch.id, batchName: batch.name, key: r.key, label: r.key, preview: r.image,
+    })) : []),
+  ]);
+  const hashed = await Promise.all(sources.map(async source => {
+    try {
+      return { ...source, hashes: await computeHashes(source.preview) };
+    } catch {
+      return null;
+    }
+  }));
+  return hashed.filter((entry): entry is HashedImage => entry !== null);
+};
+
+/**
+ * Ảnh gần nhất trong index (trong ngưỡng), bỏ qua các ảnh `exclude` trả về true
+ */
+export const findNearest = (
+  hashes: ImageHashes,
+  index: HashedImage[],
+  maxDistance = NEAR_DUPLICATE_DISTANCE,
+  exclude: (entry: HashedImage) => boolean = () => false
+): HashMatch | undefined => {
+  let best: HashMatch | undefined;
+  for (const entry of index) {
+    if (exclude(entry)) continue;
+    const distance = hashDistance(hashes, entry.hashes);
+    if (distance <= maxDistance && (!best || distance < best.distance)) best = { entry, distance };
+  }
+  return best;
+};
+
+export const describeMatch = ({ entry }: HashMatch): string =>
+  entry.kind === 'competitor' ? `ảnh đối thủ ${entry.label} (batch "${entry.batchName}")` : `${entry.label} của batch "${entry.batchName}"`;
+
+/**
+ * Kiểm tra một kết quả: giống ảnh đối thủ → copyRisk; y hệt kết quả khác → duplicateOutput
+ */
+export const checkResultDuplicate = async (batch: BatchItem, resultKey: string, image: string, index: HashedImage[]): Promise<DuplicateFlag | undefined> => {
+  const hashes = await computeHashes(image);
+  const isSelf = (entry: HashedImage) => entry.kind === 'result' && entry.batchId === batch.id && entry.key === resultKey;
+  const toFlag = (kind: DuplicateFlag['kind'], match: HashMatch): DuplicateFlag => ({
+    kind,
+    batchName: match.entry.batchName,
+    label: match.entry.label,
+    preview: match.entry.preview,
+    distance: match.distance,
+    checkedAt: Date.now(),
+  });
+
+  const copy = findNearest(hashes, index.filter(e => e.kind === 'competitor'), COPY_RISK_DISTANCE);
+  if (copy) return toFlag('copyRisk', copy);
+  const duplicate = findNearest(hashes, index.filter(e => e.kind === 'result'), NEAR_DUPLICATE_DISTANCE, isSelf);
+  return duplicate && toFlag('duplicateOutput', duplicate);
+};
+
+/**
+ * Quét toàn bộ kết quả của một batch
+ */
+export const scanBatchResults = async (batch: BatchItem, index: HashedImage[]): Promise<Record<string, DuplicateFlag>> => {
+  const flags: Record<string, DuplicateFlag> = {};
+  for (const result of listBatchResults(batch)) {
+    const flag = await checkResultDuplicate(batch, result.key, result.image, index).catch(() => undefined);
+    if (flag) flags[result.key] = flag;
+  }
+  return flags;
+};
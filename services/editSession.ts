@@ -0,0 +1,120 @@
+import { EditSession, EditTurn, EditTurnKind } from "../types";
+import { ContentPart, ConversationTurn, toInlineImage } from "./imageProvider";
+
+// Quản lý edit session: mỗi lượt chỉnh sửa là một node con của lượt đang chọn,
+// nên có thể quay lại lượt bất kỳ và rẽ nhánh từ đó.
+
+// Chỉ gửi lại ảnh của vài lượt gần nhất để request không quá lớn
+const MAX_HISTORY_TURNS = 4;
+
+const createId = () => Math.random().toString(36).substr(2, 9);
+
+export const createEditSession = (
+  image: string,
+  theme: string,
+  kind: EditTurnKind = 'original',
+  prompt: string = ''
+): EditSession => {
+  const root: EditTurn = { id: createId(), parentId: null, kind, prompt, image, createdAt: Date.now() };
+  return { id: createId(), theme, turns: [root], activeTurnId: root.id, createdAt: Date.now() };
+};
+
+export const getActiveTurn = (session: EditSession): EditTurn =>
+  session.turns.find(t => t.id === session.activeTurnId) || session.turns[0];
+
+/**
+ * Tìm session và lượt có ảnh trùng với ảnh đang hiển thị (để tiếp tục session cũ)
+ */
+export const findTurnByImage = (sessions: EditSession[], image: string): { session: EditSession; turn: EditTurn } | null => {
+  for (const session of sessions) {
+    const turn = session.turns.find(t => t.image === image);
+    if (turn) return { session, turn };
+  }
+  return null;
+};
+
+export const selectTurn = (session: EditSession, turnId: string): EditSession => ({ ...session, activeTurnId: turnId });
+
+// Ảnh model trả về chính là turn.image: phần ảnh chỉ giữ vị trí và MIME (data rỗng), dựng lại khi gửi.
+// Base64 thô không có tiền tố data: nên không được tách thành asset khi lưu project.
+const stripModelParts = (parts: ContentPart[]): ContentPart[] =>
+  parts.map(({ text, thought, thoughtSignature, inlineData }) => ({
+    text,
+    thought,
+    thoughtSignature,
+    inlineData: inlineData && { data: '', mimeType: inlineData.mimeType },
+  }));
+
+/**
+ * Thêm lượt mới làm con của lượt đang chọn và chuyển sang lượt mới
+ */
+export const addEditTurn = (session: EditSession, kind: EditTurnKind, prompt: string, image: string, modelParts?: ContentPart[]): EditSession => {
+  const turn: EditTurn = { id: createId(), parentId: session.activeTurnId, kind, prompt, image, modelParts: modelParts && stripModelParts(modelParts), createdAt: Date.now() };
+  return { ...session, turns: [...session.turns, turn], activeTurnId: turn.id };
+};
+
+/**
+ * Đường đi từ pattern gốc đến lượt chỉ định
+ */
+export const getTurnPath = (session: EditSession, turnId: string = session.activeTurnId): EditTurn[] => {
+  const byId = new Map(session.turns.map(t => [t.id, t]));
+  const path: EditTurn[] = [];
+  let current = byId.get(turnId);
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+/**
+ * Các lượt theo thứ tự duyệt cây (DFS) kèm độ sâu - dùng để hiển thị nhánh
+ */
+export const getTurnTree = (session: EditSession): Array<{ turn: EditTurn; depth: number }> => {
+  const result: Array<{ turn: EditTurn; depth: number }> = [];
+  const visit = (parentId: string | null, depth: number) => {
+    session.turns
+      .filter(t => t.parentId === parentId)
+      .forEach(turn => {
+        result.push({ turn, depth });
+        visit(turn.id, depth + 1);
+      });
+  };
+  visit(null, 0);
+  return result;
+};
+
+// Chỉ lượt model còn thoughtSignature mới gửi lại được dưới dạng lượt model
+const canReplay = (turn: EditTurn) => !!turn.modelParts?.some(part => part.thoughtSignature);
+
+/**
+ * Dựng lịch sử hội thoại từ đường đi đến lượt đang chọn: mỗi lượt gồm yêu cầu của user và kết quả.
+ * Kết quả được gửi lại đúng nội dung model đã trả về; lượt cũ không có chữ ký (model khác, bản lưu cũ)
+ * thì ảnh kết quả đi kèm lượt user như ảnh tham chiếu. Lượt masked edit chỉ sửa một vùng cắt nên chỉ giữ lại yêu cầu.
+ */
+export const buildConversation = (session: EditSession): ConversationTurn[] => {
+  const path = getTurnPath(session);
+  const edits = path.slice(1);
+  const conversation: ConversationTurn[] = [];
+  edits.forEach((turn, i) => {
+    const withImage = i >= edits.length - MAX_HISTORY_TURNS;
+    conversation.push({
+      role: 'user',
+      parts: [
+        // Lượt đầu kèm pattern gốc để model biết đang chỉnh sửa từ đâu
+        ...(i === 0 && withImage ? [{ inlineData: toInlineImage(path[0].image) }] : []),
+        { text: turn.prompt },
+      ],
+    });
+    if (turn.kind === 'masked' || !withImage) return;
+    if (canReplay(turn)) {
+      conversation.push({ role: 'model', parts: turn.modelParts!.map(part => part.inlineData ? { ...part, inlineData: toInlineImage(turn.image) } : part) });
+    } else {
+      conversation.push({
+        role: 'user',
+        parts: [{ text: 'Kết quả của yêu cầu trên (ảnh tham chiếu):' }, { inlineData: toInlineImage(turn.image) }],
+      });
+    }
+  });
+  return conversation;
+};
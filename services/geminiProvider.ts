@@ -0,0 +1,118 @@
+import { GoogleGenAI, GenerateContentResponse, Schema } from "@google/genai";
+import {
+  ImageProvider,
+  ModelTier,
+  InlineImage,
+  AspectRatio,
+  ImageSize,
+  ImageResult,
+  ConversationTurn,
+  ContentPart,
+} from "./imageProvider";
+
+const IMAGE_MODELS: Record<ModelTier, string> = {
+  fast: 'gemini-2.5-flash-image',
+  pro: 'gemini-3-pro-image-preview',
+};
+
+const TEXT_MODELS: Record<ModelTier, string> = {
+  fast: 'gemini-3-flash-preview',
+  pro: 'gemini-3-flash-preview',
+};
+
+const getClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+const toPart = (image: InlineImage) => ({
+  inlineData: { data: image.data, mimeType: image.mimeType },
+});
+
+// Gộp các lượt user liền nhau (vd. ảnh tham chiếu của lượt trước + yêu cầu hiện tại) để hội thoại luân phiên user / model
+const mergeUserTurns = (turns: ConversationTurn[]): ConversationTurn[] =>
+  turns.reduce<ConversationTurn[]>((merged, turn) => {
+    const last = merged[merged.length - 1];
+    if (last?.role === 'user' && turn.role === 'user') {
+      merged[merged.length - 1] = { role: 'user', parts: [...last.parts, ...turn.parts] };
+    } else {
+      merged.push(turn);
+    }
+    return merged;
+  }, []);
+
+// Tìm ảnh đầu tiên (inlineData) trong candidates của response
+const extractImage = (response: GenerateContentResponse, model: string): ImageResult => {
+  const parts = response.candidates?.[0]?.content?.parts || [];
+  for (const part of parts) {
+    if (part.inlineData?.data) {
+      return {
+        dataUrl: `data:image/png;base64,${part.inlineData.data}`,
+        mimeType: 'image/png',
+        provider: 'gemini',
+        model,
+        // Giữ nguyên mọi part (kể cả thoughtSignature) để lượt sau gửi lại được
+        modelParts: parts as ContentPart[],
+      };
+    }
+  }
+
+  if (response.candidates?.[0]?.finishReason === 'SAFETY') {
+    throw new Error("Nội dung ảnh bị AI từ chối vì lý do an toàn. Hãy thử ảnh khác.");
+  }
+  throw new Error("AI không trả về kết quả ảnh.");
+};
+
+const requestImage = async (
+  tier: ModelTier,
+  modelOverride: string | undefined,
+  images: InlineImage[],
+  prompt: string,
+  aspectRatio: AspectRatio,
+  imageSize?: ImageSize,
+  signal?: AbortSignal,
+  history: ConversationTurn[] = []
+): Promise<ImageResult> => {
+  const model = modelOverride || IMAGE_MODELS[tier];
+  const imageConfig: { aspectRatio: AspectRatio; imageSize?: ImageSize } = { aspectRatio };
+  // Chỉ model Pro hỗ trợ imageSize
+  if (imageSize && model === IMAGE_MODELS.pro) {
+    imageConfig.imageSize = imageSize;
+  }
+
+  // Có history thì gửi dạng hội thoại nhiều lượt để model nhớ các yêu cầu trước
+  const current: ConversationTurn = { role: 'user', parts: [...images.map(toPart), { text: prompt }] };
+  const response = await getClient().models.generateContent({
+    model,
+    contents: history.length > 0 ? mergeUserTurns([...history, current]) : { parts: current.parts },
+    config: { imageConfig, abortSignal: signal },
+  });
+
+  return extractImage(response, model);
+};
+
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  imageModels: Object.values(IMAGE_MODELS),
+
+  generate: (req) =>
+    requestImage(req.tier, req.model, req.images, req.prompt, req.aspectRatio, req.imageSize, req.signal, req.history),
+
+  edit: (req) =>
+    requestImage(req.tier, req.model, [req.image], req.prompt, req.aspectRatio, req.imageSize, req.signal, req.history),
+
+  clone: (req) =>
+    requestImage(req.tier, req.model, [req.image], req.prompt, req.aspectRatio, req.imageSize, req.signal),
+
+  analyze: async (req) => {
+    const model = req.model || TEXT_MODELS[req.tier];
+    const response = await getClient().models.generateContent({
+      model,
+      contents: {
+        parts: [...req.images.map(toPart), { text: req.prompt }],
+      },
+      config: req.responseSchema
+        ? { abortSignal: req.signal, responseMimeType: 'application/json', responseSchema: req.responseSchema as Schema }
+        : { abortSignal: req.signal },
+    });
+    return { text: response.text || '', provider: 'gemini', model };
+  },
+};
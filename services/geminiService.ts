@@ -1,6 +1,20 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { ImageFile } from "../types";
+import { ImageFile, CustomerInsight, CustomerPersona, ListingCopy, KeywordProposal } from "../types";
+import { getProvider, registerProvider, setActiveProvider, toInlineImage, InlineImage, AspectRatio, ResponseSchema, ConversationTurn, ContentPart } from "./imageProvider";
+import { geminiProvider } from "./geminiProvider";
+import { localProvider } from "./localProvider";
+import { scheduleJob, isAbortError, JobOptions } from "./generationScheduler";
+import { renderPrompt, renderTemplate } from "./promptTemplates";
+import { extractMaskedRegion, compositeMaskedRegion } from "./maskComposite";
+import { describeListingLimits, fitListing } from "./listingCopy";
+import { isRecord } from "./typeGuards";
+
+registerProvider(geminiProvider);
+registerProvider(localProvider);
+// Không có API key thì mặc định chạy offline bằng provider local
+if (!process.env.API_KEY) {
+  setActiveProvider(localProvider.id);
+}
 
 // Hàm chuẩn hóa MIME type để đảm bảo Gemini API chấp nhận
 const getSupportedMimeType = (type: string): string => {
@@ -13,41 +27,72 @@ const getSupportedMimeType = (type: string): string => {
   return 'image/jpeg';
 };
 
-export const generatePodImage = async (
-  images: ImageFile[], 
-  customPrompt?: string, 
-  sourceImageBase64?: string,
-  mode: 'normal' | 'pro' | 'white' | 'pattern' = 'pro',
-  themeName: string = "abstract design",
-  backgroundColor: string = "#000000",
-  isSticker: boolean = false
-): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
+const toImageParts = (images: ImageFile[]): InlineImage[] =>
+  images.map(img => toInlineImage(img.base64, getSupportedMimeType(img.file.type || 'image/jpeg')));
+
+export type GenerationMode = 'normal' | 'pro' | 'white' | 'pattern' | 'tile';
+
+export interface GenerationPromptOptions {
+  customPrompt?: string;
+  themeName?: string;
+  backgroundColor?: string;
+  isSticker?: boolean;
+  hasSourceImage?: boolean;
+  insight?: CustomerInsight; // Có insight thì đưa motif / màu sắc / khách hàng mục tiêu vào prompt
+}
+
+// Ghi đè cấu hình generate theo từng batch
+export interface GenerationOverrides {
+  aspectRatio?: AspectRatio;
+  model?: string;
+  insight?: CustomerInsight;
+}
+
+const COLOR_HINT = /màu|color|colour|palette|tông|tone|pastel|neon|đỏ|xanh|vàng|đen|trắng|hồng|tím|cam|nâu|xám|red|blue|green|yellow|black|white|pink|purple|orange|brown|gr[ae]y|gold/i;
+
+/**
+ * Rút gọn insight thành các gợi ý thiết kế: motif, màu sắc và đối tượng khách hàng
+ */
+export const buildInsightCues = (insight: CustomerInsight): string => {
+  const colors = insight.designElements.filter(e => COLOR_HINT.test(e));
+  const motifs = insight.designElements.filter(e => !COLOR_HINT.test(e));
+  const p = insight.persona;
+  const audience = [
+    p.age && `tuổi ${p.age}`,
+    p.gender,
+    p.occupation,
+    p.region,
+    p.familyPets,
+  ].filter(Boolean).join(', ');
+
+  const lines = ['INSIGHT-DRIVEN DIRECTION (từ phân tích khách hàng):'];
+  if (motifs.length) lines.push(`- Motifs / style: ${motifs.slice(0, 4).join('; ')}`);
+  if (colors.length) lines.push(`- Color preferences: ${colors.slice(0, 3).join('; ')}`);
+  if (audience) lines.push(`- Target audience: ${audience}`);
+  if (insight.purchaseMotivations.length) lines.push(`- Must appeal to: ${insight.purchaseMotivations.slice(0, 3).join('; ')}`);
+  return lines.length > 1 ? lines.join('\n') : '';
+};
+
+export const getDefaultAspectRatio = (mode: GenerationMode): AspectRatio => mode === 'pattern' ? "16:9" : "1:1";
+
+/**
+ * Dựng prompt cuối cùng gửi cho AI - dùng chung cho generate và phần xem trước prompt trên UI
+ */
+export const buildGenerationPrompt = (
+  mode: GenerationMode,
+  {
+    customPrompt,
+    themeName = "abstract design",
+    backgroundColor = "#000000",
+    isSticker = false,
+    hasSourceImage = false,
+    insight,
+  }: GenerationPromptOptions = {}
+): string => {
   const isPro = mode === 'pro';
   const isWhite = mode === 'white';
   const isPattern = mode === 'pattern';
-  
-  // Nâng cấp: white mode giờ đây cũng sử dụng model Pro để có chất lượng 2K
-  const model = (isPro || isPattern || isWhite) ? 'gemini-3-pro-image-preview' : 'gemini-2.5-flash-image';
-  
-  let parts: any[] = [];
-
-  if (sourceImageBase64) {
-    parts.push({
-      inlineData: {
-        data: sourceImageBase64.split(',')[1],
-        mimeType: 'image/png',
-      },
-    });
-  } else if (images.length > 0) {
-    parts = images.map(img => ({
-      inlineData: {
-        data: img.base64.split(',')[1],
-        mimeType: getSupportedMimeType(img.file.type || 'image/jpeg'),
-      },
-    }));
-  }
+  const isTile = mode === 'tile';
 
   let bgStyle = "";
   if (isSticker) {
@@ -64,80 +109,77 @@ export const generatePodImage = async (
     bgStyle = "NỀN ĐEN TUYỀN (#000000) HOÀN TOÀN. Điều này giúp tách lớp họa tiết dễ dàng cho in ấn.";
   }
 
-  const defaultPrompt = `
-    Nhiệm vụ: Bạn là một chuyên gia thiết kế đồ họa đỉnh cao cho thị trường Print on Demand (POD).
-    Hãy tạo ra một tác phẩm nghệ thuật (Asset Design) dựa trên các hình ảnh tham khảo.
-
-    YÊU CẦU KỸ THUẬT & THẨM MỸ:
-    - ${bgStyle}
-    - PHONG CÁCH: Digital Art chuyên nghiệp, Illustration chi tiết.
-    - KHÔNG Mockup, KHÔNG có người mẫu, KHÔNG có vật dụng thừa. Chỉ tập trung vào đối tượng chính.
-    - ĐỘ CHI TIẾT: Cực kỳ cao. Các đường nét sắc sảo.
-    - MÀU SẮC: Hài hòa, sang trọng. Hạn chế hiệu ứng neon quá mức.
-    - CỐ CỤC: Cân đối, phù hợp để in ngay.
-  `;
-
-  const whiteBrgPrompt = `
-    Dựa trên thiết kế này, hãy vẽ lại một phiên bản TƯƠNG TỰ nhưng nằm trên NỀN TRẮNG TINH (#FFFFFF). 
-    Yêu cầu:
-    - Giữ nguyên các chi tiết chính.
-    - Tối ưu màu sắc để nổi bật trên nền trắng.
-    - Tuyệt đối không có mockup hay người mẫu.
-  `;
-
-  const patternPrompt = `Create ONE single finished illustrated artwork for cut-and-sew / all-over print apparel. Theme ${themeName}. Create a full-bleed, fabric-style continuous artwork without borders, margins, or padding, ensuring the design touches all four edges and fills the top and bottom completely without centering vertically or leaving safe margins. The composition must be ONE continuous artwork visually organized into THREE EQUAL VERTICAL AREAS (LEFT / CENTER / RIGHT) of equal width with no background color changes, lines, panels, frames, or visible separations between them. The CENTER area must contain a main action or focal moment on a solid uninterrupted background field where the central subject and integrated small one-line lettering are intentionally SMALL and RESTRAINED, occupying approximately 10% of the total canvas area and positioned exclusively in the center while the upper portion remains visually open but fully filled by the background. The LEFT third must feature a subject close-up or expressive pose with strong visual presence and background texture filling the full height, while the RIGHT third includes themed secondary elements with balanced density filling the full height. The style must be a bold illustrated mascot or graphic style with clean thick outlines and exaggerated expressions, strictly non-photorealistic and non-stock-photo, with background elements flowing vertically or organically in one consistent color palette across the entire canvas. Highlights are allowed only inside illustrated elements. Forbidden elements include technical text, labels, notes, dimensions, diagrams, guides, mockups, unequal thirds, variable gaps, letterbox bars, visible separations, standalone letters, or decorative words unless fully integrated without creating empty space. Output ONE image.`;
-
-  let finalPrompt = "";
+  // White / refine vẽ lại từ ảnh có sẵn nên không cần insight
+  const insightCues = insight && !isWhite && !hasSourceImage ? buildInsightCues(insight) : '';
+  const variables = { bgStyle, keyword: themeName, backgroundColor, customPrompt, insightCues };
+
+  let prompt: string;
   if (isPattern) {
-    finalPrompt = patternPrompt;
+    prompt = renderPrompt('pattern', variables);
+  } else if (isTile) {
+    prompt = renderPrompt('tile', variables);
   } else if (isWhite) {
-    finalPrompt = whiteBrgPrompt;
+    prompt = renderPrompt('white', variables);
+  } else if (hasSourceImage) {
+    prompt = renderPrompt('refine', variables);
   } else {
-    finalPrompt = sourceImageBase64 
-      ? `Hãy tinh chỉnh thiết kế này trở nên chân thực, sắc nét hơn. Hạn chế neon. ${customPrompt || ''}` 
-      : (customPrompt || defaultPrompt);
+    // Custom prompt của batch vẫn được ưu tiên hơn template mặc định, và cũng dùng được biến {{...}}
+    prompt = customPrompt ? renderTemplate(customPrompt, variables) : renderPrompt('design', variables);
   }
+  // Template không đặt {{insightCues}} ở đâu thì nối vào cuối prompt
+  return insightCues && !prompt.includes(insightCues) ? `${prompt}\n\n${insightCues}` : prompt;
+};
 
-  try {
-    const imageConfig: any = {
-      aspectRatio: isPattern ? "16:9" : "1:1"
-    };
-    
-    // Cập nhật imageSize - pattern dùng 1K, pro và white dùng 2K
-    if (isPro || isWhite) {
-      imageConfig.imageSize = "1K";
-    } else if (isPattern) {
-      imageConfig.imageSize = "1K";
-    }
+export const generatePodImage = async (
+  images: ImageFile[], 
+  customPrompt?: string, 
+  sourceImageBase64?: string,
+  mode: GenerationMode = 'pro',
+  themeName: string = "abstract design",
+  backgroundColor: string = "#000000",
+  isSticker: boolean = false,
+  overrides: GenerationOverrides = {},
+  job?: Partial<JobOptions>
+): Promise<string> => {
+  const isPro = mode === 'pro';
+  const isWhite = mode === 'white';
+  const isPattern = mode === 'pattern';
+  const isTile = mode === 'tile';
+  
+  // Nâng cấp: white mode giờ đây cũng sử dụng model Pro để có chất lượng 2K
+  const tier = (isPro || isPattern || isTile || isWhite) ? 'pro' : 'fast';
+  
+  let parts: InlineImage[] = [];
 
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: {
-        parts: [...parts, { text: finalPrompt }],
-      },
-      config: {
-        imageConfig
-      }
-    });
-
-    let base64Image = "";
-    if (response.candidates && response.candidates[0].content.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          base64Image = `data:image/png;base64,${part.inlineData.data}`;
-          break;
-        }
-      }
-    }
+  if (sourceImageBase64) {
+    parts = [toInlineImage(sourceImageBase64)];
+  } else if (images.length > 0) {
+    parts = toImageParts(images);
+  }
 
-    if (!base64Image) {
-      if (response.candidates?.[0]?.finishReason === 'SAFETY') {
-        throw new Error("Nội dung ảnh bị AI từ chối vì lý do an toàn. Hãy thử ảnh khác.");
-      }
-      throw new Error("AI không trả về kết quả ảnh.");
-    }
-    return base64Image;
+  const finalPrompt = buildGenerationPrompt(mode, {
+    customPrompt,
+    themeName,
+    backgroundColor,
+    isSticker,
+    hasSourceImage: !!sourceImageBase64,
+    insight: overrides.insight,
+  });
+
+  try {
+    // Cập nhật imageSize - pattern dùng 1K, pro và white dùng 1K; normal để model tự chọn
+    const result = await scheduleJob((signal) => getProvider().generate({
+      prompt: finalPrompt,
+      images: parts,
+      tier,
+      model: overrides.model,
+      aspectRatio: overrides.aspectRatio || getDefaultAspectRatio(mode),
+      imageSize: (isPro || isWhite || isPattern || isTile) ? "1K" : undefined,
+      signal,
+    }), { label: `Generate ${mode}: ${themeName}`, ...job });
+    return result.dataUrl;
   } catch (error: any) {
+    if (isAbortError(error)) throw error;
     if (error.message.includes("Requested entity was not found")) {
       throw new Error("PRO_KEY_REQUIRED: Vui lòng kết nối API Key trả phí để sử dụng model này.");
     }
@@ -148,256 +190,401 @@ export const generatePodImage = async (
   }
 };
 
-export const analyzeInsights = async (keyword: string, images: ImageFile[]): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  const imageParts = images.map(img => ({
-    inlineData: {
-      data: img.base64.split(',')[1],
-      mimeType: getSupportedMimeType(img.file.type || 'image/jpeg'),
+const PERSONA_FIELDS: Array<keyof CustomerPersona> = [
+  'age', 'gender', 'education', 'occupation', 'income', 'region', 'familyPets', 'ethnicityReligion',
+];
+
+const INSIGHT_SCHEMA: ResponseSchema = {
+  type: 'OBJECT',
+  properties: {
+    keyword: { type: 'STRING' },
+    designElements: { type: 'ARRAY', items: { type: 'STRING' } },
+    purchaseMotivations: { type: 'ARRAY', items: { type: 'STRING' } },
+    persona: {
+      type: 'OBJECT',
+      properties: Object.fromEntries(PERSONA_FIELDS.map(field => [field, { type: 'STRING' }])),
+      required: PERSONA_FIELDS,
     },
-  }));
-
-  const prompt = `
-    Nhiệm vụ: Phân tích insight khách hàng và thiết kế cho sản phẩm POD dựa trên keyword "${keyword}" và các hình ảnh tham khảo đính kèm.
-    Yêu cầu: 
-    - Viết bằng tiếng Việt, súc tích, chuyên nghiệp. 
-    - Giới hạn 3000 ký tự.
-    - TUYỆT ĐỐI KHÔNG sử dụng các ký tự định dạng Markdown như dấu thăng (#) cho tiêu đề hoặc dấu sao (*) cho in đậm/liệt kê. Hãy dùng văn bản thuần túy hoặc các ký tự gạch đầu dòng "-" đơn giản.
-    
-    Cấu trúc đầu ra bắt buộc:
-    Keyword sản phẩm: ${keyword}
-
-    🖌 Phần thiết kế (thông tin chi tiết)
-    (Sử dụng các dòng gạch đầu dòng "-" để phân tích các yếu tố thị giác, phong cách, màu sắc từ hình ảnh tham khảo)
-
-    💡 Phần lý do mua hàng (động lực và nhu cầu)
-    (Sử dụng các dòng gạch đầu dòng "-" để nêu các lý do tâm lý hoặc thực tế khiến khách hàng chọn mẫu này)
-
-    🧍 Chân dung khách hàng
-    - Độ tuổi: 
-    - Giới tính: 
-    - Trình độ giáo dục: 
-    - Nghề nghiệp: 
-    - Mức thu nhập: 
-    - Khu vực sống: 
-    - Tình trạng gia đình / Sở hữu thú nuôi hay không: 
-    - Chủng tộc hoặc tôn giáo (nếu có): 
-
-    Kết luận: (Tóm tắt ngắn gọn cơ hội kinh doanh hoặc lưu ý quan trọng)
-  `;
+    conclusion: { type: 'STRING' },
+  },
+  required: ['keyword', 'designElements', 'purchaseMotivations', 'persona', 'conclusion'],
+};
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: {
-        parts: [...imageParts, { text: prompt }],
-      },
-    });
+// Model đôi khi vẫn bọc JSON trong ```json hoặc thiếu trường - chuẩn hóa về đúng kiểu
+const cleanText = (value: unknown) => String(value ?? '').replace(/[#*]/g, '').trim();
+
+const parseJson = (text: string) => JSON.parse(text.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, ''));
+
+const parseInsight = (text: string, keyword: string): CustomerInsight => {
+  const parsed: unknown = parseJson(text);
+  const raw = isRecord(parsed) ? parsed : {};
+  const toList = (value: unknown) => Array.isArray(value) ? value.map(cleanText).filter(Boolean) : [];
+  const rawPersona = isRecord(raw.persona) ? raw.persona : {};
+  const persona: CustomerPersona = {
+    age: cleanText(rawPersona.age),
+    gender: cleanText(rawPersona.gender),
+    education: cleanText(rawPersona.education),
+    occupation: cleanText(rawPersona.occupation),
+    income: cleanText(rawPersona.income),
+    region: cleanText(rawPersona.region),
+    familyPets: cleanText(rawPersona.familyPets),
+    ethnicityReligion: cleanText(rawPersona.ethnicityReligion),
+  };
+  return {
+    keyword,
+    designElements: toList(raw.designElements),
+    purchaseMotivations: toList(raw.purchaseMotivations),
+    persona,
+    conclusion: cleanText(raw.conclusion),
+  };
+};
+
+export const analyzeInsights = async (
+  keyword: string,
+  images: ImageFile[],
+  job?: Partial<JobOptions>
+): Promise<CustomerInsight> => {
+  const prompt = renderPrompt('insight', { keyword });
 
-    return response.text || "Không thể tạo phân tích vào lúc này.";
+  try {
+    const result = await scheduleJob((signal) => getProvider().analyze({
+      prompt,
+      images: toImageParts(images),
+      tier: 'fast',
+      responseSchema: INSIGHT_SCHEMA,
+      signal,
+    }), { label: `Insight: ${keyword}`, ...job });
+
+    if (!result.text) throw new Error("Không thể tạo phân tích vào lúc này.");
+    return parseInsight(result.text, keyword);
   } catch (error: any) {
+    if (isAbortError(error)) throw error;
+    if (error instanceof SyntaxError) {
+      throw new Error("Lỗi phân tích: AI trả về dữ liệu không đúng định dạng JSON.");
+    }
     throw new Error("Lỗi phân tích: " + error.message);
   }
 };
 
-// Base pattern prompt template - used by all pattern generation functions
-const getPatternPromptTemplate = () => `
-CRITICAL LAYOUT REQUIREMENTS FOR 3D T-SHIRT PATTERN:
-Create a full-bleed, fabric-style continuous artwork in 16:9 aspect ratio without borders, margins, or padding.
-The design must touch all four edges and fill completely without centering or leaving safe margins.
-
-The composition must be ONE continuous artwork visually organized into THREE EQUAL VERTICAL AREAS:
-- LEFT third (33%): Design for BACK of the shirt - feature a subject close-up or expressive pose with strong visual presence
-- CENTER third (33%): Design for FRONT of the shirt - main focal point, intentionally SMALL and RESTRAINED (~10% of canvas area)
-- RIGHT third (33%): Design for SLEEVES (both arms) - themed secondary elements with balanced density
-
-MANDATORY RULES:
-- NO background color changes, lines, panels, frames, or visible separations between sections
-- ONE consistent color palette across the entire canvas
-- Bold illustrated mascot/graphic style with clean thick outlines
-- Strictly non-photorealistic and non-stock-photo
-- Background elements must flow vertically or organically
-- Highlights allowed only inside illustrated elements
-
-FORBIDDEN ELEMENTS:
-- Technical text, labels, notes, dimensions, diagrams, guides
-- Mockups, unequal thirds, variable gaps, letterbox bars
-- Visible separations, standalone letters, decorative words (unless fully integrated)
-`;
-
-// Redesign pattern - chỉnh sửa pattern hiện tại dựa trên prompt
+// Kết quả một lượt chỉnh sửa pattern, kèm nội dung gốc của model để lưu vào edit session
+export interface PatternEdit {
+  image: string;
+  modelParts?: ContentPart[];
+}
+
+// Redesign pattern - chỉnh sửa pattern hiện tại dựa trên prompt (history = các lượt trước của edit session)
 export const redesignPattern = async (
   currentPatternBase64: string,
-  editPrompt: string
-): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  const parts = [{
-    inlineData: {
-      data: currentPatternBase64.split(',')[1],
-      mimeType: 'image/png',
-    },
-  }];
-
-  const prompt = `
-    You are an expert apparel pattern designer. 
-    
-    CURRENT PATTERN is attached. Please EDIT this pattern based on the following request:
-    "${editPrompt}"
-    
-    IMPORTANT: Apply the edit while MAINTAINING the correct pattern structure:
-    ${getPatternPromptTemplate()}
-    
-    - Keep the overall style and color palette consistent with the original
-    - Only modify elements mentioned in the edit request
-    - Output ONE edited pattern image
-  `;
+  editPrompt: string,
+  history: ConversationTurn[] = [],
+  job?: Partial<JobOptions>
+): Promise<PatternEdit> => {
+  const prompt = renderPrompt('redesign', { editPrompt });
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [...parts, { text: prompt }],
-      },
-      config: {
-        imageConfig: {
-          aspectRatio: "16:9"
-        }
-      }
-    });
-
-    let base64Image = "";
-    if (response.candidates && response.candidates[0].content.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          base64Image = `data:image/png;base64,${part.inlineData.data}`;
-          break;
-        }
-      }
-    }
-
-    if (!base64Image) {
-      throw new Error("AI không trả về kết quả ảnh.");
-    }
-    return base64Image;
+    const result = await scheduleJob((signal) => getProvider().edit({
+      prompt,
+      image: toInlineImage(currentPatternBase64),
+      tier: 'fast',
+      aspectRatio: "16:9",
+      history,
+      signal,
+    }), { label: 'Redesign pattern', ...job });
+    return { image: result.dataUrl, modelParts: result.modelParts };
   } catch (error: any) {
+    if (isAbortError(error)) throw error;
     throw new Error("Lỗi Redesign: " + error.message);
   }
 };
 
+// Masked edit - chỉ tạo lại vùng được tô, phần còn lại giữ nguyên từng pixel
+export const editMaskedRegion = async (
+  imageBase64: string,
+  maskDataUrl: string,
+  editPrompt: string,
+  job?: Partial<JobOptions>
+): Promise<string> => {
+  const prompt = renderPrompt('maskedEdit', { editPrompt });
+
+  try {
+    const region = await extractMaskedRegion(imageBase64, maskDataUrl);
+    const result = await scheduleJob((signal) => getProvider().edit({
+      prompt,
+      image: toInlineImage(region.crop),
+      tier: 'fast',
+      aspectRatio: region.aspectRatio,
+      signal,
+    }), { label: 'Masked edit', ...job });
+    return await compositeMaskedRegion(imageBase64, maskDataUrl, result.dataUrl, region.bounds);
+  } catch (error: any) {
+    if (isAbortError(error)) throw error;
+    throw new Error("Lỗi Masked edit: " + error.message);
+  }
+};
+
 // Creative mode - tạo prompt mới từ prompt cũ và yêu cầu chỉnh sửa
 export const creativePattern = async (
   originalTheme: string,
-  editPrompt: string
-): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  const combinedPrompt = `
-    Create ONE single finished illustrated artwork for cut-and-sew / all-over print apparel.
-    
-    ORIGINAL THEME: ${originalTheme}
-    USER MODIFICATION REQUEST: ${editPrompt}
-    
-    Combine the original theme with the user's modification to create a NEW, CREATIVE pattern.
-    
-    ${getPatternPromptTemplate()}
-    
-    Output ONE image.
-  `;
+  editPrompt: string,
+  history: ConversationTurn[] = [],
+  job?: Partial<JobOptions>
+): Promise<PatternEdit> => {
+  const combinedPrompt = renderPrompt('creative', { keyword: originalTheme, editPrompt });
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: {
-        parts: [{ text: combinedPrompt }],
-      },
-      config: {
-        imageConfig: {
-          aspectRatio: "16:9",
-          imageSize: "1K"
-        }
-      }
-    });
-
-    let base64Image = "";
-    if (response.candidates && response.candidates[0].content.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          base64Image = `data:image/png;base64,${part.inlineData.data}`;
-          break;
-        }
-      }
-    }
-
-    if (!base64Image) {
-      throw new Error("AI không trả về kết quả ảnh.");
-    }
-    return base64Image;
+    const result = await scheduleJob((signal) => getProvider().generate({
+      prompt: combinedPrompt,
+      images: [],
+      tier: 'pro',
+      aspectRatio: "16:9",
+      imageSize: "1K",
+      history,
+      signal,
+    }), { label: `Creative: ${originalTheme}`, ...job });
+    return { image: result.dataUrl, modelParts: result.modelParts };
   } catch (error: any) {
+    if (isAbortError(error)) throw error;
     throw new Error("Lỗi Creative: " + error.message);
   }
 };
 
 // Clone mockup to pattern - chuyển từ mockup 3D sang pattern
 export const cloneMockupToPattern = async (
-  mockupImageBase64: string
+  mockupImageBase64: string,
+  job?: Partial<JobOptions>
 ): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  const parts = [{
-    inlineData: {
-      data: mockupImageBase64.split(',')[1],
-      mimeType: 'image/png',
+  const prompt = renderPrompt('clone');
+
+  try {
+    const result = await scheduleJob((signal) => getProvider().clone({
+      prompt,
+      image: toInlineImage(mockupImageBase64),
+      tier: 'pro',
+      aspectRatio: "16:9",
+      imageSize: "1K",
+      signal,
+    }), { label: 'Clone mockup', ...job });
+    return result.dataUrl;
+  } catch (error: any) {
+    if (isAbortError(error)) throw error;
+    throw new Error("Lỗi Clone: " + error.message);
+  }
+};
+
+export interface TextWatermarkResult {
+  hasText: boolean;
+  hasWatermark: boolean;
+  detectedText: string[];
+}
+
+const TEXT_WATERMARK_SCHEMA: ResponseSchema = {
+  type: 'OBJECT',
+  properties: {
+    hasText: { type: 'BOOLEAN', description: 'Có chữ lạ / nhãn / ghi chú kỹ thuật không thuộc thiết kế' },
+    hasWatermark: { type: 'BOOLEAN' },
+    detectedText: { type: 'ARRAY', items: { type: 'STRING' } },
+  },
+  required: ['hasText', 'hasWatermark', 'detectedText'],
+};
+
+// QC bằng AI - soi chữ lạ, nhãn kỹ thuật và watermark trong pattern đã tạo
+export const detectTextAndWatermarks = async (
+  imageBase64: string,
+  job?: Partial<JobOptions>
+): Promise<TextWatermarkResult> => {
+  try {
+    const result = await scheduleJob((signal) => getProvider().analyze({
+      prompt: renderPrompt('qcVision'),
+      images: [toInlineImage(imageBase64)],
+      tier: 'fast',
+      responseSchema: TEXT_WATERMARK_SCHEMA,
+      signal,
+    }), { label: 'QC: text & watermark', ...job });
+    const raw = parseJson(result.text || '{}');
+    return {
+      hasText: raw.hasText === true,
+      hasWatermark: raw.hasWatermark === true,
+      detectedText: Array.isArray(raw.detectedText) ? raw.detectedText.map(cleanText).filter(Boolean) : [],
+    };
+  } catch (error: any) {
+    if (isAbortError(error)) throw error;
+    throw new Error("Lỗi QC: " + error.message);
+  }
+};
+
+export interface BrandDetection {
+  name: string;
+  kind: 'logo' | 'character' | 'franchise';
+  confidence: number;
+}
+
+const BRAND_KINDS: Array<BrandDetection['kind']> = ['logo', 'character', 'franchise'];
+
+const BRAND_DETECTION_SCHEMA: ResponseSchema = {
+  type: 'OBJECT',
+  properties: {
+    findings: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          name: { type: 'STRING' },
+          kind: { type: 'STRING', enum: BRAND_KINDS },
+          confidence: { type: 'NUMBER' },
+        },
+        required: ['name', 'kind', 'confidence'],
+      },
     },
-  }];
-
-  const prompt = `
-    Analyze this T-shirt mockup/design image and RECREATE it as a FLAT PATTERN for cut-and-sew / all-over print production.
-    
-    YOUR TASK:
-    1. Extract the design/artwork/style from the input image
-    2. Recreate it following the EXACT pattern structure below
-    
-    ${getPatternPromptTemplate()}
-    
-    ADDITIONAL REQUIREMENTS:
-    - Match the style, colors, and theme from the input image as closely as possible
-    - If input is a mockup, extract only the design elements (ignore the shirt/model)
-    - If input is already a pattern/design, adapt it to fit the 3-section layout
-    
-    Output ONE 16:9 pattern image.
-  `;
+  },
+  required: ['findings'],
+};
 
+// Sàng lọc IP bằng AI - tìm logo, thương hiệu, nhân vật có bản quyền trong ảnh output
+export const detectBrandsAndCharacters = async (
+  imageBase64: string,
+  job?: Partial<JobOptions>
+): Promise<BrandDetection[]> => {
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: {
-        parts: [...parts, { text: prompt }],
+    const result = await scheduleJob((signal) => getProvider().analyze({
+      prompt: renderPrompt('ipVision'),
+      images: [toInlineImage(imageBase64)],
+      tier: 'fast',
+      responseSchema: BRAND_DETECTION_SCHEMA,
+      signal,
+    }), { label: 'IP: brands & characters', ...job });
+    const raw = parseJson(result.text || '{}');
+    const findings: unknown[] = Array.isArray(raw.findings) ? raw.findings : [];
+    return findings
+      .filter(isRecord)
+      .map((f): BrandDetection => ({
+        name: cleanText(f.name),
+        kind: BRAND_KINDS.find(kind => kind === f.kind) ?? 'logo',
+        confidence: Math.min(1, Math.max(0, Number(f.confidence) || 0)),
+      }))
+      .filter(f => f.name);
+  } catch (error: any) {
+    if (isAbortError(error)) throw error;
+    throw new Error("Lỗi IP check: " + error.message);
+  }
+};
+
+const LISTING_SCHEMA: ResponseSchema = {
+  type: 'OBJECT',
+  properties: {
+    amazon: {
+      type: 'OBJECT',
+      properties: {
+        brand: { type: 'STRING' },
+        title: { type: 'STRING' },
+        bullets: { type: 'ARRAY', items: { type: 'STRING' } },
+        description: { type: 'STRING' },
       },
-      config: {
-        imageConfig: {
-          aspectRatio: "16:9",
-          imageSize: "1K"
-        }
-      }
-    });
-
-    let base64Image = "";
-    if (response.candidates && response.candidates[0].content.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          base64Image = `data:image/png;base64,${part.inlineData.data}`;
-          break;
-        }
-      }
-    }
+      required: ['brand', 'title', 'bullets', 'description'],
+    },
+    etsy: {
+      type: 'OBJECT',
+      properties: {
+        title: { type: 'STRING' },
+        tags: { type: 'ARRAY', items: { type: 'STRING' } },
+        description: { type: 'STRING' },
+      },
+      required: ['title', 'tags', 'description'],
+    },
+  },
+  required: ['amazon', 'etsy'],
+};
 
-    if (!base64Image) {
-      throw new Error("AI không trả về kết quả ảnh.");
+// Viết listing (title, bullet, mô tả, tag) cho Amazon Merch / Etsy từ keyword, insight và ảnh thiết kế đã chọn
+export const generateListingCopy = async (
+  keyword: string,
+  designImageBase64: string,
+  insight?: CustomerInsight,
+  job?: Partial<JobOptions>
+): Promise<ListingCopy> => {
+  const prompt = renderPrompt('listing', {
+    keyword,
+    insightCues: insight ? buildInsightCues(insight) : '',
+    limits: describeListingLimits(),
+  });
+
+  try {
+    const result = await scheduleJob((signal) => getProvider().analyze({
+      prompt,
+      images: [toInlineImage(designImageBase64)],
+      tier: 'fast',
+      responseSchema: LISTING_SCHEMA,
+      signal,
+    }), { label: `Listing: ${keyword}`, ...job });
+
+    if (!result.text) throw new Error("Không thể viết listing vào lúc này.");
+    return fitListing(parseJson(result.text));
+  } catch (error: any) {
+    if (isAbortError(error)) throw error;
+    if (error instanceof SyntaxError) {
+      throw new Error("Lỗi viết listing: AI trả về dữ liệu không đúng định dạng JSON.");
     }
-    return base64Image;
+    throw new Error("Lỗi viết listing: " + error.message);
+  }
+};
+
+const KEYWORD_KINDS: Array<KeywordProposal['kind']> = ['subNiche', 'audience', 'occasion'];
+
+const KEYWORD_EXPANSION_SCHEMA: ResponseSchema = {
+  type: 'OBJECT',
+  properties: {
+    proposals: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          keyword: { type: 'STRING' },
+          kind: { type: 'STRING', enum: KEYWORD_KINDS },
+          rationale: { type: 'STRING' },
+        },
+        required: ['keyword', 'kind', 'rationale'],
+      },
+    },
+  },
+  required: ['proposals'],
+};
+
+// Mở rộng một niche gốc thành các sub-niche, nhóm khách hàng và dịp tặng quà liên quan
+export const expandNicheKeywords = async (
+  seed: string,
+  existing: string[] = [],
+  count: number = 15,
+  job?: Partial<JobOptions>
+): Promise<KeywordProposal[]> => {
+  const prompt = renderPrompt('keywordExpand', {
+    seed,
+    count: String(count),
+    existing: existing.length ? existing.join('; ') : '(none)',
+  });
+
+  try {
+    const result = await scheduleJob((signal) => getProvider().analyze({
+      prompt,
+      images: [],
+      tier: 'fast',
+      responseSchema: KEYWORD_EXPANSION_SCHEMA,
+      signal,
+    }), { label: `Expand: ${seed}`, ...job });
+
+    const raw = parseJson(result.text || '{}');
+    const proposals: unknown[] = Array.isArray(raw.proposals) ? raw.proposals : [];
+    return proposals
+      .filter(isRecord)
+      .map((p): KeywordProposal => ({
+        keyword: cleanText(p.keyword),
+        kind: KEYWORD_KINDS.find(kind => kind === p.kind) ?? 'subNiche',
+        rationale: cleanText(p.rationale),
+      }))
+      .filter(p => p.keyword);
   } catch (error: any) {
-    throw new Error("Lỗi Clone: " + error.message);
+    if (isAbortError(error)) throw error;
+    if (error instanceof SyntaxError) {
+      throw new Error("Lỗi mở rộng keyword: AI trả về dữ liệu không đúng định dạng JSON.");
+    }
+    throw new Error("Lỗi mở rộng keyword: " + error.message);
   }
 };
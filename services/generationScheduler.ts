@@ -0,0 +1,235 @@
+// Hàng đợi trung tâm cho mọi lệnh gọi AI: giới hạn số lệnh chạy song song,
+// tự retry với exponential backoff khi gặp lỗi quota (429) hoặc lỗi server (5xx).
+// Hỗ trợ tạm dừng (không phát thêm job mới) và hủy job qua AbortSignal.
+
+export type JobStatus = 'pending' | 'running' | 'retrying' | 'failed' | 'cancelled' | 'done';
+
+export interface SchedulerJob {
+  id: string;
+  label: string;
+  batchId?: string;
+  status: JobStatus;
+  attempts: number;
+  error?: string;
+  nextRetryAt?: number;
+  createdAt: number;
+}
+
+export interface SchedulerConfig {
+  concurrency: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface JobOptions {
+  label: string;
+  batchId?: string;
+  signal?: AbortSignal;
+}
+
+interface QueueEntry {
+  job: SchedulerJob;
+  run: (signal?: AbortSignal) => Promise<unknown>;
+  signal?: AbortSignal;
+  resolve: (value: unknown) => void; // Nhận kết quả của run, scheduleJob ép lại về T
+  reject: (reason: unknown) => void;
+}
+
+// Giữ lại tối đa bấy nhiêu job đã xong trong danh sách hiển thị
+const MAX_FINISHED_JOBS = 50;
+
+let config: SchedulerConfig = {
+  concurrency: 2,
+  maxRetries: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 60000,
+};
+
+const queue: QueueEntry[] = [];
+let jobs: SchedulerJob[] = [];
+let runningCount = 0;
+let paused = false;
+const listeners = new Set<(jobs: SchedulerJob[]) => void>();
+
+const notify = () => {
+  const snapshot = jobs.map(j => ({ ...j }));
+  listeners.forEach(listener => listener(snapshot));
+};
+
+const updateJob = (id: string, patch: Partial<SchedulerJob>) => {
+  jobs = jobs.map(j => j.id === id ? { ...j, ...patch } : j);
+  notify();
+};
+
+const pruneFinished = () => {
+  const finished = jobs.filter(j => j.status === 'done' || j.status === 'cancelled');
+  if (finished.length <= MAX_FINISHED_JOBS) return;
+  const dropIds = new Set(finished.slice(0, finished.length - MAX_FINISHED_JOBS).map(j => j.id));
+  jobs = jobs.filter(j => !dropIds.has(j.id));
+};
+
+export const createAbortError = () => {
+  const error = new Error('Đã dừng theo yêu cầu.');
+  error.name = 'AbortError';
+  return error;
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+const cancelEntry = (entry: QueueEntry) => {
+  updateJob(entry.job.id, { status: 'cancelled', nextRetryAt: undefined });
+  pruneFinished();
+  entry.reject(createAbortError());
+};
+
+/**
+ * Lỗi tạm thời (quota, rate limit, server quá tải) thì đáng retry.
+ * Lỗi nội dung / định dạng / key thì retry cũng vô ích.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|INTERNAL|DEADLINE_EXCEEDED|quota|rate limit|overloaded/i.test(message);
+};
+
+const getRetryDelay = (attempt: number) => {
+  const exponential = config.baseDelayMs * Math.pow(2, attempt - 1);
+  const jitter = Math.random() * config.baseDelayMs;
+  return Math.min(config.maxDelayMs, exponential + jitter);
+};
+
+const pump = () => {
+  while (!paused && runningCount < config.concurrency && queue.length > 0) {
+    const entry = queue.shift()!;
+    if (entry.signal?.aborted) {
+      cancelEntry(entry);
+      continue;
+    }
+    runEntry(entry);
+  }
+};
+
+const runEntry = async (entry: QueueEntry) => {
+  const { job } = entry;
+  runningCount++;
+  job.attempts++;
+  updateJob(job.id, { status: 'running', attempts: job.attempts, nextRetryAt: undefined });
+
+  try {
+    const value = await entry.run(entry.signal);
+    if (entry.signal?.aborted) throw createAbortError();
+    updateJob(job.id, { status: 'done', error: undefined });
+    pruneFinished();
+    entry.resolve(value);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (entry.signal?.aborted || isAbortError(error)) {
+      cancelEntry(entry);
+    } else if (isRetryableError(error) && job.attempts <= config.maxRetries) {
+      const delay = getRetryDelay(job.attempts);
+      updateJob(job.id, { status: 'retrying', error: message, nextRetryAt: Date.now() + delay });
+      const timer = setTimeout(() => {
+        entry.signal?.removeEventListener('abort', onAbort);
+        updateJob(job.id, { status: 'pending' });
+        queue.unshift(entry);
+        pump();
+      }, delay);
+      // Hủy trong lúc đang chờ backoff thì không cần đợi hết thời gian chờ
+      const onAbort = () => {
+        clearTimeout(timer);
+        cancelEntry(entry);
+      };
+      entry.signal?.addEventListener('abort', onAbort, { once: true });
+    } else {
+      updateJob(job.id, { status: 'failed', error: message });
+      entry.reject(error);
+    }
+  } finally {
+    runningCount--;
+    pump();
+  }
+};
+
+/**
+ * Đưa một lệnh gọi AI vào hàng đợi. Promise trả về resolve khi job thành công,
+ * hoặc reject với lỗi cuối cùng sau khi đã hết lượt retry.
+ */
+export function scheduleJob<T>(run: (signal?: AbortSignal) => Promise<T>, options: JobOptions): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const job: SchedulerJob = {
+      id: Math.random().toString(36).substr(2, 9),
+      label: options.label,
+      batchId: options.batchId,
+      status: 'pending',
+      attempts: 0,
+      createdAt: Date.now(),
+    };
+    const entry: QueueEntry = { job, run, signal: options.signal, resolve: value => resolve(value as T), reject };
+    jobs = [...jobs, job];
+    queue.push(entry);
+    // Job còn nằm trong hàng đợi thì hủy ngay khi signal abort
+    options.signal?.addEventListener('abort', () => {
+      const index = queue.indexOf(entry);
+      if (index !== -1) {
+        queue.splice(index, 1);
+        cancelEntry(entry);
+      }
+    }, { once: true });
+    notify();
+    pump();
+  });
+}
+
+/**
+ * Tạm dừng: job đang chạy vẫn chạy xong, job trong hàng đợi chờ đến khi resume
+ */
+export function pauseScheduler(): void {
+  paused = true;
+}
+
+export function resumeScheduler(): void {
+  paused = false;
+  pump();
+}
+
+export function isSchedulerPaused(): boolean {
+  return paused;
+}
+
+export function getSchedulerConfig(): SchedulerConfig {
+  return { ...config };
+}
+
+export function configureScheduler(patch: Partial<SchedulerConfig>): void {
+  config = { ...config, ...patch };
+  config.concurrency = Math.max(1, config.concurrency);
+  config.maxRetries = Math.max(0, config.maxRetries);
+  pump();
+}
+
+/**
+ * Subscribe danh sách job (pending / running / retrying / failed / done)
+ */
+export function subscribeToQueue(listener: (jobs: SchedulerJob[]) => void): () => void {
+  listeners.add(listener);
+  listener(jobs.map(j => ({ ...j })));
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Xóa các job đã xong / thất bại khỏi danh sách (tùy chọn: chỉ của một batch)
+ */
+export function dismissFinishedJobs(batchId?: string): void {
+  jobs = jobs.filter(j => {
+    const finished = j.status === 'done' || j.status === 'failed' || j.status === 'cancelled';
+    return !(finished && (batchId === undefined || j.batchId === batchId));
+  });
+  notify();
+}
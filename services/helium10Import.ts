@@ -0,0 +1,207 @@
+import JSZip from 'jszip';
+import { KeywordMetrics } from "../types";
+
+// Đọc file export XLSX / CSV của Helium 10 (Cerebro, Magnet - xem Scripts/Cerebro.js, H10_ExportXLSX.js) ngay trên trình duyệt.
+// Tên cột giữa các công cụ và các phiên bản H10 hơi khác nhau nên cột được nhận theo mẫu tên, không theo vị trí.
+
+export type MetricField = 'searchVolume' | 'competingProducts' | 'searchVolumeTrend' | 'cpc';
+
+export interface Helium10Row {
+  keyword: string;
+  metrics: KeywordMetrics;
+}
+
+export interface Helium10Import {
+  fileName: string;
+  rows: Helium10Row[];
+  mappedFields: MetricField[]; // Các chỉ số tìm thấy cột tương ứng trong file
+}
+
+export interface Helium10Filter {
+  query: string;
+  minSearchVolume?: number;
+  maxCompetingProducts?: number;
+  minTrend?: number;
+  maxCpc?: number;
+}
+
+export const METRIC_LABELS: Record<MetricField, string> = {
+  searchVolume: 'Search volume',
+  competingProducts: 'Competing',
+  searchVolumeTrend: 'Trend',
+  cpc: 'CPC',
+};
+
+// Nhận diện cột theo tên đã chuẩn hóa (chữ thường, bỏ ký tự đặc biệt)
+const COLUMN_MATCHERS: Record<MetricField | 'keyword', (header: string) => boolean> = {
+  keyword: h => ['keyword phrase', 'keyword', 'keywords', 'search term', 'search query', 'phrase'].includes(h),
+  searchVolume: h => h.startsWith('search volume') && !h.includes('trend'),
+  competingProducts: h => h.includes('competing products'),
+  searchVolumeTrend: h => h.includes('trend'),
+  cpc: h => h === 'cpc' || h.startsWith('cpc ') || (h.includes('ppc') && h.includes('bid') && !h.includes('min') && !h.includes('max')) || h === 'suggested bid',
+};
+
+const normalizeHeader = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * "1,234" → 1234, "$0.85" → 0.85, "-12%" → -12, ">306" → 306; "-" / "N/A" / rỗng → undefined
+ */
+export const parseMetric = (value: string | undefined): number | undefined => {
+  const text = (value ?? '').replace(/[,$%\s]/g, '').replace(/^[<>≤≥]=?/, '');
+  if (!text || text === '-' || /^n\/?a$/i.test(text)) return undefined;
+  const number = Number(text);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+/**
+ * CSV theo RFC 4180 (ô có ngoặc kép, xuống dòng trong ô), bỏ BOM
+ */
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = (source.split('\n')[0].match(/\t/g)?.length ?? 0) > (source.split('\n')[0].match(/,/g)?.length ?? 0) ? '\t' : ',';
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') { cell += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else cell += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length) rows.push([...row, cell]);
+  return rows;
+};
+
+// "AB12" → 27 (chỉ số cột, bắt đầu từ 0)
+const columnIndex = (ref: string) => {
+  const letters = ref.replace(/[0-9]/g, '');
+  let index = 0;
+  for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+  return index - 1;
+};
+
+const byTag = (node: Document | Element, tag: string) => Array.from(node.getElementsByTagNameNS('*', tag));
+
+/**
+ * Đọc sheet đầu tiên của file XLSX (XLSX là file zip chứa XML) thành bảng chuỗi
+ */
+const parseXlsx = async (data: ArrayBuffer): Promise<string[][]> => {
+  const zip = await JSZip.loadAsync(data);
+  const parser = new DOMParser();
+  const readXml = async (path: string) => {
+    const file = zip.file(path);
+    return file ? parser.parseFromString(await file.async('string'), 'application/xml') : null;
+  };
+
+  const sharedStrings = byTag((await readXml('xl/sharedStrings.xml')) ?? parser.parseFromString('<sst/>', 'application/xml'), 'si')
+    .map(si => byTag(si, 't').map(t => t.textContent ?? '').join(''));
+
+  // Sheet đầu tiên theo workbook.xml (qua relationship), không có thì lấy sheet1.xml
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const workbook = await readXml('xl/workbook.xml');
+  const rels = await readXml('xl/_rels/workbook.xml.rels');
+  const firstSheet = workbook && byTag(workbook, 'sheet')[0];
+  const relId = firstSheet?.getAttribute('r:id') ?? firstSheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+  const target = rels && relId ? byTag(rels, 'Relationship').find(r => r.getAttribute('Id') === relId)?.getAttribute('Target') : undefined;
+  if (target) sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+
+  const sheet = await readXml(sheetPath);
+  if (!sheet) throw new Error('Không tìm thấy sheet dữ liệu trong file XLSX');
+  return byTag(sheet, 'row').map(rowNode => {
+    const row: string[] = [];
+    byTag(rowNode, 'c').forEach((cell, position) => {
+      const ref = cell.getAttribute('r');
+      const index = ref ? columnIndex(ref) : position;
+      const type = cell.getAttribute('t');
+      const value = byTag(cell, 'v')[0]?.textContent ?? '';
+      row[index] = type === 's' ? sharedStrings[Number(value)] ?? ''
+        : type === 'inlineStr' ? byTag(cell, 't').map(t => t.textContent ?? '').join('')
+        : value;
+    });
+    return Array.from(row, cell => cell ?? '');
+  });
+};
+
+/**
+ * Tìm dòng tiêu đề (file H10 đôi khi có vài dòng mô tả phía trên), map cột và đọc các dòng keyword
+ */
+export const parseHelium10Table = (table: string[][], fileName: string): Helium10Import => {
+  const headerIndex = table.slice(0, 20).findIndex(row => row.some(cell => COLUMN_MATCHERS.keyword(normalizeHeader(cell))));
+  if (headerIndex < 0) throw new Error('Không tìm thấy cột "Keyword Phrase" / "Keyword" - file không phải export của Helium 10?');
+
+  const headers = table[headerIndex].map(normalizeHeader);
+  const find = (field: MetricField | 'keyword') => headers.findIndex(COLUMN_MATCHERS[field]);
+  const keywordColumn = find('keyword');
+  const fields: MetricField[] = ['searchVolume', 'competingProducts', 'searchVolumeTrend', 'cpc'];
+  const columns = fields.map(field => [field, find(field)] as const).filter(([, index]) => index >= 0);
+
+  const importedAt = Date.now();
+  const seen = new Set<string>();
+  const rows: Helium10Row[] = [];
+  for (const row of table.slice(headerIndex + 1)) {
+    const keyword = (row[keywordColumn] ?? '').trim();
+    if (!keyword || seen.has(keyword.toLowerCase())) continue;
+    seen.add(keyword.toLowerCase());
+    const metrics: KeywordMetrics = { source: fileName, importedAt };
+    for (const [field, index] of columns) metrics[field] = parseMetric(row[index]);
+    rows.push({ keyword, metrics });
+  }
+  return { fileName, rows, mappedFields: columns.map(([field]) => field) };
+};
+
+export const readHelium10File = async (file: File): Promise<Helium10Import> => {
+  const isXlsx = /\.xlsx$/i.test(file.name);
+  const table = isXlsx ? await parseXlsx(await file.arrayBuffer()) : parseCsv(await file.text());
+  return parseHelium10Table(table, file.name);
+};
+
+export const filterHelium10Rows = (rows: Helium10Row[], filter: Helium10Filter): Helium10Row[] => {
+  const query = filter.query.trim().toLowerCase();
+  // Thiếu số liệu thì không loại theo chỉ số đó
+  const atLeast = (value: number | undefined, min?: number) => min === undefined || value === undefined || value >= min;
+  const atMost = (value: number | undefined, max?: number) => max === undefined || value === undefined || value <= max;
+  return rows.filter(({ keyword, metrics }) =>
+    (!query || keyword.toLowerCase().includes(query)) &&
+    atLeast(metrics.searchVolume, filter.minSearchVolume) &&
+    atMost(metrics.competingProducts, filter.maxCompetingProducts) &&
+    atLeast(metrics.searchVolumeTrend, filter.minTrend) &&
+    atMost(metrics.cpc, filter.maxCpc));
+};
+
+/**
+ * Sắp xếp theo một chỉ số; dòng thiếu số liệu luôn nằm cuối
+ */
+export const sortHelium10Rows = (rows: Helium10Row[], field: MetricField, direction: 'asc' | 'desc'): Helium10Row[] =>
+  [...rows].sort((a, b) => {
+    const x = a.metrics[field];
+    const y = b.metrics[field];
+    if (x === undefined) return y === undefined ? 0 : 1;
+    if (y === undefined) return -1;
+    return direction === 'asc' ? x - y : y - x;
+  });
+
+/**
+ * Hiển thị gọn: 12500 → "12.5K"
+ */
+export const formatMetric = (field: MetricField, value: number | undefined): string => {
+  if (value === undefined) return '—';
+  if (field === 'cpc') return `$${value.toFixed(2)}`;
+  if (field === 'searchVolumeTrend') return `${value > 0 ? '+' : ''}${Math.round(value)}%`;
+  return value >= 1000 ? `${(value / 1000).toFixed(value >= 10000 ? 0 : 1)}K` : String(value);
+};
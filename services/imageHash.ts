@@ -0,0 +1,126 @@
+// Perceptual hash để phát hiện ảnh gần giống nhau (cùng design, khác size / nén / watermark nhẹ).
+// dHash 64 bit: thu nhỏ về 9x8 grayscale, mỗi bit = pixel trái sáng hơn pixel phải.
+// pHash 64 bit: DCT của bản 32x32 grayscale, mỗi bit = hệ số tần số thấp lớn hơn trung vị.
+
+// Số bit khác nhau tối đa để coi hai ảnh là gần trùng
+export const NEAR_DUPLICATE_DISTANCE = 10;
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.crossOrigin = "anonymous";
+  img.onload = () => resolve(img);
+  img.onerror = reject;
+  img.src = src;
+});
+
+export interface ImageHashes {
+  d: string; // dHash
+  p: string; // pHash
+}
+
+// Ảnh grayscale đã thu nhỏ về width x height
+const toGrayscale = (img: HTMLImageElement, width: number, height: number): Float64Array => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(img, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const gray = new Float64Array(width * height);
+  for (let i = 0; i < gray.length; i++) gray[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+  return gray;
+};
+
+const bitsToHex = (bits: boolean[]): string => {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 8) {
+    let byte = 0;
+    for (let j = 0; j < 8; j++) byte = (byte << 1) | (bits[i + j] ? 1 : 0);
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+};
+
+const dHashOf = (img: HTMLImageElement): string => {
+  const gray = toGrayscale(img, 9, 8);
+  const bits: boolean[] = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) bits.push(gray[y * 9 + x] > gray[y * 9 + x + 1]);
+  }
+  return bitsToHex(bits);
+};
+
+// cos((2x + 1) * u * PI / 64) cho 8 tần số thấp nhất
+const DCT_COS = Array.from({ length: 8 }, (_, u) => Array.from({ length: 32 }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / 64)));
+
+const pHashOf = (img: HTMLImageElement): string => {
+  const gray = toGrayscale(img, 32, 32);
+  const coefficients: number[] = [];
+  for (let v = 0; v < 8; v++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let y = 0; y < 32; y++) {
+        for (let x = 0; x < 32; x++) sum += gray[y * 32 + x] * DCT_COS[u][x] * DCT_COS[v][y];
+      }
+      coefficients.push(sum);
+    }
+  }
+  // Bỏ hệ số DC (độ sáng trung bình) khi tính trung vị
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = (sorted[31] + sorted[32]) / 2;
+  return bitsToHex(coefficients.map(c => c > median));
+};
+
+// Cache theo dấu vân tay của chuỗi ảnh (độ dài + vài đoạn mẫu) để không phải hash lại cả project mỗi lần quét
+const hashCache = new Map<string, Promise<ImageHashes>>();
+const fingerprint = (src: string) => {
+  const step = Math.max(1, Math.floor(src.length / 8));
+  let sample = `${src.length}`;
+  for (let i = 0; i < src.length; i += step) sample += src.slice(i, i + 16);
+  return sample + src.slice(-32);
+};
+
+/**
+ * dHash + pHash của một ảnh (data URL / object URL / URL cho phép CORS)
+ */
+export const computeHashes = (src: string): Promise<ImageHashes> => {
+  const key = fingerprint(src);
+  let pending = hashCache.get(key);
+  if (!pending) {
+    pending = loadImage(src).then(img => ({ d: dHashOf(img), p: pHashOf(img) }));
+    pending.catch(() => hashCache.delete(key));
+    hashCache.set(key, pending);
+  }
+  return pending;
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+/**
+ * Khoảng cách giữa hai ảnh: lấy số bit khác lớn hơn của dHash / pHash để cả hai cùng phải gần mới tính là trùng
+ */
+export const hashDistance = (a: ImageHashes, b: ImageHashes): number => Math.max(hammingDistance(a.d, b.d), hammingDistance(a.p, b.p));
+
+/**
+ * Gom ảnh gần trùng thành nhóm; phần tử đầu mỗi nhóm là đại diện. Ảnh chưa có hash đứng riêng một nhóm.
+ */
+export const groupNearDuplicates = <T>(items: T[], hashOf: (item: T) => string | undefined, maxDistance = NEAR_DUPLICATE_DISTANCE): T[][] => {
+  const groups: Array<{ hash?: string; items: T[] }> = [];
+  for (const item of items) {
+    const hash = hashOf(item);
+    const group = hash ? groups.find(g => g.hash && hammingDistance(g.hash, hash) <= maxDistance) : undefined;
+    if (group) group.items.push(item);
+    else groups.push({ hash, items: [item] });
+  }
+  return groups.map(g => g.items);
+};
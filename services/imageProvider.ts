@@ -0,0 +1,132 @@
+// Lớp provider cho các lệnh gọi AI tạo ảnh / phân tích.
+// geminiService chỉ dựng prompt rồi gọi provider đang active, nên có thể đổi backend
+// (Gemini, local offline, ...) mà không cần sửa UI.
+
+export type AspectRatio = '1:1' | '16:9' | '9:16' | '4:3' | '3:4';
+export const ASPECT_RATIOS: AspectRatio[] = ['1:1', '16:9', '9:16', '4:3', '3:4'];
+export type ImageSize = '1K' | '2K' | '4K';
+
+// 'fast' = model flash rẻ, 'pro' = model chất lượng cao
+export type ModelTier = 'fast' | 'pro';
+
+export interface InlineImage {
+  data: string; // base64 thuần, không có tiền tố data:
+  mimeType: string;
+}
+
+interface BaseRequest {
+  prompt: string;
+  tier: ModelTier;
+  model?: string; // Ghi đè model của tier nếu có
+  signal?: AbortSignal;
+}
+
+// Một phần nội dung của lượt hội thoại. Phần model trả về được giữ nguyên (kể cả thoughtSignature)
+// vì model Gemini 3 chỉ nhận lại lượt model cũ khi chữ ký còn đúng như lúc trả về.
+export interface ContentPart {
+  text?: string;
+  inlineData?: InlineImage;
+  thought?: boolean;
+  thoughtSignature?: string;
+}
+
+export interface ConversationTurn {
+  role: 'user' | 'model';
+  parts: ContentPart[];
+}
+
+export interface GenerateRequest extends BaseRequest {
+  images: InlineImage[];
+  aspectRatio: AspectRatio;
+  imageSize?: ImageSize;
+  history?: ConversationTurn[];
+}
+
+export interface EditRequest extends BaseRequest {
+  image: InlineImage;
+  aspectRatio: AspectRatio;
+  imageSize?: ImageSize;
+  history?: ConversationTurn[];
+}
+
+export interface CloneRequest extends BaseRequest {
+  image: InlineImage;
+  aspectRatio: AspectRatio;
+  imageSize?: ImageSize;
+}
+
+// Schema JSON dạng OpenAPI (type viết hoa: OBJECT, ARRAY, STRING...)
+export interface ResponseSchema {
+  type: 'OBJECT' | 'ARRAY' | 'STRING' | 'NUMBER' | 'INTEGER' | 'BOOLEAN';
+  description?: string;
+  enum?: string[]; // Giới hạn giá trị của STRING
+  properties?: Record<string, ResponseSchema>;
+  items?: ResponseSchema;
+  required?: string[];
+}
+
+export interface AnalyzeRequest extends BaseRequest {
+  images: InlineImage[];
+  responseSchema?: ResponseSchema; // Có schema thì provider phải trả về JSON đúng schema
+}
+
+export interface ImageResult {
+  dataUrl: string;
+  mimeType: string;
+  provider: string;
+  model: string;
+  modelParts?: ContentPart[]; // Nội dung gốc của lượt model, để gửi lại trong hội thoại nhiều lượt
+}
+
+export interface TextResult {
+  text: string;
+  provider: string;
+  model: string;
+}
+
+export interface ImageProvider {
+  id: string;
+  label: string;
+  imageModels: string[]; // Các model ảnh có thể chọn để ghi đè theo batch
+  generate(req: GenerateRequest): Promise<ImageResult>;
+  edit(req: EditRequest): Promise<ImageResult>;
+  clone(req: CloneRequest): Promise<ImageResult>;
+  analyze(req: AnalyzeRequest): Promise<TextResult>;
+}
+
+const providers = new Map<string, ImageProvider>();
+let activeProviderId: string | null = null;
+
+export function registerProvider(provider: ImageProvider): void {
+  providers.set(provider.id, provider);
+  if (!activeProviderId) activeProviderId = provider.id;
+}
+
+export function listProviders(): ImageProvider[] {
+  return Array.from(providers.values());
+}
+
+export function setActiveProvider(id: string): void {
+  if (!providers.has(id)) {
+    throw new Error(`Provider không tồn tại: ${id}`);
+  }
+  activeProviderId = id;
+}
+
+export function getActiveProviderId(): string | null {
+  return activeProviderId;
+}
+
+export function getProvider(): ImageProvider {
+  const provider = activeProviderId ? providers.get(activeProviderId) : undefined;
+  if (!provider) {
+    throw new Error("Chưa có AI provider nào được đăng ký.");
+  }
+  return provider;
+}
+
+// Tách phần base64 của data URL để gửi cho provider
+export const toInlineImage = (dataUrl: string, mimeType: string = 'image/png'): InlineImage => ({
+  data: dataUrl.split(',')[1] ?? '',
+  mimeType,
+});
@@ -0,0 +1,184 @@
+import { BatchItem } from "../types";
+import { BatchResult, RESULT_MODES } from "./batchResults";
+import { detectBrandsAndCharacters } from "./geminiService";
+import { JobOptions } from "./generationScheduler";
+
+// Sàng lọc rủi ro trademark / bản quyền trước khi export lên Amazon / Etsy:
+// so keyword của batch với blocklist (lưu localStorage, sửa được) và tùy chọn nhờ AI soi logo / nhân vật trong output.
+
+export type IpSeverity = 'block' | 'warn';
+
+export interface BlocklistEntry {
+  term: string;
+  severity: IpSeverity; // block = phải xác nhận rủi ro mới được export, warn = chỉ cảnh báo
+}
+
+export interface IpFinding {
+  source: 'keyword' | 'vision';
+  term: string;
+  severity: IpSeverity;
+  detail: string; // Nơi phát hiện, vd. "Keyword" hoặc "Pattern 1 • character 92%"
+  resultKey?: string; // Output bị AI gắn cờ
+}
+
+export interface IpScreening {
+  findings: IpFinding[];
+  visionKeys: string[]; // Các output đã được AI soi (không soi lại khi export lần sau; key bị bỏ khi ảnh của output bị thay)
+  checkedAt: number;
+  acknowledgedAt?: number; // Đã có người xác nhận rủi ro của đúng tập findings này
+}
+
+const STORAGE_KEY = 'zecom3d.ipBlocklist';
+
+// AI chắc chắn từ mức này trở lên thì chặn, thấp hơn chỉ cảnh báo
+const VISION_BLOCK_CONFIDENCE = 0.6;
+
+// warn dành cho từ vừa là trademark vừa là từ thông dụng (dễ báo nhầm)
+export const DEFAULT_BLOCKLIST: BlocklistEntry[] = [
+  ...['Disney', 'Mickey Mouse', 'Minnie Mouse', 'Pixar', 'Marvel', 'Avengers', 'Spider-Man', 'Batman', 'Superman', 'DC Comics',
+    'Star Wars', 'Pokemon', 'Pikachu', 'Nintendo', 'Super Mario', 'Minecraft', 'Fortnite', 'Hello Kitty', 'Sanrio', 'Harry Potter',
+    'Hogwarts', 'Barbie', 'Looney Tunes', 'SpongeBob', 'Snoopy', 'Bluey', 'Paw Patrol', 'Sesame Street', 'Toy Story', 'Care Bears',
+    'Nike', 'Adidas', 'Gucci', 'Louis Vuitton', 'Chanel', 'Coca-Cola', 'Starbucks', 'Harley-Davidson', 'NFL', 'NBA', 'MLB', 'NHL',
+    'Super Bowl', 'Taylor Swift']
+    .map(term => ({ term, severity: 'block' as const })),
+  ...['Frozen', 'Friends', 'Peanuts', 'Supreme', 'Grinch', 'Jurassic', 'Yellowstone', 'Olympics', 'Stranger Things']
+    .map(term => ({ term, severity: 'warn' as const })),
+];
+
+let blocklist: BlocklistEntry[] = loadBlocklist();
+const listeners = new Set<() => void>();
+
+function loadBlocklist(): BlocklistEntry[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) as BlocklistEntry[] : DEFAULT_BLOCKLIST;
+  } catch {
+    return DEFAULT_BLOCKLIST;
+  }
+}
+
+const commit = (next: BlocklistEntry[]) => {
+  blocklist = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(blocklist));
+  } catch (e) {
+    console.error('Failed to save IP blocklist:', e);
+  }
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Chuẩn hóa để so khớp: chữ thường, bỏ dấu, mọi ký tự không phải chữ / số thành khoảng trắng
+ */
+const normalize = (text: string) => text
+  .toLowerCase()
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .replace(/đ/g, 'd')
+  .replace(/[^a-z0-9]+/g, ' ')
+  .trim();
+
+export function subscribeToBlocklist(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function listBlocklist(): BlocklistEntry[] {
+  return blocklist;
+}
+
+// Thêm mới hoặc đổi mức độ của term đã có (không phân biệt hoa thường / dấu)
+export function setBlocklistEntry(term: string, severity: IpSeverity): void {
+  const trimmed = term.trim();
+  if (!normalize(trimmed)) return;
+  const exists = blocklist.some(e => normalize(e.term) === normalize(trimmed));
+  commit(exists
+    ? blocklist.map(e => normalize(e.term) === normalize(trimmed) ? { ...e, severity } : e)
+    : [...blocklist, { term: trimmed, severity }]);
+}
+
+export function removeBlocklistEntry(term: string): void {
+  commit(blocklist.filter(e => e.term !== term));
+}
+
+export function resetBlocklist(): void {
+  commit(DEFAULT_BLOCKLIST);
+}
+
+/**
+ * Tìm term của blocklist trong một đoạn text. Term nhiều từ còn được so dạng viết liền
+ * ("spiderman" vẫn khớp "Spider-Man"); term một từ phải khớp nguyên từ (cho phép số nhiều -s).
+ */
+export const matchBlocklist = (text: string, entries: BlocklistEntry[] = blocklist): BlocklistEntry[] => {
+  const normalized = normalize(text);
+  if (!normalized) return [];
+  const padded = ` ${normalized} `;
+  const compact = normalized.replace(/ /g, '');
+  return entries.filter(entry => {
+    const term = normalize(entry.term);
+    if (!term) return false;
+    if (padded.includes(` ${term} `) || padded.includes(` ${term}s `)) return true;
+    return term.includes(' ') && compact.includes(term.replace(/ /g, ''));
+  });
+};
+
+const screenKeywords = (batch: BatchItem): IpFinding[] => {
+  const sources: Array<[string, string | undefined]> = [['Keyword', batch.name], ['Custom prompt', batch.customPrompt]];
+  return sources.flatMap(([detail, text]) => matchBlocklist(text || '').map(entry => ({
+    source: 'keyword' as const,
+    term: entry.term,
+    severity: entry.severity,
+    detail,
+  })));
+};
+
+const findingSignature = (findings: IpFinding[]) =>
+  findings.map(f => `${f.source}:${normalize(f.term)}:${f.resultKey ?? ''}`).sort().join('|');
+
+/**
+ * Sàng lọc một batch: keyword luôn được so lại (blocklist có thể vừa sửa), AI chỉ soi các output chưa soi.
+ * Xác nhận rủi ro trước đó được giữ nếu tập findings không đổi.
+ */
+export const screenBatch = async (
+  batch: BatchItem,
+  results: BatchResult[],
+  { vision, job }: { vision: boolean; job?: Partial<JobOptions> }
+): Promise<IpScreening> => {
+  const previous = batch.ipScreening;
+  const checkedKeys = new Set(previous?.visionKeys || []);
+  const visionFindings = (previous?.findings || []).filter(f => f.source === 'vision');
+  const pending = vision ? results.filter(r => !checkedKeys.has(r.key)) : [];
+
+  const detections = await Promise.all(pending.map(async result => ({
+    result,
+    found: await detectBrandsAndCharacters(result.image, { batchId: batch.id, ...job }),
+  })));
+  for (const { result, found } of detections) {
+    checkedKeys.add(result.key);
+    const label = `${RESULT_MODES.find(m => m.mode === result.mode)!.label} ${result.index + 1}`;
+    for (const detection of found) {
+      const listed = matchBlocklist(detection.name)[0];
+      visionFindings.push({
+        source: 'vision',
+        term: detection.name,
+        severity: listed?.severity ?? (detection.confidence >= VISION_BLOCK_CONFIDENCE ? 'block' : 'warn'),
+        detail: `${label} • ${detection.kind} ${Math.round(detection.confidence * 100)}%`,
+        resultKey: result.key,
+      });
+    }
+  }
+
+  const findings = [...screenKeywords(batch), ...visionFindings];
+  const unchanged = !!previous && findingSignature(previous.findings) === findingSignature(findings);
+  return {
+    findings,
+    visionKeys: Array.from(checkedKeys),
+    checkedAt: Date.now(),
+    acknowledgedAt: unchanged ? previous!.acknowledgedAt : undefined,
+  };
+};
+
+export const needsIpAcknowledgement = (screening?: IpScreening): boolean =>
+  !!screening && screening.findings.length > 0 && !screening.acknowledgedAt;
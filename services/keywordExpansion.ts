@@ -0,0 +1,53 @@
+import { KeywordProposal } from "../types";
+
+// Kiểm tra trùng keyword khi mở rộng niche: so theo tập từ đã chuẩn hóa nên
+// "Cat Mom Shirt" trùng "cat moms" nhưng "cat mom birthday" là keyword mới.
+
+export interface ExpandedKeyword extends KeywordProposal {
+  duplicateOf?: string; // Batch / đề xuất đã có mà keyword này trùng
+}
+
+// Từ không mang nghĩa niche, bỏ qua khi so trùng
+const FILLER_WORDS = new Set(['a', 'an', 'the', 'for', 'of', 'and', 'with', 'shirt', 'shirts', 'tshirt', 't', 'tee', 'tees', 'design', 'funny', 'gift', 'gifts']);
+
+// Ngưỡng Jaccard của tập từ để coi là cùng một keyword
+const DUPLICATE_SIMILARITY = 0.75;
+
+const toTokens = (keyword: string): Set<string> => new Set(
+  keyword
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !FILLER_WORDS.has(word))
+    .map(word => word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word)
+);
+
+const similarity = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => b.has(word) && shared++);
+  return shared / (a.size + b.size - shared);
+};
+
+/**
+ * Keyword đã có gần giống nhất (nếu đủ giống để coi là trùng)
+ */
+export const findDuplicateKeyword = (keyword: string, existing: string[]): string | undefined => {
+  const tokens = toTokens(keyword);
+  return existing.find(candidate => similarity(tokens, toTokens(candidate)) >= DUPLICATE_SIMILARITY);
+};
+
+/**
+ * Gắn cờ trùng với batch hiện có và với các đề xuất đứng trước trong cùng danh sách
+ */
+export const markDuplicateProposals = (proposals: KeywordProposal[], existing: string[]): ExpandedKeyword[] => {
+  const seen: string[] = [];
+  return proposals.map(proposal => {
+    const duplicateOf = findDuplicateKeyword(proposal.keyword, existing) ?? findDuplicateKeyword(proposal.keyword, seen);
+    seen.push(proposal.keyword);
+    return duplicateOf ? { ...proposal, duplicateOf } : proposal;
+  });
+};
@@ -0,0 +1,124 @@
+import { ListingCopy } from "../types";
+import { isRecord } from "./typeGuards";
+
+// Giới hạn độ dài listing theo từng marketplace. AI được báo trước các giới hạn này,
+// nhưng kết quả vẫn được cắt lại ở đây vì model hay viết lố.
+
+export const LISTING_LIMITS = {
+  amazon: {
+    brand: { min: 3, max: 50 },
+    title: { min: 3, max: 60 },
+    bullets: { count: 2, max: 256 },
+    description: { min: 75, max: 2000 },
+  },
+  etsy: {
+    title: { max: 140 },
+    tags: { count: 13, max: 20 },
+    description: { max: 5000 },
+  },
+};
+
+/**
+ * Mô tả giới hạn để đưa vào prompt ({{limits}})
+ */
+export const describeListingLimits = (): string => {
+  const { amazon, etsy } = LISTING_LIMITS;
+  return [
+    `Amazon Merch: brand ${amazon.brand.min}-${amazon.brand.max} characters, title ${amazon.title.min}-${amazon.title.max} characters, exactly ${amazon.bullets.count} bullet points of at most ${amazon.bullets.max} characters each, description ${amazon.description.min}-${amazon.description.max} characters.`,
+    `Etsy: title at most ${etsy.title.max} characters, exactly ${etsy.tags.count} tags of at most ${etsy.tags.max} characters each (letters, numbers and spaces only, no duplicates), description at most ${etsy.description.max} characters.`,
+  ].join('\n');
+};
+
+/**
+ * Cắt ở ranh giới từ gần nhất để không để lại nửa chữ
+ */
+export const truncateWords = (text: string, max: number): string => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length <= max) return clean;
+  const cut = clean.slice(0, max + 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return (lastSpace > max * 0.6 ? cut.slice(0, lastSpace) : clean.slice(0, max)).replace(/[\s,;:\-–]+$/, '');
+};
+
+/**
+ * Tag Etsy: chữ thường, chỉ giữ chữ / số / khoảng trắng, ≤ 20 ký tự, không trùng, tối đa 13 tag
+ */
+export const normalizeEtsyTags = (tags: string[]): string[] => {
+  const { count, max } = LISTING_LIMITS.etsy.tags;
+  const result: string[] = [];
+  for (const tag of tags) {
+    const clean = truncateWords(tag.toLowerCase().replace(/[^\p{L}\p{N} ]+/gu, ' '), max);
+    if (clean && !result.includes(clean)) result.push(clean);
+  }
+  return result.slice(0, count);
+};
+
+const asString = (value: unknown) => (typeof value === 'string' || typeof value === 'number' ? String(value) : '');
+
+/**
+ * Đưa dữ liệu AI trả về (có thể thiếu trường / sai kiểu) về đúng cấu trúc và giới hạn
+ */
+export const fitListing = (raw: unknown): ListingCopy => {
+  const { amazon: amazonLimits, etsy: etsyLimits } = LISTING_LIMITS;
+  const text = (value: unknown) => asString(value).replace(/[#*]/g, '').trim();
+  const list = (value: unknown) => Array.isArray(value) ? value.map(text).filter(Boolean) : [];
+  const amazon = isRecord(raw) && isRecord(raw.amazon) ? raw.amazon : {};
+  const etsy = isRecord(raw) && isRecord(raw.etsy) ? raw.etsy : {};
+  return {
+    amazon: {
+      brand: truncateWords(text(amazon.brand), amazonLimits.brand.max),
+      title: truncateWords(text(amazon.title), amazonLimits.title.max),
+      bullets: list(amazon.bullets).slice(0, amazonLimits.bullets.count).map(b => truncateWords(b, amazonLimits.bullets.max)),
+      description: truncateWords(text(amazon.description), amazonLimits.description.max),
+    },
+    etsy: {
+      title: truncateWords(text(etsy.title), etsyLimits.title.max),
+      tags: normalizeEtsyTags(list(etsy.tags)),
+      description: text(etsy.description).slice(0, etsyLimits.description.max),
+    },
+    generatedAt: Date.now(),
+  };
+};
+
+/**
+ * Các trường đang vi phạm giới hạn (sau khi người dùng sửa tay) - rỗng là hợp lệ
+ */
+export const getListingIssues = (listing: ListingCopy): string[] => {
+  const { amazon, etsy } = LISTING_LIMITS;
+  const issues: string[] = [];
+  const checkLength = (label: string, value: string, limit: { min?: number; max: number }) => {
+    if (value.length > limit.max) issues.push(`${label}: ${value.length}/${limit.max} ký tự`);
+    else if (limit.min && value.trim().length < limit.min) issues.push(`${label}: cần ít nhất ${limit.min} ký tự`);
+  };
+  checkLength('Amazon brand', listing.amazon.brand, amazon.brand);
+  checkLength('Amazon title', listing.amazon.title, amazon.title);
+  if (listing.amazon.bullets.filter(b => b.trim()).length < amazon.bullets.count) issues.push(`Amazon bullets: cần ${amazon.bullets.count} bullet`);
+  listing.amazon.bullets.forEach((b, i) => checkLength(`Amazon bullet ${i + 1}`, b, amazon.bullets));
+  checkLength('Amazon description', listing.amazon.description, amazon.description);
+  checkLength('Etsy title', listing.etsy.title, etsy.title);
+  if (listing.etsy.tags.length > etsy.tags.count) issues.push(`Etsy tags: ${listing.etsy.tags.length}/${etsy.tags.count}`);
+  listing.etsy.tags.forEach(tag => tag.length > etsy.tags.max && issues.push(`Etsy tag "${tag}": ${tag.length}/${etsy.tags.max} ký tự`));
+  checkLength('Etsy description', listing.etsy.description, etsy.description);
+  return issues;
+};
+
+/**
+ * Bản text để copy / đóng gói kèm ảnh khi xuất ZIP
+ */
+export const listingToText = (keyword: string, listing: ListingCopy): string => [
+  `KEYWORD: ${keyword}`,
+  '',
+  '=== AMAZON MERCH ===',
+  `Brand: ${listing.amazon.brand}`,
+  `Title: ${listing.amazon.title}`,
+  ...listing.amazon.bullets.map((b, i) => `Bullet ${i + 1}: ${b}`),
+  'Description:',
+  listing.amazon.description,
+  '',
+  '=== ETSY ===',
+  `Title: ${listing.etsy.title}`,
+  `Tags: ${listing.etsy.tags.join(', ')}`,
+  'Description:',
+  listing.etsy.description,
+  '',
+].join('\n');
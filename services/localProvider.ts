@@ -0,0 +1,192 @@
+import {
+  ImageProvider,
+  AspectRatio,
+  InlineImage,
+  ImageResult,
+  ResponseSchema,
+} from "./imageProvider";
+
+// Provider giả lập chạy offline: trả về ảnh fixture được vẽ bằng canvas.
+// Cùng một input luôn cho cùng một ảnh, nên có thể chạy toàn bộ batch workflow
+// mà không cần API key hay mạng.
+
+const CANVAS_SIZES: Record<AspectRatio, [number, number]> = {
+  '1:1': [1024, 1024],
+  '16:9': [1376, 768],
+  '9:16': [768, 1376],
+  '4:3': [1024, 768],
+  '3:4': [768, 1024],
+};
+
+const PALETTES = [
+  ['#1E1B4B', '#7C3AED', '#F472B6', '#FDE68A'],
+  ['#052E16', '#16A34A', '#A3E635', '#FEF9C3'],
+  ['#0C4A6E', '#0EA5E9', '#F97316', '#FFEDD5'],
+  ['#450A0A', '#DC2626', '#FACC15', '#FEF2F2'],
+  ['#111827', '#6B7280', '#F59E0B', '#F9FAFB'],
+];
+
+// FNV-1a 32-bit - đủ để sinh seed ổn định từ prompt + ảnh
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32 - random có seed
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Chỉ lấy mẫu một phần base64 để seed không phụ thuộc vào toàn bộ ảnh lớn
+const imageFingerprint = (images: InlineImage[]) =>
+  images.map(img => `${img.data.length}:${img.data.slice(0, 64)}:${img.data.slice(-64)}`).join('|');
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = reject;
+  img.src = src;
+});
+
+const drawFixture = (seed: number, aspectRatio: AspectRatio): string => {
+  const [width, height] = CANVAS_SIZES[aspectRatio];
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  const random = createRandom(seed);
+  const palette = PALETTES[seed % PALETTES.length];
+
+  ctx.fillStyle = palette[0];
+  ctx.fillRect(0, 0, width, height);
+
+  // Vẽ họa tiết tràn viền để fixture giống một pattern thật
+  for (let i = 0; i < 60; i++) {
+    ctx.fillStyle = palette[1 + Math.floor(random() * (palette.length - 1))];
+    ctx.globalAlpha = 0.35 + random() * 0.5;
+    ctx.beginPath();
+    ctx.arc(random() * width, random() * height, 10 + random() * height * 0.12, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  // Chủ thể nhỏ ở giữa giống bố cục pattern 3 phần
+  ctx.globalAlpha = 1;
+  ctx.fillStyle = palette[3];
+  ctx.beginPath();
+  ctx.arc(width / 2, height / 2, Math.min(width, height) * 0.1, 0, Math.PI * 2);
+  ctx.fill();
+
+  return canvas.toDataURL('image/png');
+};
+
+// "Edit" giả lập: giữ ảnh gốc và phủ một lớp màu xác định theo prompt
+const drawTintedCopy = async (image: InlineImage, seed: number): Promise<string> => {
+  const img = await loadImage(`data:${image.mimeType};base64,${image.data}`);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(img, 0, 0);
+  const palette = PALETTES[seed % PALETTES.length];
+  ctx.globalCompositeOperation = 'overlay';
+  ctx.globalAlpha = 0.35;
+  ctx.fillStyle = palette[1];
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+const TEXT_FIXTURE = [
+  'Keyword sản phẩm: (local fixture)',
+  '',
+  '🖌 Phần thiết kế (thông tin chi tiết)',
+  '- Phong cách minh họa nét dày, màu tương phản cao',
+  '',
+  '💡 Phần lý do mua hàng (động lực và nhu cầu)',
+  '- Quà tặng theo sở thích cá nhân',
+  '',
+  '🧍 Chân dung khách hàng',
+  '- Độ tuổi: 25-40',
+  '- Giới tính: Nam/Nữ',
+  '',
+  'Kết luận: Dữ liệu mẫu từ provider offline, không phải phân tích thật.',
+].join('\n');
+
+// Khi có responseSchema thì trả JSON theo đúng cấu trúc insight
+const INSIGHT_FIXTURE = {
+  keyword: '(local fixture)',
+  designElements: ['Phong cách minh họa nét dày, màu tương phản cao'],
+  purchaseMotivations: ['Quà tặng theo sở thích cá nhân'],
+  persona: {
+    age: '25-40',
+    gender: 'Nam/Nữ',
+    education: '',
+    occupation: '',
+    income: '',
+    region: '',
+    familyPets: '',
+    ethnicityReligion: '',
+  },
+  conclusion: 'Dữ liệu mẫu từ provider offline, không phải phân tích thật.',
+};
+
+// Schema khác insight (QC, listing...) thì sinh giá trị rỗng đúng kiểu để parser phía trên chạy được
+const fixtureFromSchema = (schema: ResponseSchema): unknown => {
+  switch (schema.type) {
+    case 'OBJECT':
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([key, child]) => [key, fixtureFromSchema(child)]));
+    case 'ARRAY':
+      return [];
+    case 'STRING':
+      return '(local fixture)';
+    case 'BOOLEAN':
+      return false;
+    default:
+      return 0;
+  }
+};
+
+const toResult = (dataUrl: string): ImageResult => ({
+  dataUrl,
+  mimeType: 'image/png',
+  provider: 'local',
+  model: 'local-fixture',
+});
+
+export const localProvider: ImageProvider = {
+  id: 'local',
+  label: 'Local (offline fixtures)',
+  imageModels: ['local-fixture'],
+
+  generate: async (req) => {
+    req.signal?.throwIfAborted();
+    const turns = (req.history || []).map(t => t.parts.map(p => p.text || '').join('')).join('|');
+    return toResult(drawFixture(hashString(turns + req.prompt + imageFingerprint(req.images)), req.aspectRatio));
+  },
+
+  edit: async (req) => {
+    req.signal?.throwIfAborted();
+    return toResult(await drawTintedCopy(req.image, hashString(req.prompt)));
+  },
+
+  clone: async (req) => {
+    req.signal?.throwIfAborted();
+    return toResult(drawFixture(hashString(imageFingerprint([req.image])), req.aspectRatio));
+  },
+
+  analyze: async (req) => {
+    req.signal?.throwIfAborted();
+    return {
+      text: !req.responseSchema ? TEXT_FIXTURE
+        : JSON.stringify(req.responseSchema.properties?.persona ? INSIGHT_FIXTURE : fixtureFromSchema(req.responseSchema)),
+      provider: 'local',
+      model: 'local-fixture',
+    };
+  },
+};
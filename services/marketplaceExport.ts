@@ -0,0 +1,324 @@
+import { BatchItem } from "../types";
+import { BatchResult } from "./batchResults";
+import { listSelectedResults, pickBatchResult } from "./resultReview";
+import { toCsv, toTsv } from "./csvExport";
+import { LISTING_LIMITS, normalizeEtsyTags, truncateWords } from "./listingCopy";
+
+// Profile xuất file bulk-upload cho từng marketplace: file dữ liệu (CSV / flat file) + ảnh đặt tên theo quy tắc của sàn.
+// Mỗi dòng tự khai báo cột bắt buộc; thiếu giá trị là lỗi và không được ghi file.
+
+export type MarketplaceProfileId = 'etsy' | 'shopify' | 'amazon';
+
+export interface MarketplaceDefaults {
+  price: number;
+  currency: string;
+  quantity: number;
+  colors: string[]; // Màu variant mặc định khi batch không tự đặt
+  vendor: string; // Shop / brand dùng khi listing chưa có brand
+  imageBaseUrl: string; // Nơi host ảnh sau khi upload; để trống thì file chỉ ghi tên ảnh
+}
+
+export const DEFAULT_MARKETPLACE_DEFAULTS: MarketplaceDefaults = {
+  price: 24.99,
+  currency: 'USD',
+  quantity: 999,
+  colors: ['Black', 'White', 'Navy'],
+  vendor: '',
+  imageBaseUrl: '',
+};
+
+export interface MarketplaceFile {
+  path: string;
+  data: string | Blob;
+  base64?: boolean;
+}
+
+export interface MarketplaceExport {
+  files: MarketplaceFile[];
+  errors: string[]; // Có lỗi thì không xuất
+  warnings: string[];
+}
+
+type Row = Record<string, string | number | undefined>;
+
+interface ProductImage {
+  fileName: string;
+  url: string;
+  result: BatchResult;
+}
+
+interface Product {
+  batch: BatchItem;
+  slug: string;
+  sku: string;
+  price: number;
+  colors: string[];
+  images: ProductImage[];
+}
+
+interface MarketplaceProfile {
+  id: MarketplaceProfileId;
+  label: string;
+  description: string;
+  fileName: string;
+  format: 'csv' | 'tsv';
+  maxImages: number;
+  columns: string[];
+  imageName: (product: Omit<Product, 'images'>, index: number) => string;
+  rows: (product: Product, defaults: MarketplaceDefaults) => Array<{ row: Row; required: string[] }>;
+}
+
+const slugify = (text: string) => text
+  .toLowerCase()
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .replace(/đ/g, 'd')
+  .replace(/[^a-z0-9]+/g, '-')
+  .replace(/^-+|-+$/g, '')
+  .slice(0, 60)
+  .replace(/-+$/, '');
+
+// Hash ngắn của batch id để SKU không trùng giữa các batch cùng keyword
+const shortHash = (text: string) => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = ((hash << 5) + hash + text.charCodeAt(i)) >>> 0;
+  return hash.toString(36).toUpperCase().slice(-4);
+};
+
+const colorCode = (color: string) => color.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 6);
+
+const titleOf = (batch: BatchItem) => batch.listing?.etsy.title || batch.name;
+const descriptionOf = (batch: BatchItem) => batch.listing?.etsy.description || batch.listing?.amazon.description || '';
+const tagsOf = (batch: BatchItem) => batch.listing?.etsy.tags.length ? batch.listing.etsy.tags : normalizeEtsyTags([batch.name]);
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Giá trị color_map Amazon chấp nhận; màu khác quy về Multicolor
+const AMAZON_COLOR_MAP = ['Beige', 'Black', 'Blue', 'Brown', 'Gold', 'Green', 'Grey', 'Multicolor', 'Orange', 'Pink', 'Purple', 'Red', 'Silver', 'White', 'Yellow'];
+const toAmazonColorMap = (color: string) => {
+  const normalized = color.toLowerCase().replace('gray', 'grey').replace('navy', 'blue');
+  return AMAZON_COLOR_MAP.find(c => normalized.includes(c.toLowerCase())) || 'Multicolor';
+};
+
+const etsyProfile: MarketplaceProfile = {
+  id: 'etsy',
+  label: 'Etsy listing CSV',
+  description: 'Cột theo file Download Data của Etsy, 1 dòng / listing, tối đa 10 ảnh và 13 tag',
+  fileName: 'EtsyListingsDownload.csv',
+  format: 'csv',
+  maxImages: 10,
+  columns: [
+    'TITLE', 'DESCRIPTION', 'PRICE', 'CURRENCY_CODE', 'QUANTITY', 'TAGS', 'MATERIALS',
+    ...Array.from({ length: 10 }, (_, i) => `IMAGE${i + 1}`),
+    'VARIATION 1 TYPE', 'VARIATION 1 NAME', 'VARIATION 1 VALUES', 'SKU',
+  ],
+  imageName: (product, index) => `${product.slug}-${index + 1}.png`,
+  rows: (product, defaults) => [{
+    row: {
+      TITLE: truncateWords(titleOf(product.batch), LISTING_LIMITS.etsy.title.max),
+      DESCRIPTION: descriptionOf(product.batch),
+      PRICE: product.price.toFixed(2),
+      CURRENCY_CODE: defaults.currency,
+      QUANTITY: defaults.quantity,
+      TAGS: tagsOf(product.batch).join(','),
+      MATERIALS: '',
+      ...Object.fromEntries(product.images.map((image, i) => [`IMAGE${i + 1}`, image.url])),
+      'VARIATION 1 TYPE': 'Primary color',
+      'VARIATION 1 NAME': 'Color',
+      'VARIATION 1 VALUES': product.colors.join(','),
+      SKU: product.sku,
+    },
+    required: ['TITLE', 'DESCRIPTION', 'PRICE', 'CURRENCY_CODE', 'QUANTITY', 'IMAGE1', 'VARIATION 1 VALUES'],
+  }],
+};
+
+const shopifyProfile: MarketplaceProfile = {
+  id: 'shopify',
+  label: 'Shopify product CSV',
+  description: 'Dòng đầu là sản phẩm, các dòng sau cùng Handle là variant màu và ảnh phụ',
+  fileName: 'products.csv',
+  format: 'csv',
+  maxImages: 250,
+  columns: [
+    'Handle', 'Title', 'Body (HTML)', 'Vendor', 'Type', 'Tags', 'Published',
+    'Option1 Name', 'Option1 Value', 'Variant SKU', 'Variant Price', 'Variant Inventory Qty', 'Variant Inventory Policy',
+    'Variant Fulfillment Service', 'Variant Requires Shipping', 'Image Src', 'Image Position', 'Image Alt Text', 'Status',
+  ],
+  imageName: (product, index) => `${product.slug}-${index + 1}.png`,
+  rows: (product, defaults) => {
+    const { batch } = product;
+    const count = Math.max(product.colors.length, product.images.length);
+    return Array.from({ length: count }, (_, i) => {
+      const color = product.colors[i];
+      const image = product.images[i];
+      const row: Row = { Handle: product.slug };
+      if (i === 0) {
+        Object.assign(row, {
+          Title: titleOf(batch),
+          'Body (HTML)': descriptionOf(batch).split(/\n+/).filter(Boolean).map(p => `<p>${escapeHtml(p)}</p>`).join(''),
+          Vendor: batch.listing?.amazon.brand || defaults.vendor,
+          Type: 'T-Shirt',
+          Tags: tagsOf(batch).join(', '),
+          Published: 'TRUE',
+          'Option1 Name': 'Color',
+          Status: 'active',
+        });
+      }
+      if (color) {
+        Object.assign(row, {
+          'Option1 Value': color,
+          'Variant SKU': `${product.sku}-${colorCode(color)}`,
+          'Variant Price': product.price.toFixed(2),
+          'Variant Inventory Qty': defaults.quantity,
+          'Variant Inventory Policy': 'deny',
+          'Variant Fulfillment Service': 'manual',
+          'Variant Requires Shipping': 'TRUE',
+        });
+      }
+      if (image) {
+        Object.assign(row, { 'Image Src': image.url, 'Image Position': i + 1, 'Image Alt Text': `${batch.name} ${i + 1}` });
+      }
+      const required = ['Handle'];
+      if (i === 0) required.push('Title', 'Vendor', 'Option1 Name', 'Image Src');
+      if (color) required.push('Option1 Value', 'Variant SKU', 'Variant Price');
+      return { row, required };
+    });
+  },
+};
+
+const amazonProfile: MarketplaceProfile = {
+  id: 'amazon',
+  label: 'Amazon flat file',
+  description: 'Tab-delimited, 1 dòng parent + 1 dòng child / màu; ảnh đặt tên SKU.MAIN / SKU.PT01...',
+  fileName: 'Flat.File.Clothing.txt',
+  format: 'tsv',
+  maxImages: 8,
+  columns: [
+    'feed_product_type', 'item_sku', 'brand_name', 'item_name', 'product_description', 'bullet_point1', 'bullet_point2',
+    'generic_keywords', 'standard_price', 'currency', 'quantity', 'main_image_url',
+    ...Array.from({ length: 7 }, (_, i) => `other_image_url${i + 1}`),
+    'parent_child', 'parent_sku', 'relationship_type', 'variation_theme', 'color_name', 'color_map', 'department_name', 'update_delete',
+  ],
+  imageName: (product, index) => `${product.sku}.${index === 0 ? 'MAIN' : `PT${String(index).padStart(2, '0')}`}.png`,
+  rows: (product, defaults) => {
+    const { batch } = product;
+    const amazon = batch.listing?.amazon;
+    const shared: Row = {
+      feed_product_type: 'shirt',
+      brand_name: amazon?.brand || defaults.vendor,
+      item_name: amazon?.title || batch.name,
+      product_description: amazon?.description,
+      bullet_point1: amazon?.bullets[0],
+      bullet_point2: amazon?.bullets[1],
+      generic_keywords: tagsOf(batch).join(' '),
+      main_image_url: product.images[0]?.url,
+      ...Object.fromEntries(product.images.slice(1).map((image, i) => [`other_image_url${i + 1}`, image.url])),
+      department_name: 'unisex-adult',
+      update_delete: 'Update',
+    };
+    const baseRequired = ['feed_product_type', 'item_sku', 'brand_name', 'item_name', 'bullet_point1', 'main_image_url'];
+    return [
+      {
+        row: { ...shared, item_sku: product.sku, parent_child: 'parent', variation_theme: 'Color' },
+        required: [...baseRequired, 'parent_child', 'variation_theme'],
+      },
+      ...product.colors.map(color => ({
+        row: {
+          ...shared,
+          item_sku: `${product.sku}-${colorCode(color)}`,
+          item_name: `${amazon?.title || batch.name} - ${color}`,
+          standard_price: product.price.toFixed(2),
+          currency: defaults.currency,
+          quantity: defaults.quantity,
+          parent_child: 'child',
+          parent_sku: product.sku,
+          relationship_type: 'Variation',
+          variation_theme: 'Color',
+          color_name: color,
+          color_map: toAmazonColorMap(color),
+        },
+        required: [...baseRequired, 'standard_price', 'quantity', 'parent_sku', 'color_name', 'color_map'],
+      })),
+    ];
+  },
+};
+
+export const MARKETPLACE_PROFILES: MarketplaceProfile[] = [etsyProfile, shopifyProfile, amazonProfile];
+
+/**
+ * Ảnh đưa lên listing (ảnh bị loại không được xuất). Ảnh chính: hero, không có hero thì ảnh đã dùng để viết listing,
+ * sau đó mới đến ảnh đại diện mặc định của batch; tiếp theo là các ảnh đã chọn còn lại
+ */
+const orderResults = (batch: BatchItem): BatchResult[] => {
+  const results = listSelectedResults(batch);
+  const main = results.find(r => batch.reviews?.[r.key] === 'hero')
+    ?? results.find(r => r.key === batch.listing?.sourceKey)
+    ?? pickBatchResult(batch);
+  return main ? [main, ...results.filter(r => r.key !== main.key)] : results;
+};
+
+/**
+ * Tạo file bulk-upload cho các batch. Ảnh ưu tiên bản upscale để in nếu đã có.
+ */
+export const buildMarketplaceExport = (
+  profileId: MarketplaceProfileId,
+  batches: BatchItem[],
+  defaults: MarketplaceDefaults
+): MarketplaceExport => {
+  const profile = MARKETPLACE_PROFILES.find(p => p.id === profileId)!;
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const files: MarketplaceFile[] = [];
+  const rows: Row[] = [];
+  const baseUrl = defaults.imageBaseUrl.trim().replace(/\/+$/, '');
+  if (!baseUrl) warnings.push('Chưa có Image base URL: file chỉ ghi tên ảnh, cần thay bằng link ảnh đã host trước khi upload.');
+
+  // Slug là Handle của Shopify và tên file ảnh: batch trùng keyword được thêm hậu tố để không gộp sản phẩm / ghi đè ảnh
+  const usedSlugs = new Set<string>();
+
+  for (const batch of batches) {
+    const keywordSlug = slugify(batch.name) || 'design';
+    let slug = keywordSlug;
+    for (let n = 2; usedSlugs.has(slug); n++) slug = `${keywordSlug}-${n}`;
+    usedSlugs.add(slug);
+    const base = {
+      batch,
+      slug,
+      sku: `${keywordSlug.replace(/-/g, '').toUpperCase().slice(0, 16)}-${shortHash(batch.id)}`,
+      price: batch.price ?? defaults.price,
+      colors: batch.variantColors?.length ? batch.variantColors : defaults.colors,
+    };
+    const results = orderResults(batch).slice(0, profile.maxImages);
+    const images = results.map((result, i) => {
+      const fileName = profile.imageName(base, i);
+      return { fileName, url: baseUrl ? `${baseUrl}/${fileName}` : fileName, result };
+    });
+    const product: Product = { ...base, images };
+
+    if (images.length === 0) errors.push(`${batch.name}: chưa có ảnh thiết kế`);
+    if (!(product.price > 0)) errors.push(`${batch.name}: giá phải lớn hơn 0`);
+    if (product.colors.length === 0) errors.push(`${batch.name}: chưa có màu variant`);
+    if (!batch.listing) warnings.push(`${batch.name}: chưa có listing copy, dùng keyword làm title`);
+
+    profile.rows(product, defaults).forEach(({ row, required }, i) => {
+      const missing = required.filter(column => {
+        if (!profile.columns.includes(column)) throw new Error(`Profile ${profile.label} thiếu cột ${column}`);
+        const value = row[column];
+        return value === undefined || String(value).trim() === '';
+      });
+      if (missing.length) errors.push(`${batch.name} (dòng ${i + 1}): thiếu ${missing.join(', ')}`);
+      rows.push(row);
+    });
+
+    for (const image of images) {
+      const upscaled = batch.upscaled?.[image.result.key];
+      files.push(upscaled
+        ? { path: `images/${image.fileName}`, data: upscaled.blob }
+        : { path: `images/${image.fileName}`, data: image.result.image.split(',')[1], base64: true });
+    }
+  }
+
+  const table = [profile.columns, ...rows.map(row => profile.columns.map(column => row[column]))];
+  files.unshift({ path: profile.fileName, data: profile.format === 'tsv' ? toTsv(table) : toCsv(table) });
+  return { files, errors, warnings };
+};
@@ -0,0 +1,166 @@
+import { AspectRatio, ASPECT_RATIOS } from "./imageProvider";
+
+// Xử lý mask cho chỉnh sửa theo vùng: cắt vùng được tô để gửi AI, sau đó ghép
+// kết quả trở lại ảnh gốc bằng canvas. Pixel nằm ngoài mask được giữ nguyên tuyệt đối.
+
+export interface MaskBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.crossOrigin = "anonymous";
+  img.onload = () => resolve(img);
+  img.onerror = reject;
+  img.src = src;
+});
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+/**
+ * Khung bao quanh các pixel có alpha > 0 của mask, nới thêm `padding` để AI thấy ngữ cảnh xung quanh
+ */
+export const getMaskBounds = (mask: HTMLCanvasElement | HTMLImageElement, padding: number = 0): MaskBounds | null => {
+  const width = mask.width;
+  const height = mask.height;
+  const ctx = createCanvas(width, height).getContext('2d')!;
+  ctx.drawImage(mask, 0, 0);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] > 0) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  if (maxX < 0) return null;
+
+  const x = Math.max(0, minX - padding);
+  const y = Math.max(0, minY - padding);
+  return {
+    x,
+    y,
+    width: Math.min(width, maxX + 1 + padding) - x,
+    height: Math.min(height, maxY + 1 + padding) - y,
+  };
+};
+
+/**
+ * Tỉ lệ khung hình được hỗ trợ gần nhất với vùng cắt
+ */
+export const getClosestAspectRatio = (width: number, height: number): AspectRatio => {
+  const target = width / height;
+  const ratioOf = (r: AspectRatio) => {
+    const [w, h] = r.split(':').map(Number);
+    return w / h;
+  };
+  return ASPECT_RATIOS.reduce((best, r) =>
+    Math.abs(Math.log(ratioOf(r) / target)) < Math.abs(Math.log(ratioOf(best) / target)) ? r : best
+  );
+};
+
+/**
+ * Nới khung cắt cho khớp tỉ lệ sẽ gửi AI (trong giới hạn ảnh) để kết quả không bị méo khi ghép lại
+ */
+const fitBoundsToRatio = (bounds: MaskBounds, ratio: AspectRatio, imageWidth: number, imageHeight: number): MaskBounds => {
+  const [rw, rh] = ratio.split(':').map(Number);
+  let width = bounds.width;
+  let height = bounds.height;
+  if (width / height < rw / rh) width = Math.round(height * rw / rh);
+  else height = Math.round(width * rh / rw);
+  width = Math.min(width, imageWidth);
+  height = Math.min(height, imageHeight);
+
+  const centerX = bounds.x + bounds.width / 2;
+  const centerY = bounds.y + bounds.height / 2;
+  const x = Math.round(Math.min(Math.max(0, centerX - width / 2), imageWidth - width));
+  const y = Math.round(Math.min(Math.max(0, centerY - height / 2), imageHeight - height));
+  return { x, y, width, height };
+};
+
+export interface MaskedRegion {
+  crop: string; // data URL của vùng cắt gửi cho AI
+  bounds: MaskBounds;
+  aspectRatio: AspectRatio;
+}
+
+/**
+ * Đưa mask vẽ trên ảnh xem trước đã xoay (bội số 90°) về đúng hướng của ảnh gốc trước khi cắt / ghép
+ */
+export const unrotateMask = async (mask: string, rotation: number): Promise<string> => {
+  const degrees = ((rotation % 360) + 360) % 360;
+  if (degrees === 0) return mask;
+  const maskImg = await loadImage(mask);
+  const swapped = degrees % 180 !== 0;
+  const canvas = createCanvas(swapped ? maskImg.naturalHeight : maskImg.naturalWidth, swapped ? maskImg.naturalWidth : maskImg.naturalHeight);
+  const ctx = canvas.getContext('2d')!;
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((-degrees * Math.PI) / 180);
+  ctx.drawImage(maskImg, -maskImg.naturalWidth / 2, -maskImg.naturalHeight / 2);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Cắt vùng chứa mask (kèm viền ngữ cảnh) từ ảnh gốc
+ */
+export const extractMaskedRegion = async (image: string, mask: string, contextPadding: number = 48): Promise<MaskedRegion> => {
+  const [img, maskImg] = await Promise.all([loadImage(image), loadImage(mask)]);
+  const rawBounds = getMaskBounds(maskImg, contextPadding);
+  if (!rawBounds) throw new Error("Chưa tô vùng cần chỉnh sửa.");
+
+  const aspectRatio = getClosestAspectRatio(rawBounds.width, rawBounds.height);
+  const bounds = fitBoundsToRatio(rawBounds, aspectRatio, img.naturalWidth, img.naturalHeight);
+  const canvas = createCanvas(bounds.width, bounds.height);
+  canvas.getContext('2d')!.drawImage(img, bounds.x, bounds.y, bounds.width, bounds.height, 0, 0, bounds.width, bounds.height);
+  return { crop: canvas.toDataURL('image/png'), bounds, aspectRatio };
+};
+
+/**
+ * Ghép ảnh AI trả về vào đúng vùng mask. Feather chỉ làm mềm phía trong mask,
+ * nên alpha bên ngoài mask luôn bằng 0 và pixel gốc không bị thay đổi.
+ */
+export const compositeMaskedRegion = async (
+  image: string,
+  mask: string,
+  patch: string,
+  bounds: MaskBounds,
+  feather: number = 6
+): Promise<string> => {
+  const [img, maskImg, patchImg] = await Promise.all([loadImage(image), loadImage(mask), loadImage(patch)]);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+
+  // Alpha của lớp patch = mask đã làm mềm, cắt lại bởi mask gốc
+  const layer = createCanvas(width, height);
+  const layerCtx = layer.getContext('2d')!;
+  layerCtx.drawImage(patchImg, bounds.x, bounds.y, bounds.width, bounds.height);
+  if (feather > 0) {
+    const soft = createCanvas(width, height);
+    const softCtx = soft.getContext('2d')!;
+    softCtx.filter = `blur(${feather}px)`;
+    softCtx.drawImage(maskImg, 0, 0, width, height);
+    layerCtx.globalCompositeOperation = 'destination-in';
+    layerCtx.drawImage(soft, 0, 0);
+  }
+  layerCtx.globalCompositeOperation = 'destination-in';
+  layerCtx.drawImage(maskImg, 0, 0, width, height);
+
+  const output = createCanvas(width, height);
+  const ctx = output.getContext('2d')!;
+  ctx.drawImage(img, 0, 0);
+  ctx.drawImage(layer, 0, 0);
+  return output.toDataURL('image/png');
+};
@@ -1,3 +1,5 @@
+import { CompetitorProduct } from '../types';
+
 const MOCKUP_SERVER_URL = 'http://localhost:3001';
 
 export interface MockupExportResult {
@@ -133,19 +135,53 @@ export async function getQueueStatus(): Promise<{ queueLength: number; isProcess
   }
 }
 
+// Sản phẩm server trả về: chỉ số thiếu là null, `image` là ảnh base64 đã tải
+interface CrawlResponseProduct {
+  source: 'amazon' | 'etsy';
+  title: string;
+  price: number | null;
+  currency: string | null;
+  rating: number | null;
+  reviewCount: number | null;
+  url: string;
+  imageUrl: string;
+  image: string;
+}
+
+export interface CrawledProduct extends Omit<CompetitorProduct, 'imageId' | 'hash' | 'crawledAt'> {
+  image: string; // Base64 data URL
+}
+
+const toCrawledProducts = (products: CrawlResponseProduct[] = []): CrawledProduct[] =>
+  products.map(p => ({
+    source: p.source,
+    title: p.title,
+    price: p.price ?? undefined,
+    currency: p.currency ?? undefined,
+    rating: p.rating ?? undefined,
+    reviewCount: p.reviewCount ?? undefined,
+    url: p.url,
+    imageUrl: p.imageUrl,
+    image: p.image,
+  }));
+
+async function crawl(endpoint: string, keyword: string, maxImages: number): Promise<CrawledProduct[]> {
+  const response = await fetch(`${MOCKUP_SERVER_URL}/api/crawl/${endpoint}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ keyword, maxImages }),
+  });
+  
+  const data = await response.json();
+  return data.success ? toCrawledProducts(data.products) : [];
+}
+
 /**
- * Crawl images from Amazon
+ * Crawl products from Amazon
  */
-export async function crawlAmazon(keyword: string, maxImages: number = 5): Promise<string[]> {
+export async function crawlAmazon(keyword: string, maxImages: number = 5): Promise<CrawledProduct[]> {
   try {
-    const response = await fetch(`${MOCKUP_SERVER_URL}/api/crawl/amazon`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ keyword, maxImages }),
-    });
-    
-    const data = await response.json();
-    return data.success ? data.images : [];
+    return await crawl('amazon', keyword, maxImages);
   } catch (error) {
     console.error('Amazon crawl error:', error);
     return [];
@@ -153,18 +189,11 @@ export async function crawlAmazon(keyword: string, maxImages: number = 5): Promi
 }
 
 /**
- * Crawl images from Etsy
+ * Crawl products from Etsy
  */
-export async function crawlEtsy(keyword: string, maxImages: number = 5): Promise<string[]> {
+export async function crawlEtsy(keyword: string, maxImages: number = 5): Promise<CrawledProduct[]> {
   try {
-    const response = await fetch(`${MOCKUP_SERVER_URL}/api/crawl/etsy`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ keyword, maxImages }),
-    });
-    
-    const data = await response.json();
-    return data.success ? data.images : [];
+    return await crawl('etsy', keyword, maxImages);
   } catch (error) {
     console.error('Etsy crawl error:', error);
     return [];
@@ -172,18 +201,11 @@ export async function crawlEtsy(keyword: string, maxImages: number = 5): Promise
 }
 
 /**
- * Crawl images from both Amazon and Etsy
+ * Crawl products from both Amazon and Etsy
  */
-export async function crawlBoth(keyword: string, maxImages: number = 3): Promise<string[]> {
+export async function crawlBoth(keyword: string, maxImages: number = 3): Promise<CrawledProduct[]> {
   try {
-    const response = await fetch(`${MOCKUP_SERVER_URL}/api/crawl/both`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ keyword, maxImages }),
-    });
-    
-    const data = await response.json();
-    return data.success ? data.images : [];
+    return await crawl('both', keyword, maxImages);
   } catch (error) {
     console.error('Crawl error:', error);
     return [];
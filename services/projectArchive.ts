@@ -0,0 +1,221 @@
+import JSZip from 'jszip';
+import { BatchItem, ListingCopy } from "../types";
+import { RESULT_MODES, ResultMode, getResultKey } from "./batchResults";
+import { MarketplaceDefaults } from "./marketplaceExport";
+import { PromptLibraryExport } from "./promptTemplates";
+import { ProjectSnapshot, blobToDataUrl, dataUrlToBlob, decodeSnapshot, encodeSnapshot, toProjectSnapshot } from "./projectSnapshot";
+import { QcSettings } from "./qualityGate";
+import { UpscaleAlgorithm } from "./upscaler";
+
+// File project .zecom: ZIP gồm manifest.json (state + prompt + cấu hình, có version) và thư mục assets/ chứa ảnh.
+// Mở lại được trên máy khác; ngoài ra đọc được ZIP "POD-*.zip" cũ (chỉ có ảnh) để dựng lại batch.
+
+export const PROJECT_ARCHIVE_EXTENSION = '.zecom';
+// Tăng khi đổi cấu trúc manifest; bản đọc phải hiểu được mọi version cũ hơn
+export const PROJECT_ARCHIVE_VERSION = 1;
+
+const ARCHIVE_FORMAT = 'zecom-project';
+const MANIFEST_FILE = 'manifest.json';
+const ASSET_FOLDER = 'assets/';
+
+// Cấu hình chung của App đi theo project
+export interface ProjectSettings {
+  outputsPerBatch: number;
+  upscaleAlgorithm: UpscaleAlgorithm;
+  upscaleBeforeExport: boolean;
+  qcSettings: QcSettings;
+  ipVisionCheck: boolean;
+  marketplaceDefaults: MarketplaceDefaults;
+}
+
+interface ProjectManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: number;
+  state: unknown; // ProjectSnapshot với ảnh là { $blob: đường dẫn trong assets/ }
+  prompts: PromptLibraryExport;
+  settings: ProjectSettings;
+}
+
+export interface ProjectArchive {
+  name: string;
+  snapshot: ProjectSnapshot;
+  prompts: PromptLibraryExport;
+  settings: Partial<ProjectSettings>;
+}
+
+export type ProjectFileContents =
+  | { kind: 'archive'; archive: ProjectArchive }
+  | { kind: 'legacy'; batches: BatchItem[] };
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+const mimeOf = (path: string) => {
+  const extension = path.split('.').pop()?.toLowerCase();
+  const entry = Object.entries(MIME_EXTENSIONS).find(([, ext]) => ext === extension || (ext === 'jpg' && extension === 'jpeg'));
+  return entry?.[0] ?? 'application/octet-stream';
+};
+
+// JSZip trả blob không có MIME; gán lại theo đuôi file để data URL dựng lại đúng loại ảnh
+const readBlob = async (file: JSZip.JSZipObject) => new Blob([await file.async('arraybuffer')], { type: mimeOf(file.name) });
+
+/**
+ * Đóng gói project thành file .zecom; ảnh trùng nhau chỉ ghi một lần
+ */
+export const buildProjectArchive = async (name: string, snapshot: ProjectSnapshot, prompts: PromptLibraryExport, settings: ProjectSettings): Promise<Blob> => {
+  const zip = new JSZip();
+  const byDataUrl = new Map<string, string>();
+  const byBlob = new Map<Blob, string>();
+  const addAsset = (blob: Blob) => {
+    const path = `${ASSET_FOLDER}${String(byDataUrl.size + byBlob.size + 1).padStart(4, '0')}.${MIME_EXTENSIONS[blob.type] ?? 'bin'}`;
+    // Ảnh đã nén sẵn, nén thêm chỉ tốn thời gian
+    zip.file(path, blob, { compression: 'STORE' });
+    return path;
+  };
+  const state = encodeSnapshot(snapshot, {
+    fromDataUrl: dataUrl => {
+      let path = byDataUrl.get(dataUrl);
+      if (!path) {
+        path = addAsset(dataUrlToBlob(dataUrl));
+        byDataUrl.set(dataUrl, path);
+      }
+      return path;
+    },
+    fromBlob: blob => {
+      let path = byBlob.get(blob);
+      if (!path) {
+        path = addAsset(blob);
+        byBlob.set(blob, path);
+      }
+      return path;
+    },
+  });
+  const manifest: ProjectManifest = {
+    format: ARCHIVE_FORMAT,
+    version: PROJECT_ARCHIVE_VERSION,
+    name,
+    exportedAt: Date.now(),
+    state,
+    prompts,
+    settings,
+  };
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+const readArchive = async (zip: JSZip, manifestFile: JSZip.JSZipObject): Promise<ProjectArchive> => {
+  const manifest = JSON.parse(await manifestFile.async('string')) as ProjectManifest;
+  if (manifest.format !== ARCHIVE_FORMAT) throw new Error('manifest.json không phải của project .zecom');
+  if (manifest.version > PROJECT_ARCHIVE_VERSION) {
+    throw new Error(`Project được tạo bởi phiên bản mới hơn (định dạng v${manifest.version}), hãy cập nhật ứng dụng`);
+  }
+  const assets = zip.filter(path => path.startsWith(ASSET_FOLDER));
+  const blobs = new Map(await Promise.all(assets.map(async file => [file.name, await readBlob(file)] as const)));
+  const restored = (await decodeSnapshot(manifest.state, { get: path => blobs.get(path) })) as Partial<ProjectSnapshot>;
+  return {
+    name: manifest.name,
+    snapshot: toProjectSnapshot(restored),
+    prompts: manifest.prompts ?? { templates: [], defaults: {} },
+    settings: manifest.settings ?? {},
+  };
+};
+
+const IMAGE_FILE = /\.(png|jpe?g|webp)$/i;
+// Số thứ tự cuối tên file, vd. "Cat Lover Pattern 2.png" → 2
+const trailingNumber = (name: string) => Number(name.replace(IMAGE_FILE, '').match(/(\d+)$/)?.[1] ?? Infinity);
+
+/**
+ * Dựng batch từ ZIP cũ: <batch>/<Normal|Pro|White|Pattern3D|Tile>/*.png, kèm Transparent/ và listing.json nếu có.
+ * ZIP cũ không có ảnh input, prompt hay lịch sử nên chỉ khôi phục được kết quả; bản in 300 DPI bị bỏ qua
+ * (không biết thuật toán / DPI đã dùng) và có thể upscale lại.
+ */
+const readLegacyZip = async (zip: JSZip): Promise<BatchItem[]> => {
+  const modeByFolder = new Map(RESULT_MODES.map(m => [m.folder.toLowerCase(), m]));
+  const modeByLabel = new Map(RESULT_MODES.map(m => [m.label.toLowerCase(), m.mode]));
+  const groups = new Map<string, { name: string; results: Map<ResultMode, JSZip.JSZipObject[]>; cutouts: JSZip.JSZipObject[] }>();
+  const groupOf = (path: string[]) => {
+    const key = path.join('/');
+    let group = groups.get(key);
+    if (!group) {
+      group = { name: path[path.length - 1], results: new Map(), cutouts: [] };
+      groups.set(key, group);
+    }
+    return group;
+  };
+
+  zip.forEach((path, file) => {
+    const parts = path.split('/');
+    // ZIP có thể được nén lại với một thư mục bọc ngoài, nên chỉ xét 2 cấp cuối
+    if (file.dir || parts.length < 3 || !IMAGE_FILE.test(path)) return;
+    const folder = parts[parts.length - 2].toLowerCase();
+    const batchPath = parts.slice(0, -2);
+    const mode = modeByFolder.get(folder);
+    if (mode) {
+      const results = groupOf(batchPath).results;
+      results.set(mode.mode, [...(results.get(mode.mode) || []), file]);
+    } else if (folder === 'transparent') {
+      groupOf(batchPath).cutouts.push(file);
+    }
+  });
+
+  const batches: BatchItem[] = [];
+  for (const [batchPath, group] of groups) {
+    if (group.results.size === 0) continue;
+    const batch: BatchItem = {
+      id: `import-${Date.now()}-${batches.length}`,
+      name: group.name,
+      images: [],
+      status: 'completed',
+      resultsNormal: [],
+      resultsPro: [],
+      resultsWhite: [],
+      resultsPattern: [],
+      resultsTile: [],
+    };
+    // Vị trí trong mảng kết quả theo số thứ tự trên tên file, để ghép ảnh Transparent đúng key
+    const positions = new Map<string, number>();
+    for (const { mode, field } of RESULT_MODES) {
+      const files = (group.results.get(mode) || []).sort((a, b) => trailingNumber(a.name) - trailingNumber(b.name));
+      files.forEach((file, index) => positions.set(`${mode}:${trailingNumber(file.name)}`, index));
+      batch[field] = await Promise.all(files.map(async file => blobToDataUrl(await readBlob(file))));
+    }
+
+    const cutouts: Record<string, string> = {};
+    for (const file of group.cutouts) {
+      const match = file.name.match(/ (\w+) (\d+) Transparent\.\w+$/i);
+      const mode = match ? modeByLabel.get(match[1].toLowerCase()) : undefined;
+      const index = mode ? positions.get(`${mode}:${Number(match![2])}`) : undefined;
+      if (mode && index !== undefined) cutouts[getResultKey(mode, index)] = await blobToDataUrl(await readBlob(file));
+    }
+    if (Object.keys(cutouts).length > 0) batch.cutouts = cutouts;
+
+    const listingFile = zip.file(`${batchPath}/listing.json`);
+    if (listingFile) {
+      try {
+        batch.listing = JSON.parse(await listingFile.async('string')) as ListingCopy;
+      } catch {
+        // listing.json hỏng: bỏ qua, ảnh vẫn dùng được
+      }
+    }
+    batches.push(batch);
+  }
+  return batches;
+};
+
+/**
+ * Đọc file project: .zecom (có manifest) hoặc ZIP xuất từ "Download ZIP" bản cũ
+ */
+export const readProjectFile = async (file: Blob): Promise<ProjectFileContents> => {
+  const zip = await JSZip.loadAsync(file);
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (manifestFile) return { kind: 'archive', archive: await readArchive(zip, manifestFile) };
+  const batches = await readLegacyZip(zip);
+  if (batches.length === 0) throw new Error('Không tìm thấy thư mục Normal / Pro / White / Pattern3D / Tile nào trong file ZIP');
+  return { kind: 'legacy', batches };
+};
@@ -0,0 +1,156 @@
+import { BatchItem, EditSession, ImageFile } from "../types";
+
+// Chuyển state của project sang JSON thuần + danh sách ảnh tách riêng và ngược lại.
+// Dùng chung cho bản lưu IndexedDB (projectStore) và file .zecom (projectArchive):
+// mỗi nơi tự quyết định ảnh được cất ở đâu, JSON chỉ giữ tham chiếu { $blob: id }.
+
+// Trạng thái của App cần khôi phục
+export interface ProjectSnapshot {
+  batches: BatchItem[];
+  current3DImage: string | null;
+  currentThemeName: string;
+  editSessions: EditSession[];
+  activeEditSessionId: string | null;
+}
+
+export type AssetRef = { $blob: string; $as?: 'dataUrl' };
+// ImageFile đã mã hóa: base64 cất thành asset, file + preview dựng lại khi mở
+type ImageFileRef = { $imageFile: { id: string; name: string; data: AssetRef } };
+
+// Nơi cất ảnh khi mã hóa: trả về id để ghi vào JSON
+export interface AssetWriter {
+  fromDataUrl: (dataUrl: string) => string;
+  fromBlob: (blob: Blob) => string;
+}
+
+// Nơi lấy ảnh khi giải mã; onRestored báo lại giá trị đã dựng để bên gọi cache id
+export interface AssetReader {
+  get: (id: string) => Blob | undefined;
+  onRestored?: (id: string, value: string | Blob) => void;
+}
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const comma = dataUrl.indexOf(',');
+  const header = dataUrl.slice(0, comma);
+  const data = dataUrl.slice(comma + 1);
+  const type = header.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+  if (!header.includes(';base64')) return new Blob([decodeURIComponent(data)], { type });
+  const bytes = atob(data);
+  const buffer = new Uint8Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) buffer[i] = bytes.charCodeAt(i);
+  return new Blob([buffer], { type });
+};
+
+/**
+ * Đọc Blob thành data URL (khôi phục ảnh khi mở project, gửi bản upscale cho Mockup Server)
+ */
+export const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const isImageFile = (value: unknown): value is ImageFile =>
+  typeof value === 'object' && value !== null && 'preview' in value
+  && 'id' in value && typeof value.id === 'string'
+  && 'file' in value && value.file instanceof Blob
+  && 'base64' in value && typeof value.base64 === 'string';
+
+const isAssetRef = (value: unknown): value is AssetRef =>
+  typeof value === 'object' && value !== null && '$blob' in value && typeof value.$blob === 'string';
+
+const isImageFileRef = (value: object): value is ImageFileRef => {
+  if (!('$imageFile' in value) || typeof value.$imageFile !== 'object' || value.$imageFile === null) return false;
+  const ref = value.$imageFile;
+  return 'id' in ref && typeof ref.id === 'string' && 'name' in ref && typeof ref.name === 'string' && 'data' in ref && isAssetRef(ref.data);
+};
+
+/**
+ * Thay mọi ảnh trong state bằng tham chiếu asset.
+ * - data URL → asset (khôi phục lại thành data URL)
+ * - Blob / File → asset
+ * - ImageFile → chỉ lưu base64 một lần (file + preview dựng lại khi mở)
+ * - Object URL ("blob:...") bị bỏ, dựng lại từ blob cạnh nó khi mở
+ */
+export const encodeSnapshot = (value: unknown, writer: AssetWriter): unknown => {
+  const refDataUrl = (dataUrl: string): AssetRef => ({ $blob: writer.fromDataUrl(dataUrl), $as: 'dataUrl' });
+  const walk = (node: unknown): unknown => {
+    if (typeof node === 'string') {
+      if (node.startsWith('data:')) return refDataUrl(node);
+      return node.startsWith('blob:') ? undefined : node;
+    }
+    if (node instanceof Blob) return { $blob: writer.fromBlob(node) };
+    if (Array.isArray(node)) return node.map(walk);
+    if (isImageFile(node)) return { $imageFile: { id: node.id, name: node.file.name, data: refDataUrl(node.base64) } } satisfies ImageFileRef;
+    if (node && typeof node === 'object') {
+      const out: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(node)) {
+        if (typeof child === 'function') continue;
+        const encoded = walk(child);
+        if (encoded !== undefined) out[key] = encoded;
+      }
+      return out;
+    }
+    return node;
+  };
+  return walk(value);
+};
+
+export const decodeSnapshot = async (value: unknown, reader: AssetReader): Promise<unknown> => {
+  const toBlob = (id: string) => reader.get(id) ?? new Blob();
+  const toDataUrl = async (id: string) => {
+    const dataUrl = await blobToDataUrl(toBlob(id));
+    reader.onRestored?.(id, dataUrl);
+    return dataUrl;
+  };
+  const walk = async (node: unknown): Promise<unknown> => {
+    if (Array.isArray(node)) return Promise.all(node.map(walk));
+    if (!node || typeof node !== 'object') return node;
+    if (isAssetRef(node)) {
+      if (node.$as === 'dataUrl') return toDataUrl(node.$blob);
+      const blob = toBlob(node.$blob);
+      reader.onRestored?.(node.$blob, blob);
+      return blob;
+    }
+    if (isImageFileRef(node)) {
+      const { id, name, data } = node.$imageFile;
+      const blob = toBlob(data.$blob);
+      const image: ImageFile = {
+        id,
+        file: new File([blob], name, { type: blob.type }),
+        preview: URL.createObjectURL(blob),
+        base64: await toDataUrl(data.$blob),
+      };
+      return image;
+    }
+    const out: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(node)) out[key] = await walk(child);
+    // Object URL của các asset dạng { blob, url } (vd. bản upscale)
+    if (out.blob instanceof Blob && out.url === undefined) out.url = URL.createObjectURL(out.blob);
+    return out;
+  };
+  return walk(value);
+};
+
+// Trạng thái đang chạy không còn đúng sau khi mở lại: batch dở dang chuyển thành interrupted để resume
+const normalizeBatch = (batch: BatchItem): BatchItem => ({
+  ...batch,
+  status: batch.status === 'processing' || batch.status === 'stopping' ? 'interrupted' : batch.status,
+  isAnalyzingInsights: undefined,
+  isGeneratingListing: undefined,
+});
+
+/**
+ * Snapshot đầy đủ từ dữ liệu đã giải mã (thiếu trường nào thì lấy mặc định)
+ */
+export const toProjectSnapshot = (restored: Partial<ProjectSnapshot>): ProjectSnapshot => ({
+  batches: (restored.batches || []).map(normalizeBatch),
+  current3DImage: restored.current3DImage ?? null,
+  currentThemeName: restored.currentThemeName ?? '',
+  editSessions: restored.editSessions || [],
+  activeEditSessionId: restored.activeEditSessionId ?? null,
+});
+
+export const countResults = (batch: BatchItem) =>
+  batch.resultsNormal.length + batch.resultsPro.length + batch.resultsWhite.length + batch.resultsPattern.length + batch.resultsTile.length;
@@ -0,0 +1,191 @@
+import { ProjectSnapshot, countResults, dataUrlToBlob, decodeSnapshot, encodeSnapshot, toProjectSnapshot } from "./projectSnapshot";
+
+// Lưu project vào IndexedDB để reload / crash không mất kết quả đã generate.
+// Ảnh (data URL, File, Blob) được tách ra store "blobs" và chỉ ghi khi mới xuất hiện;
+// bản ghi project chỉ chứa JSON với tham chiếu { $blob: id }.
+
+const DB_NAME = 'zecom3d';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const BLOBS = 'blobs';
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  batchCount: number;
+  resultCount: number;
+  thumbnailId?: string; // Blob của ảnh đại diện (pattern 3D hoặc kết quả đầu tiên)
+}
+
+interface ProjectRecord extends ProjectSummary {
+  state: unknown; // ProjectSnapshot đã thay ảnh bằng tham chiếu blob
+}
+
+interface BlobRecord {
+  id: string;
+  projectId: string;
+  blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(BLOBS)) db.createObjectStore(BLOBS, { keyPath: 'id' }).createIndex('projectId', 'projectId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+});
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 9)}`;
+
+export const createProjectId = (): string => `project-${createId()}`;
+
+// Ảnh đã ghi của từng project, để lần autosave sau không ghi lại
+const blobCaches = new Map<string, { dataUrls: Map<string, string>; blobs: WeakMap<Blob, string> }>();
+const getBlobCache = (projectId: string) => {
+  let cache = blobCaches.get(projectId);
+  if (!cache) {
+    cache = { dataUrls: new Map(), blobs: new WeakMap() };
+    blobCaches.set(projectId, cache);
+  }
+  return cache;
+};
+
+// Ghi ảnh mới vào `pending`, ảnh đã có trong cache thì dùng lại id
+const serialize = (snapshot: ProjectSnapshot, projectId: string, pending: Map<string, Blob>, used: Set<string>): unknown => {
+  const cache = getBlobCache(projectId);
+  return encodeSnapshot(snapshot, {
+    fromDataUrl: dataUrl => {
+      let id = cache.dataUrls.get(dataUrl);
+      if (!id) {
+        id = createId();
+        cache.dataUrls.set(dataUrl, id);
+        pending.set(id, dataUrlToBlob(dataUrl));
+      }
+      used.add(id);
+      return id;
+    },
+    fromBlob: blob => {
+      let id = cache.blobs.get(blob);
+      if (!id) {
+        id = createId();
+        cache.blobs.set(blob, id);
+        pending.set(id, blob);
+      }
+      used.add(id);
+      return id;
+    },
+  });
+};
+
+const restore = (state: unknown, projectId: string, blobs: Map<string, Blob>): Promise<unknown> => {
+  const cache = getBlobCache(projectId);
+  return decodeSnapshot(state, {
+    get: id => blobs.get(id),
+    onRestored: (id, value) => (typeof value === 'string' ? cache.dataUrls.set(value, id) : cache.blobs.set(value, id)),
+  });
+};
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const db = await openDb();
+  const records = await requestToPromise(db.transaction(PROJECTS).objectStore(PROJECTS).getAll() as IDBRequest<ProjectRecord[]>);
+  return records
+    .map(({ state: _state, ...summary }) => summary)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getProjectThumbnail(summary: ProjectSummary): Promise<Blob | undefined> {
+  if (!summary.thumbnailId) return undefined;
+  const db = await openDb();
+  const record = await requestToPromise(db.transaction(BLOBS).objectStore(BLOBS).get(summary.thumbnailId) as IDBRequest<BlobRecord | undefined>);
+  return record?.blob;
+}
+
+/**
+ * Ghi project: chỉ thêm ảnh mới, xóa ảnh không còn được tham chiếu
+ */
+export async function saveProject(id: string, name: string, snapshot: ProjectSnapshot): Promise<void> {
+  const pending = new Map<string, Blob>();
+  const used = new Set<string>();
+  const state = serialize(snapshot, id, pending, used);
+  const thumbnail = snapshot.current3DImage ?? snapshot.batches.flatMap(b => [...b.resultsPattern, ...b.resultsTile, ...b.resultsPro, ...b.resultsNormal, ...b.resultsWhite])[0];
+  const thumbnailId = thumbnail?.startsWith('data:') ? getBlobCache(id).dataUrls.get(thumbnail) : undefined;
+
+  const db = await openDb();
+  const existing = await requestToPromise(db.transaction(PROJECTS).objectStore(PROJECTS).get(id) as IDBRequest<ProjectRecord | undefined>);
+  const tx = db.transaction([PROJECTS, BLOBS], 'readwrite');
+  const blobStore = tx.objectStore(BLOBS);
+  pending.forEach((blob, blobId) => blobStore.put({ id: blobId, projectId: id, blob } as BlobRecord));
+  const record: ProjectRecord = {
+    id,
+    name,
+    createdAt: existing?.createdAt ?? Date.now(),
+    updatedAt: Date.now(),
+    batchCount: snapshot.batches.length,
+    resultCount: snapshot.batches.reduce((sum, b) => sum + countResults(b), 0),
+    thumbnailId,
+    state,
+  };
+  tx.objectStore(PROJECTS).put(record);
+  const keysRequest = blobStore.index('projectId').getAllKeys(id);
+  keysRequest.onsuccess = () => {
+    (keysRequest.result as string[]).filter(key => !used.has(key)).forEach(key => blobStore.delete(key));
+  };
+  await transactionDone(tx);
+
+  // Bỏ cache của ảnh đã xóa để lần sau xuất hiện lại thì được ghi lại
+  const cache = getBlobCache(id);
+  cache.dataUrls.forEach((blobId, dataUrl) => !used.has(blobId) && cache.dataUrls.delete(dataUrl));
+}
+
+export async function loadProject(id: string): Promise<{ summary: ProjectSummary; snapshot: ProjectSnapshot }> {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, BLOBS]);
+  const [record, blobRecords] = await Promise.all([
+    requestToPromise(tx.objectStore(PROJECTS).get(id) as IDBRequest<ProjectRecord | undefined>),
+    requestToPromise(tx.objectStore(BLOBS).index('projectId').getAll(id) as IDBRequest<BlobRecord[]>),
+  ]);
+  if (!record) throw new Error('Không tìm thấy project');
+
+  blobCaches.delete(id);
+  const blobs = new Map(blobRecords.map(r => [r.id, r.blob]));
+  const restored = (await restore(record.state, id, blobs)) as Partial<ProjectSnapshot>;
+  const { state: _state, ...summary } = record;
+  return { summary, snapshot: toProjectSnapshot(restored) };
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, BLOBS], 'readwrite');
+  tx.objectStore(PROJECTS).delete(id);
+  const blobStore = tx.objectStore(BLOBS);
+  const keysRequest = blobStore.index('projectId').getAllKeys(id);
+  keysRequest.onsuccess = () => (keysRequest.result as IDBValidKey[]).forEach(key => blobStore.delete(key));
+  await transactionDone(tx);
+  blobCaches.delete(id);
+}
@@ -0,0 +1,378 @@
+// Thư viện prompt template: prompt được lưu thành template có tên, có biến dạng {{keyword}},
+// có lịch sử version và template mặc định cho từng mode theo project.
+// Dữ liệu lưu trong localStorage để designer chỉnh prompt mà không cần sửa code.
+
+export type PromptSlot =
+  | 'design'
+  | 'white'
+  | 'pattern'
+  | 'tile'
+  | 'refine'
+  | 'insight'
+  | 'patternLayout'
+  | 'redesign'
+  | 'maskedEdit'
+  | 'creative'
+  | 'clone'
+  | 'qcVision'
+  | 'ipVision'
+  | 'listing'
+  | 'keywordExpand';
+
+export interface PromptTemplateVersion {
+  version: number;
+  body: string;
+  createdAt: number;
+  note?: string;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  slot: PromptSlot;
+  builtIn: boolean;
+  currentVersion: number;
+  versions: PromptTemplateVersion[];
+}
+
+interface PromptLibraryState {
+  templates: PromptTemplate[];
+  // projectId -> slot -> templateId
+  defaults: Record<string, Partial<Record<PromptSlot, string>>>;
+}
+
+// Prompt đi kèm file project: template đã chỉnh và template mặc định của project
+export interface PromptLibraryExport {
+  templates: PromptTemplate[];
+  defaults: Partial<Record<PromptSlot, string>>;
+}
+
+const STORAGE_KEY = 'zecom3d.promptLibrary';
+const DEFAULT_PROJECT_ID = 'default';
+
+export const PROMPT_SLOTS: Array<{ slot: PromptSlot; label: string; variables: string[] }> = [
+  { slot: 'design', label: 'Design (Normal / Pro)', variables: ['bgStyle', 'keyword', 'backgroundColor', 'insightCues'] },
+  { slot: 'white', label: 'White background', variables: ['keyword'] },
+  { slot: 'pattern', label: '3D Pattern', variables: ['keyword', 'patternLayout', 'insightCues'] },
+  { slot: 'tile', label: 'Seamless tile', variables: ['keyword', 'insightCues'] },
+  { slot: 'refine', label: 'Refine existing design', variables: ['customPrompt', 'keyword'] },
+  { slot: 'insight', label: 'Customer insight', variables: ['keyword'] },
+  { slot: 'patternLayout', label: 'Pattern layout rules', variables: [] },
+  { slot: 'redesign', label: 'Redesign pattern', variables: ['editPrompt', 'patternLayout'] },
+  { slot: 'maskedEdit', label: 'Masked region edit', variables: ['editPrompt'] },
+  { slot: 'creative', label: 'Creative pattern', variables: ['keyword', 'editPrompt', 'patternLayout'] },
+  { slot: 'clone', label: 'Clone mockup', variables: ['patternLayout'] },
+  { slot: 'qcVision', label: 'QC: text & watermark', variables: [] },
+  { slot: 'ipVision', label: 'IP: brands & characters', variables: [] },
+  { slot: 'listing', label: 'Listing copy', variables: ['keyword', 'insightCues', 'limits'] },
+  { slot: 'keywordExpand', label: 'Keyword expansion', variables: ['seed', 'count', 'existing'] },
+];
+
+// Nội dung gốc của các prompt trước đây nằm cứng trong geminiService
+const BUILT_IN_BODIES: Record<PromptSlot, string> = {
+  design: `Nhiệm vụ: Bạn là một chuyên gia thiết kế đồ họa đỉnh cao cho thị trường Print on Demand (POD).
+Hãy tạo ra một tác phẩm nghệ thuật (Asset Design) dựa trên các hình ảnh tham khảo.
+
+YÊU CẦU KỸ THUẬT & THẨM MỸ:
+- {{bgStyle}}
+- PHONG CÁCH: Digital Art chuyên nghiệp, Illustration chi tiết.
+- KHÔNG Mockup, KHÔNG có người mẫu, KHÔNG có vật dụng thừa. Chỉ tập trung vào đối tượng chính.
+- ĐỘ CHI TIẾT: Cực kỳ cao. Các đường nét sắc sảo.
+- MÀU SẮC: Hài hòa, sang trọng. Hạn chế hiệu ứng neon quá mức.
+- CỐ CỤC: Cân đối, phù hợp để in ngay.`,
+  white: `Dựa trên thiết kế này, hãy vẽ lại một phiên bản TƯƠNG TỰ nhưng nằm trên NỀN TRẮNG TINH (#FFFFFF).
+Yêu cầu:
+- Giữ nguyên các chi tiết chính.
+- Tối ưu màu sắc để nổi bật trên nền trắng.
+- Tuyệt đối không có mockup hay người mẫu.`,
+  pattern: `Create ONE single finished illustrated artwork for cut-and-sew / all-over print apparel. Theme {{keyword}}. Create a full-bleed, fabric-style continuous artwork without borders, margins, or padding, ensuring the design touches all four edges and fills the top and bottom completely without centering vertically or leaving safe margins. The composition must be ONE continuous artwork visually organized into THREE EQUAL VERTICAL AREAS (LEFT / CENTER / RIGHT) of equal width with no background color changes, lines, panels, frames, or visible separations between them. The CENTER area must contain a main action or focal moment on a solid uninterrupted background field where the central subject and integrated small one-line lettering are intentionally SMALL and RESTRAINED, occupying approximately 10% of the total canvas area and positioned exclusively in the center while the upper portion remains visually open but fully filled by the background. The LEFT third must feature a subject close-up or expressive pose with strong visual presence and background texture filling the full height, while the RIGHT third includes themed secondary elements with balanced density filling the full height. The style must be a bold illustrated mascot or graphic style with clean thick outlines and exaggerated expressions, strictly non-photorealistic and non-stock-photo, with background elements flowing vertically or organically in one consistent color palette across the entire canvas. Highlights are allowed only inside illustrated elements. Forbidden elements include technical text, labels, notes, dimensions, diagrams, guides, mockups, unequal thirds, variable gaps, letterbox bars, visible separations, standalone letters, or decorative words unless fully integrated without creating empty space. Output ONE image.`,
+  tile: `Create ONE seamless repeating tile (swatch) for all-over fabric printing such as leggings, socks and fabric yardage. Theme {{keyword}}. The output is a SQUARE tile that will be repeated edge-to-edge in a grid: anything that leaves the right edge must continue exactly on the left edge, and anything that leaves the bottom edge must continue exactly on the top edge, so no seam is visible when tiled. Distribute motifs evenly across the whole tile with varied rotation and spacing, no single focal point, no centered composition, and no border, frame, margin, vignette or lighting gradient toward the edges. Keep one consistent background color and color palette everywhere. Flat illustrated textile style with clean outlines, strictly non-photorealistic. Forbidden elements include text, letters, watermarks, mockups, visible grid lines, and motifs cut off at an edge without continuing on the opposite edge. Output ONE image.`,
+  refine: `Hãy tinh chỉnh thiết kế này trở nên chân thực, sắc nét hơn. Hạn chế neon. {{customPrompt}}`,
+  insight: `Nhiệm vụ: Phân tích insight khách hàng và thiết kế cho sản phẩm POD dựa trên keyword "{{keyword}}" và các hình ảnh tham khảo đính kèm.
+Yêu cầu:
+- Viết bằng tiếng Việt, súc tích, chuyên nghiệp.
+- Trả về JSON đúng schema được yêu cầu, không kèm văn bản nào khác.
+- Không dùng ký tự định dạng Markdown (#, *) trong nội dung.
+
+Nội dung từng trường:
+- keyword: "{{keyword}}"
+- designElements: các yếu tố thị giác, phong cách, màu sắc từ hình ảnh tham khảo (mỗi ý một phần tử)
+- purchaseMotivations: các lý do tâm lý hoặc thực tế khiến khách hàng chọn mẫu này (mỗi ý một phần tử)
+- persona: chân dung khách hàng - độ tuổi (age), giới tính (gender), trình độ giáo dục (education), nghề nghiệp (occupation), mức thu nhập (income), khu vực sống (region), tình trạng gia đình / sở hữu thú nuôi (familyPets), chủng tộc hoặc tôn giáo nếu có (ethnicityReligion)
+- conclusion: tóm tắt ngắn gọn cơ hội kinh doanh hoặc lưu ý quan trọng`,
+  patternLayout: `CRITICAL LAYOUT REQUIREMENTS FOR 3D T-SHIRT PATTERN:
+Create a full-bleed, fabric-style continuous artwork in 16:9 aspect ratio without borders, margins, or padding.
+The design must touch all four edges and fill completely without centering or leaving safe margins.
+
+The composition must be ONE continuous artwork visually organized into THREE EQUAL VERTICAL AREAS:
+- LEFT third (33%): Design for BACK of the shirt - feature a subject close-up or expressive pose with strong visual presence
+- CENTER third (33%): Design for FRONT of the shirt - main focal point, intentionally SMALL and RESTRAINED (~10% of canvas area)
+- RIGHT third (33%): Design for SLEEVES (both arms) - themed secondary elements with balanced density
+
+MANDATORY RULES:
+- NO background color changes, lines, panels, frames, or visible separations between sections
+- ONE consistent color palette across the entire canvas
+- Bold illustrated mascot/graphic style with clean thick outlines
+- Strictly non-photorealistic and non-stock-photo
+- Background elements must flow vertically or organically
+- Highlights allowed only inside illustrated elements
+
+FORBIDDEN ELEMENTS:
+- Technical text, labels, notes, dimensions, diagrams, guides
+- Mockups, unequal thirds, variable gaps, letterbox bars
+- Visible separations, standalone letters, decorative words (unless fully integrated)`,
+  redesign: `You are an expert apparel pattern designer.
+
+CURRENT PATTERN is attached. Please EDIT this pattern based on the following request:
+"{{editPrompt}}"
+
+IMPORTANT: Apply the edit while MAINTAINING the correct pattern structure:
+{{patternLayout}}
+
+- Keep the overall style and color palette consistent with the original
+- Only modify elements mentioned in the edit request
+- Output ONE edited pattern image`,
+  maskedEdit: `You are an expert apparel pattern designer.
+
+The attached image is a CROPPED REGION of a larger finished artwork. Edit ONLY what the following request asks for:
+"{{editPrompt}}"
+
+- Keep the exact same framing, scale and perspective as the input - do not zoom, pan or add borders
+- Match the surrounding style, line weight, lighting and color palette so the edit blends seamlessly
+- Leave every element not mentioned in the request unchanged
+- Output ONE image of the same region`,
+  creative: `Create ONE single finished illustrated artwork for cut-and-sew / all-over print apparel.
+
+ORIGINAL THEME: {{keyword}}
+USER MODIFICATION REQUEST: {{editPrompt}}
+
+Combine the original theme with the user's modification to create a NEW, CREATIVE pattern.
+
+{{patternLayout}}
+
+Output ONE image.`,
+  clone: `Analyze this T-shirt mockup/design image and RECREATE it as a FLAT PATTERN for cut-and-sew / all-over print production.
+
+YOUR TASK:
+1. Extract the design/artwork/style from the input image
+2. Recreate it following the EXACT pattern structure below
+
+{{patternLayout}}
+
+ADDITIONAL REQUIREMENTS:
+- Match the style, colors, and theme from the input image as closely as possible
+- If input is a mockup, extract only the design elements (ignore the shirt/model)
+- If input is already a pattern/design, adapt it to fit the 3-section layout
+
+Output ONE 16:9 pattern image.`,
+  qcVision: `You are a print quality inspector for all-over print apparel artwork.
+Inspect the attached image and report:
+- hasText: true if the image contains stray or technical text such as labels, captions, notes, dimensions, panel names, guide marks or random letters. A single short slogan that is intentionally illustrated as part of the artwork does NOT count.
+- hasWatermark: true if there is any watermark, stock-photo mark, signature, logo overlay or semi-transparent repeated text.
+- detectedText: every piece of text you can read that made hasText or hasWatermark true (empty list if none).
+Return JSON only.`,
+  ipVision: `You are an intellectual property reviewer for print-on-demand marketplaces such as Amazon Merch and Etsy.
+Inspect the attached artwork and list every element that could infringe a trademark or copyright:
+- logos, brand names, wordmarks or distinctive brand graphics (sports teams, fashion, tech, food and drink brands...)
+- recognizable licensed characters from films, TV, games, anime or comics, even when redrawn in a different style
+- famous franchise symbols, emblems or catchphrases
+For each finding return name (the brand, character or franchise), kind (logo, character or franchise) and confidence between 0 and 1.
+Generic animals, people, objects and public-domain motifs are NOT findings. Return an empty list when nothing is recognizable.
+Return JSON only.`,
+  listing: `You are an expert print-on-demand copywriter for Amazon Merch on Demand and Etsy.
+Write listing copy in English for the apparel design in the attached image. Niche keyword: "{{keyword}}".
+{{insightCues}}
+Rules:
+- Put the main keyword naturally near the start of each title; no keyword stuffing or repeated words.
+- Describe what is actually shown in the design and who it is for (gift occasions, hobbies, identity).
+- Never mention brands, trademarks, licensed characters, celebrities or sports teams, and never claim official merchandise.
+- No emoji, no ALL CAPS words, no HTML, no shipping, price or review claims.
+- Etsy tags are buyer search phrases; use all of them and vary them instead of repeating the same words.
+Length limits (hard):
+{{limits}}
+Return JSON only.`,
+  keywordExpand: `You are a print-on-demand niche researcher for Amazon Merch and Etsy apparel.
+Seed niche: "{{seed}}".
+Propose {{count}} related keywords we could design for, mixing three kinds:
+- subNiche: a narrower angle of the seed (specific breed, sub-hobby, style, profession detail...)
+- audience: the seed aimed at a specific buyer group (mom, dad, teacher, nurse, kids, retirees...)
+- occasion: the seed tied to a gift moment or season (birthday, Christmas, Mother's Day, Halloween, retirement...)
+Each keyword must be a short buyer search phrase in English (2-5 words) that can be printed on a shirt.
+Never use brands, trademarks, licensed characters, celebrities or sports teams.
+Do not repeat these existing keywords or close variants of them: {{existing}}
+For each proposal give a one-sentence rationale in Vietnamese explaining the demand or why it is less competitive.
+Return JSON only.`,
+};
+
+const builtInId = (slot: PromptSlot) => `builtin-${slot}`;
+
+const createBuiltIns = (): PromptTemplate[] =>
+  PROMPT_SLOTS.map(({ slot, label }) => ({
+    id: builtInId(slot),
+    name: label,
+    slot,
+    builtIn: true,
+    currentVersion: 1,
+    versions: [{ version: 1, body: BUILT_IN_BODIES[slot], createdAt: 0, note: 'Built-in' }],
+  }));
+
+let activeProjectId = DEFAULT_PROJECT_ID;
+let state: PromptLibraryState = loadState();
+const listeners = new Set<() => void>();
+
+function loadState(): PromptLibraryState {
+  const fallback: PromptLibraryState = { templates: createBuiltIns(), defaults: {} };
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return fallback;
+    const saved = JSON.parse(raw) as PromptLibraryState;
+    // Bổ sung built-in mới (nếu code thêm slot) mà bản lưu chưa có
+    const missing = fallback.templates.filter(t => !saved.templates.some(s => s.id === t.id));
+    // Version 1 của built-in luôn lấy theo code để các thay đổi prompt gốc được cập nhật
+    const templates = saved.templates.map(t => t.builtIn && BUILT_IN_BODIES[t.slot] !== undefined
+      ? { ...t, versions: t.versions.map(v => v.version === 1 ? { ...v, body: BUILT_IN_BODIES[t.slot] } : v) }
+      : t);
+    return { templates: [...templates, ...missing], defaults: saved.defaults || {} };
+  } catch {
+    return fallback;
+  }
+}
+
+const commit = (next: PromptLibraryState) => {
+  state = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch (e) {
+    console.error('Failed to save prompt library:', e);
+  }
+  listeners.forEach(listener => listener());
+};
+
+const updateTemplate = (id: string, updater: (template: PromptTemplate) => PromptTemplate) => {
+  commit({ ...state, templates: state.templates.map(t => t.id === id ? updater(t) : t) });
+};
+
+/**
+ * Thay {{name}} bằng giá trị tương ứng; biến không có giá trị được thay bằng chuỗi rỗng
+ */
+export const renderTemplate = (body: string, variables: Record<string, string | undefined>): string =>
+  body.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => variables[name] ?? '');
+
+export const extractVariables = (body: string): string[] =>
+  Array.from(new Set(Array.from(body.matchAll(/\{\{\s*(\w+)\s*\}\}/g), m => m[1])));
+
+export const getTemplateBody = (template: PromptTemplate, version: number = template.currentVersion): string =>
+  template.versions.find(v => v.version === version)?.body ?? template.versions[template.versions.length - 1].body;
+
+export function subscribeToPromptLibrary(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function setPromptProject(projectId: string = DEFAULT_PROJECT_ID): void {
+  activeProjectId = projectId;
+  listeners.forEach(listener => listener());
+}
+
+export function listTemplates(slot?: PromptSlot): PromptTemplate[] {
+  return slot ? state.templates.filter(t => t.slot === slot) : state.templates;
+}
+
+export function getTemplate(id: string): PromptTemplate | undefined {
+  return state.templates.find(t => t.id === id);
+}
+
+export function getDefaultTemplateId(slot: PromptSlot, projectId: string = activeProjectId): string {
+  // Project chưa chọn riêng thì dùng mặc định chung
+  const id = state.defaults[projectId]?.[slot] ?? state.defaults[DEFAULT_PROJECT_ID]?.[slot];
+  return id && getTemplate(id) ? id : builtInId(slot);
+}
+
+export function setDefaultTemplate(slot: PromptSlot, templateId: string, projectId: string = activeProjectId): void {
+  commit({
+    ...state,
+    defaults: { ...state.defaults, [projectId]: { ...state.defaults[projectId], [slot]: templateId } },
+  });
+}
+
+/**
+ * Prompt cuối cùng của một slot: template mặc định của project hiện tại + biến
+ */
+export function renderPrompt(slot: PromptSlot, variables: Record<string, string | undefined> = {}): string {
+  const template = getTemplate(getDefaultTemplateId(slot))!;
+  const layout = slot === 'patternLayout' ? undefined : renderPrompt('patternLayout');
+  return renderTemplate(getTemplateBody(template), { patternLayout: layout, ...variables });
+}
+
+export function createTemplate(slot: PromptSlot, name: string, body: string): PromptTemplate {
+  const template: PromptTemplate = {
+    id: Math.random().toString(36).substr(2, 9),
+    name,
+    slot,
+    builtIn: false,
+    currentVersion: 1,
+    versions: [{ version: 1, body, createdAt: Date.now() }],
+  };
+  commit({ ...state, templates: [...state.templates, template] });
+  return template;
+}
+
+/**
+ * Lưu nội dung mới thành một version mới (không ghi đè version cũ)
+ */
+export function saveTemplateVersion(id: string, body: string, note?: string): void {
+  updateTemplate(id, t => {
+    const version = Math.max(...t.versions.map(v => v.version)) + 1;
+    return { ...t, currentVersion: version, versions: [...t.versions, { version, body, createdAt: Date.now(), note }] };
+  });
+}
+
+export function restoreTemplateVersion(id: string, version: number): void {
+  updateTemplate(id, t => ({ ...t, currentVersion: version }));
+}
+
+export function renameTemplate(id: string, name: string): void {
+  updateTemplate(id, t => ({ ...t, name }));
+}
+
+export function deleteTemplate(id: string): void {
+  const template = getTemplate(id);
+  if (!template || template.builtIn) return;
+  // Project nào đang dùng template này thì quay về built-in
+  const defaults = Object.fromEntries(Object.entries(state.defaults).map(([projectId, slots]) => [
+    projectId,
+    Object.fromEntries(Object.entries(slots).filter(([, templateId]) => templateId !== id)),
+  ]));
+  commit({ templates: state.templates.filter(t => t.id !== id), defaults });
+}
+
+export function exportPromptLibrary(projectId: string = activeProjectId): PromptLibraryExport {
+  return {
+    // Built-in chưa sửa thì bên nhận đã có sẵn
+    templates: state.templates.filter(t => !t.builtIn || t.versions.length > 1),
+    defaults: { ...state.defaults[DEFAULT_PROJECT_ID], ...state.defaults[projectId] },
+  };
+}
+
+/**
+ * Gộp prompt từ file project: template chưa có thì thêm, template đã có thì thêm các version khác nội dung (đánh số tiếp)
+ */
+export function importPromptLibrary(data: PromptLibraryExport, projectId: string = activeProjectId): void {
+  let templates = state.templates;
+  for (const incoming of data.templates) {
+    const existing = templates.find(t => t.id === incoming.id);
+    if (!existing) {
+      templates = [...templates, incoming];
+      continue;
+    }
+    const extra = incoming.versions.filter(v => !existing.versions.some(e => e.body === v.body));
+    if (extra.length === 0) continue;
+    const lastVersion = Math.max(...existing.versions.map(v => v.version));
+    const added = extra.map((v, i) => ({ ...v, version: lastVersion + i + 1 }));
+    templates = templates.map(t => t.id === existing.id ? { ...t, versions: [...t.versions, ...added] } : t);
+  }
+  const defaults = Object.fromEntries(Object.entries(data.defaults).filter(([, id]) => templates.some(t => t.id === id)));
+  commit({ templates, defaults: { ...state.defaults, [projectId]: { ...state.defaults[projectId], ...defaults } } });
+}
@@ -0,0 +1,300 @@
+import { ResultMode } from "./batchResults";
+import { detectTextAndWatermarks, TextWatermarkResult } from "./geminiService";
+import { JobOptions, isAbortError } from "./generationScheduler";
+
+// QC tự động cho pattern / tile sau khi generate: kiểm tra pixel tại máy (letterbox, viền trống,
+// đường nối giữa 3 vùng, mảng trống đồng màu) và tùy chọn nhờ AI soi chữ / watermark.
+
+export type QcCheckId = 'letterbox' | 'borderPadding' | 'thirdSeams' | 'solidGaps' | 'textWatermark';
+
+export interface QcCheck {
+  id: QcCheckId;
+  label: string;
+  passed: boolean;
+  detail: string;
+  skipped?: boolean; // Không chạy được (vd. lỗi gọi AI) - không chặn kết quả nhưng được hiển thị
+}
+
+export interface QcReport {
+  passed: boolean;
+  checks: QcCheck[];
+  attempts: number; // Số lần generate đã dùng cho output này (1 = đạt ngay lần đầu)
+  checkedAt: number;
+}
+
+export interface QcSettings {
+  enabled: boolean;
+  vision: boolean; // Gọi AI kiểm tra chữ / watermark (tốn thêm một request mỗi ảnh)
+  maxRetries: number; // Số lần generate lại tối đa khi QC không đạt
+}
+
+export const DEFAULT_QC_SETTINGS: QcSettings = { enabled: true, vision: false, maxRetries: 1 };
+
+export const QC_CHECK_LABELS: Record<QcCheckId, string> = {
+  letterbox: 'Letterbox bars',
+  borderPadding: 'Border padding',
+  thirdSeams: 'Seams between thirds',
+  solidGaps: 'Solid-color gaps',
+  textWatermark: 'Text / watermark',
+};
+
+// Ngưỡng đánh giá - tính trên ảnh đã thu nhỏ về ANALYSIS_WIDTH
+const ANALYSIS_WIDTH = 480;
+const UNIFORM_STD = 6; // Độ lệch chuẩn tối đa của một hàng/cột để coi là đồng màu
+const LETTERBOX_MIN = 0.03; // Dải đồng màu ở 2 mép đối diện, mỗi dải >= 3% kích thước
+const PADDING_MIN = 0.02; // Dải viền khác màu nội dung >= 2%
+const SEAM_RATIO = 3.5; // Chênh lệch tại ranh giới 1/3 gấp bao nhiêu lần mức bình thường
+const SOLID_GAP_MAX = 0.2; // Mảng đồng màu liền nhau lớn nhất được phép (tỉ lệ diện tích)
+
+/**
+ * Mode nào cần QC - pattern và tile là ảnh tràn viền; normal/pro/white cố ý có nền trống
+ */
+export const isQcApplicable = (mode: ResultMode): boolean => mode === 'pattern' || mode === 'tile';
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.crossOrigin = "anonymous";
+  img.onload = () => resolve(img);
+  img.onerror = reject;
+  img.src = src;
+});
+
+const readScaled = async (image: string): Promise<ImageData> => {
+  const img = await loadImage(image);
+  const scale = Math.min(1, ANALYSIS_WIDTH / img.naturalWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+type Color = [number, number, number];
+
+// Trung bình và độ lệch chuẩn màu của một dãy pixel
+const lineStats = (data: Uint8ClampedArray, indices: number[]) => {
+  const mean: Color = [0, 0, 0];
+  for (const i of indices) for (let c = 0; c < 3; c++) mean[c] += data[i + c];
+  for (let c = 0; c < 3; c++) mean[c] /= indices.length;
+  let variance = 0;
+  for (const i of indices) for (let c = 0; c < 3; c++) variance += (data[i + c] - mean[c]) ** 2;
+  return { mean, std: Math.sqrt(variance / (indices.length * 3)) };
+};
+
+const colorDistance = (a: Color, b: Color) => Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+
+type Side = 'top' | 'bottom' | 'left' | 'right';
+const SIDES: Side[] = ['top', 'bottom', 'left', 'right'];
+const SIDE_LABELS: Record<Side, string> = { top: 'trên', bottom: 'dưới', left: 'trái', right: 'phải' };
+
+// Chỉ số pixel của hàng/cột thứ `offset` tính từ một mép
+const edgeLine = ({ width, height }: ImageData, side: Side, offset: number): number[] => {
+  const indices: number[] = [];
+  if (side === 'top' || side === 'bottom') {
+    const y = side === 'top' ? offset : height - 1 - offset;
+    for (let x = 0; x < width; x++) indices.push((y * width + x) * 4);
+  } else {
+    const x = side === 'left' ? offset : width - 1 - offset;
+    for (let y = 0; y < height; y++) indices.push((y * width + x) * 4);
+  }
+  return indices;
+};
+
+/**
+ * Dải đồng màu tính từ một mép: số hàng/cột liên tiếp gần như một màu (cùng màu với hàng đầu tiên)
+ */
+const uniformBand = (img: ImageData, side: Side) => {
+  const size = side === 'top' || side === 'bottom' ? img.height : img.width;
+  const first = lineStats(img.data, edgeLine(img, side, 0));
+  if (first.std > UNIFORM_STD) return { fraction: 0, color: first.mean, depth: 0 };
+  let depth = 1;
+  while (depth < size / 2) {
+    const stats = lineStats(img.data, edgeLine(img, side, depth));
+    if (stats.std > UNIFORM_STD || colorDistance(stats.mean, first.mean) > 12) break;
+    depth++;
+  }
+  return { fraction: depth / size, color: first.mean, depth };
+};
+
+const checkLetterbox = (bands: Record<Side, ReturnType<typeof uniformBand>>): QcCheck => {
+  const vertical = bands.top.fraction >= LETTERBOX_MIN && bands.bottom.fraction >= LETTERBOX_MIN;
+  const horizontal = bands.left.fraction >= LETTERBOX_MIN && bands.right.fraction >= LETTERBOX_MIN;
+  const pct = (side: Side) => `${SIDE_LABELS[side]} ${Math.round(bands[side].fraction * 100)}%`;
+  return {
+    id: 'letterbox',
+    label: QC_CHECK_LABELS.letterbox,
+    passed: !vertical && !horizontal,
+    detail: vertical ? `Có dải đồng màu ${pct('top')}, ${pct('bottom')}`
+      : horizontal ? `Có dải đồng màu ${pct('left')}, ${pct('right')}`
+      : 'Không có dải đen/đồng màu ở hai mép đối diện',
+  };
+};
+
+/**
+ * Viền trống: dải đồng màu ở mép mà màu khác hẳn nội dung ngay bên trong (lề trắng, khung, safe area)
+ */
+const checkBorderPadding = (img: ImageData, bands: Record<Side, ReturnType<typeof uniformBand>>): QcCheck => {
+  const padded = SIDES.filter(side => {
+    const band = bands[side];
+    if (band.fraction < PADDING_MIN) return false;
+    const inner = lineStats(img.data, edgeLine(img, side, band.depth + 1));
+    return colorDistance(inner.mean, band.color) > 30 || inner.std > UNIFORM_STD * 2;
+  });
+  return {
+    id: 'borderPadding',
+    label: QC_CHECK_LABELS.borderPadding,
+    passed: padded.length === 0,
+    detail: padded.length
+      ? `Thiết kế không chạm mép ${padded.map(s => SIDE_LABELS[s]).join(', ')}`
+      : 'Thiết kế tràn đủ 4 mép',
+  };
+};
+
+// Chênh lệch trung bình giữa cột x và x+1
+const columnDifference = ({ data, width, height }: ImageData, x: number) => {
+  let sum = 0;
+  for (let y = 0; y < height; y++) {
+    const a = (y * width + x) * 4;
+    const b = a + 4;
+    sum += Math.abs(data[a] - data[b]) + Math.abs(data[a + 1] - data[b + 1]) + Math.abs(data[a + 2] - data[b + 2]);
+  }
+  return sum / (height * 3);
+};
+
+/**
+ * Đường nối giữa 3 vùng: chênh lệch cột tại ranh giới 1/3 và 2/3 cao bất thường so với xung quanh
+ */
+const checkThirdSeams = (img: ImageData): QcCheck => {
+  const span = Math.max(8, Math.round(img.width * 0.05));
+  const seams = [1 / 3, 2 / 3].map(f => {
+    const boundary = Math.round(img.width * f);
+    let peak = 0;
+    const around: number[] = [];
+    for (let x = Math.max(0, boundary - span); x < Math.min(img.width - 1, boundary + span); x++) {
+      const diff = columnDifference(img, x);
+      if (Math.abs(x - boundary) <= 3) peak = Math.max(peak, diff);
+      else around.push(diff);
+    }
+    around.sort((a, b) => a - b);
+    const baseline = around.length ? around[Math.floor(around.length / 2)] : 0;
+    return { ratio: peak / Math.max(baseline, 1), peak };
+  });
+  const failed = seams.map((s, i) => s.ratio > SEAM_RATIO && s.peak > 12 ? (i === 0 ? '1/3' : '2/3') : null).filter(Boolean);
+  return {
+    id: 'thirdSeams',
+    label: QC_CHECK_LABELS.thirdSeams,
+    passed: failed.length === 0,
+    detail: failed.length
+      ? `Lộ đường chia tại ${failed.join(' và ')} (chênh ${Math.max(...seams.map(s => s.ratio)).toFixed(1)}× so với xung quanh)`
+      : 'Ba vùng nối liền, không thấy đường chia',
+  };
+};
+
+/**
+ * Mảng trống: chia ảnh thành lưới ô, gom các ô phẳng liền kề cùng màu, đo mảng lớn nhất
+ */
+const checkSolidGaps = ({ data, width, height }: ImageData): QcCheck => {
+  const cols = 16;
+  const rows = Math.max(4, Math.round(cols * height / width));
+  const cellW = width / cols;
+  const cellH = height / rows;
+  const cells = Array.from({ length: cols * rows }, (_, i) => {
+    const cx = i % cols;
+    const cy = Math.floor(i / cols);
+    const indices: number[] = [];
+    for (let y = Math.floor(cy * cellH); y < Math.floor((cy + 1) * cellH); y++) {
+      for (let x = Math.floor(cx * cellW); x < Math.floor((cx + 1) * cellW); x++) indices.push((y * width + x) * 4);
+    }
+    const stats = lineStats(data, indices);
+    return { ...stats, flat: stats.std < UNIFORM_STD - 1 };
+  });
+
+  const visited = new Uint8Array(cells.length);
+  let largest = 0;
+  for (let start = 0; start < cells.length; start++) {
+    if (visited[start] || !cells[start].flat) continue;
+    let size = 0;
+    const stack = [start];
+    visited[start] = 1;
+    while (stack.length) {
+      const i = stack.pop()!;
+      size++;
+      const cx = i % cols;
+      const neighbors = [cx > 0 ? i - 1 : -1, cx < cols - 1 ? i + 1 : -1, i - cols, i + cols];
+      for (const n of neighbors) {
+        if (n < 0 || n >= cells.length || visited[n] || !cells[n].flat) continue;
+        if (colorDistance(cells[n].mean, cells[i].mean) > 16) continue;
+        visited[n] = 1;
+        stack.push(n);
+      }
+    }
+    largest = Math.max(largest, size);
+  }
+  const fraction = largest / cells.length;
+  return {
+    id: 'solidGaps',
+    label: QC_CHECK_LABELS.solidGaps,
+    passed: fraction <= SOLID_GAP_MAX,
+    detail: `Mảng đồng màu lớn nhất chiếm ${Math.round(fraction * 100)}% ảnh (tối đa ${SOLID_GAP_MAX * 100}%)`,
+  };
+};
+
+/**
+ * Các kiểm tra pixel chạy tại máy, không gọi AI
+ */
+export const runPixelChecks = async (image: string, mode: ResultMode): Promise<QcCheck[]> => {
+  const img = await readScaled(image);
+  const bands = Object.fromEntries(SIDES.map(side => [side, uniformBand(img, side)])) as Record<Side, ReturnType<typeof uniformBand>>;
+  const checks = [checkLetterbox(bands), checkBorderPadding(img, bands)];
+  // Tile không chia 3 vùng
+  if (mode === 'pattern') checks.push(checkThirdSeams(img));
+  checks.push(checkSolidGaps(img));
+  return checks;
+};
+
+const toVisionCheck = (result: TextWatermarkResult): QcCheck => {
+  const problems = [
+    result.hasText ? `chữ${result.detectedText.length ? `: "${result.detectedText.join('", "')}"` : ''}` : '',
+    result.hasWatermark ? 'watermark / logo' : '',
+  ].filter(Boolean);
+  return {
+    id: 'textWatermark',
+    label: QC_CHECK_LABELS.textWatermark,
+    passed: problems.length === 0,
+    detail: problems.length ? `Phát hiện ${problems.join(' và ')}` : 'Không thấy chữ lạ hoặc watermark',
+  };
+};
+
+/**
+ * Chạy toàn bộ QC cho một ảnh. AI chỉ được gọi khi các kiểm tra pixel đã đạt,
+ * vì ảnh lỗi pixel sẽ bị generate lại dù sao.
+ */
+export const runQualityGate = async (
+  image: string,
+  mode: ResultMode,
+  { vision = false, attempts = 1, job }: { vision?: boolean; attempts?: number; job?: Partial<JobOptions> } = {}
+): Promise<QcReport> => {
+  const checks = await runPixelChecks(image, mode);
+  if (vision && checks.every(c => c.passed)) {
+    try {
+      checks.push(toVisionCheck(await detectTextAndWatermarks(image, job)));
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      // Lỗi mạng / quota / JSON của AI không được làm mất ảnh đã generate
+      checks.push({
+        id: 'textWatermark',
+        label: QC_CHECK_LABELS.textWatermark,
+        passed: true,
+        skipped: true,
+        detail: `Bỏ qua: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  }
+  return {
+    passed: checks.every(c => c.passed),
+    checks,
+    attempts,
+    checkedAt: Date.now(),
+  };
+};
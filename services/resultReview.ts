@@ -0,0 +1,37 @@
+import { BatchItem } from "../types";
+import { BatchResult, ResultMode, listBatchResults } from "./batchResults";
+
+// Duyệt kết quả của batch: hero (ảnh đại diện, tối đa một ảnh mỗi batch), approved (được dùng khi xuất), rejected (bỏ khỏi mọi lần xuất).
+// Cờ gắn theo key kết quả `${mode}:${index}` như upscaled / cutouts.
+
+export type ResultReview = 'hero' | 'approved' | 'rejected';
+
+/**
+ * Cờ mới của batch sau khi đặt `review` cho một kết quả (undefined = bỏ cờ). Hero cũ được hạ xuống approved.
+ */
+export const setResultReview = (batch: BatchItem, key: string, review?: ResultReview): Record<string, ResultReview> | undefined => {
+  const entries = Object.entries(batch.reviews || {})
+    .filter(([k]) => k !== key)
+    .map(([k, value]): [string, ResultReview] => [k, review === 'hero' && value === 'hero' ? 'approved' : value]);
+  if (review) entries.push([key, review]);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+/**
+ * Kết quả dùng cho 3D / mockup / listing: hero (nếu đúng mode), rồi ảnh approved đầu tiên, rồi ảnh đầu tiên chưa bị loại
+ */
+export const pickBatchResult = (batch: BatchItem, mode?: ResultMode): BatchResult | undefined => {
+  const results = listBatchResults(batch).filter(r => (!mode || r.mode === mode) && batch.reviews?.[r.key] !== 'rejected');
+  return results.find(r => batch.reviews?.[r.key] === 'hero')
+    ?? results.find(r => batch.reviews?.[r.key] === 'approved')
+    ?? results[0];
+};
+
+/**
+ * Kết quả được xuất: batch đã duyệt (có hero / approved) thì chỉ lấy ảnh đã duyệt, chưa duyệt thì lấy mọi ảnh trừ ảnh bị loại
+ */
+export const listSelectedResults = (batch: BatchItem): BatchResult[] => {
+  const results = listBatchResults(batch).filter(r => batch.reviews?.[r.key] !== 'rejected');
+  const reviewed = results.filter(r => batch.reviews?.[r.key]);
+  return reviewed.length > 0 ? reviewed : results;
+};
@@ -0,0 +1,139 @@
+// Kiểm tra và sửa đường nối của tile lặp (seamless repeat) ngay trên canvas.
+// Tile lặp đúng khi mép trái nối liền mép phải và mép trên nối liền mép dưới.
+
+export interface SeamReport {
+  vertical: number; // Độ lệch mép trái ↔ phải so với mức chênh bình thường giữa 2 cột liền kề (1 = liền mạch)
+  horizontal: number; // Độ lệch mép trên ↔ dưới
+  seamless: boolean;
+  repaired?: boolean; // Đã chạy offset-and-blend
+}
+
+// Lệch gấp bao nhiêu lần mức chênh bình thường thì coi là lộ đường nối
+const SEAM_THRESHOLD = 2;
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.crossOrigin = "anonymous";
+  img.onload = () => resolve(img);
+  img.onerror = reject;
+  img.src = src;
+});
+
+const readPixels = (img: HTMLImageElement) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(img, 0, 0);
+  return { canvas, ctx, imageData: ctx.getImageData(0, 0, canvas.width, canvas.height) };
+};
+
+// Chênh lệch màu trung bình giữa hai dãy pixel (cột hoặc hàng)
+const lineDifference = (data: Uint8ClampedArray, count: number, indexA: (k: number) => number, indexB: (k: number) => number) => {
+  let sum = 0;
+  for (let k = 0; k < count; k++) {
+    const a = indexA(k);
+    const b = indexB(k);
+    sum += Math.abs(data[a] - data[b]) + Math.abs(data[a + 1] - data[b + 1]) + Math.abs(data[a + 2] - data[b + 2]);
+  }
+  return sum / (count * 3);
+};
+
+const measure = ({ data, width, height }: ImageData): SeamReport => {
+  const col = (x: number) => (y: number) => (y * width + x) * 4;
+  const row = (y: number) => (x: number) => (y * width + x) * 4;
+
+  // Mức chênh bình thường: trung bình giữa các cặp cột / hàng liền kề bên trong ảnh
+  const samples = [0.25, 0.5, 0.75];
+  const colBaseline = samples.reduce((s, f) => {
+    const x = Math.floor(width * f);
+    return s + lineDifference(data, height, col(x), col(x + 1));
+  }, 0) / samples.length;
+  const rowBaseline = samples.reduce((s, f) => {
+    const y = Math.floor(height * f);
+    return s + lineDifference(data, width, row(y), row(y + 1));
+  }, 0) / samples.length;
+
+  const vertical = lineDifference(data, height, col(width - 1), col(0)) / Math.max(colBaseline, 1);
+  const horizontal = lineDifference(data, width, row(height - 1), row(0)) / Math.max(rowBaseline, 1);
+  return { vertical, horizontal, seamless: vertical <= SEAM_THRESHOLD && horizontal <= SEAM_THRESHOLD };
+};
+
+/**
+ * Đo độ liền mạch ở các mép khi tile được lặp
+ */
+export const checkSeamContinuity = async (image: string): Promise<SeamReport> => {
+  const img = await loadImage(image);
+  return measure(readPixels(img).imageData);
+};
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+/**
+ * Offset-and-blend: dịch tile nửa chiều rộng/cao để mép cũ dồn vào giữa thành dấu "+",
+ * mép mới chính là phần giữa ảnh gốc nên tự liền mạch. Dấu "+" được phủ bằng các bản
+ * chỉ dịch một trục (mỗi bản liền mạch đúng ở dải mà nó phủ), giao điểm dùng ảnh gốc.
+ * `blend` là tỉ lệ bề rộng dải phủ.
+ */
+export const repairSeams = async (image: string, blend: number = 0.25): Promise<string> => {
+  const img = await loadImage(image);
+  const { canvas, ctx, imageData: original } = readPixels(img);
+  const width = canvas.width;
+  const height = canvas.height;
+  const halfW = Math.floor(width / 2);
+  const halfH = Math.floor(height / 2);
+
+  // Dịch vòng (wrap) ảnh theo từng trục
+  const drawShifted = (shiftX: number, shiftY: number) => {
+    ctx.clearRect(0, 0, width, height);
+    for (const dx of shiftX ? [-shiftX, width - shiftX] : [0]) {
+      for (const dy of shiftY ? [-shiftY, height - shiftY] : [0]) {
+        ctx.drawImage(img, dx, dy);
+      }
+    }
+    return ctx.getImageData(0, 0, width, height);
+  };
+  const shifted = drawShifted(halfW, halfH);
+  const shiftedX = drawShifted(halfW, 0);
+  const shiftedY = drawShifted(0, halfH);
+
+  const bandX = Math.max(1, width * blend / 2);
+  const bandY = Math.max(1, height * blend / 2);
+  const centerX = width - halfW; // Vị trí mép cũ sau khi dịch
+  const centerY = height - halfH;
+  const { data } = shifted;
+  for (let y = 0; y < height; y++) {
+    const wy = smoothstep(Math.max(0, 1 - Math.abs(y - centerY) / bandY));
+    for (let x = 0; x < width; x++) {
+      const wx = smoothstep(Math.max(0, 1 - Math.abs(x - centerX) / bandX));
+      if (wx === 0 && wy === 0) continue;
+      // Dải dọc lấy bản dịch dọc, dải ngang lấy bản dịch ngang, giao điểm lấy ảnh gốc
+      const wOriginal = wx * wy;
+      const wVertical = wx * (1 - wy);
+      const wHorizontal = wy * (1 - wx);
+      const wShifted = (1 - wx) * (1 - wy);
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        data[i + c] = Math.round(
+          data[i + c] * wShifted +
+          shiftedY.data[i + c] * wVertical +
+          shiftedX.data[i + c] * wHorizontal +
+          original.data[i + c] * wOriginal
+        );
+      }
+    }
+  }
+
+  ctx.putImageData(shifted, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Bước tự động sau khi generate tile: kiểm tra mép, lộ đường nối thì sửa và đo lại
+ */
+export const ensureSeamless = async (image: string): Promise<{ image: string; report: SeamReport }> => {
+  const report = await checkSeamContinuity(image);
+  if (report.seamless) return { image, report };
+  const repaired = await repairSeams(image);
+  return { image: repaired, report: { ...(await checkSeamContinuity(repaired)), repaired: true } };
+};
@@ -0,0 +1,4 @@
+// Kiểm tra kiểu cho dữ liệu chưa rõ cấu trúc (JSON do AI trả về, file người dùng nhập)
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
@@ -0,0 +1,377 @@
+import { createAbortError } from "./generationScheduler";
+
+// Phóng to ảnh lên độ phân giải in (4500px+ @ 300 DPI) ngay trên CPU của trình duyệt.
+// Xử lý theo từng tile để bộ nhớ tạm không phụ thuộc kích thước ảnh đích.
+
+export type UpscaleAlgorithm = 'lanczos' | 'lanczos-sharpen' | 'super-resolution';
+
+export const UPSCALE_ALGORITHMS: Array<{ id: UpscaleAlgorithm; label: string; description: string }> = [
+  { id: 'lanczos', label: 'Lanczos', description: 'Nội suy Lanczos3 - mượt, giữ màu chính xác' },
+  { id: 'lanczos-sharpen', label: 'Lanczos + Sharpen', description: 'Lanczos3 kèm làm nét theo cạnh (bỏ qua vùng phẳng)' },
+  { id: 'super-resolution', label: 'Super-resolution', description: 'Model wasm phóng to trước, sau đó Lanczos về kích thước in' },
+];
+
+export const PRINT_WIDTH = 4500;
+export const PRINT_DPI = 300;
+
+/**
+ * Model super-resolution chạy bằng wasm (đăng ký từ bên ngoài khi đã tải model).
+ * upscaleTile nhận một tile nguồn và trả về tile lớn hơn đúng `scale` lần.
+ */
+export interface SuperResolutionModel {
+  id: string;
+  label: string;
+  scale: number;
+  upscaleTile: (input: ImageData, signal?: AbortSignal) => Promise<ImageData>;
+}
+
+let superResolutionModel: SuperResolutionModel | null = null;
+
+export const registerSuperResolutionModel = (model: SuperResolutionModel | null): void => {
+  superResolutionModel = model;
+};
+
+export const getSuperResolutionModel = (): SuperResolutionModel | null => superResolutionModel;
+
+export const isAlgorithmAvailable = (algorithm: UpscaleAlgorithm): boolean =>
+  algorithm !== 'super-resolution' || superResolutionModel !== null;
+
+export interface UpscaleOptions {
+  algorithm?: UpscaleAlgorithm;
+  targetWidth?: number; // Chiều cao tính theo tỉ lệ ảnh gốc
+  dpi?: number;
+  tileSize?: number;
+  sharpenAmount?: number; // 0..2
+  sharpenThreshold?: number; // Chênh lệch tối thiểu (0..255) mới coi là cạnh
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface UpscaleResult {
+  blob: Blob;
+  url: string; // Object URL - gọi URL.revokeObjectURL khi không dùng nữa
+  width: number;
+  height: number;
+  algorithm: UpscaleAlgorithm;
+  dpi: number;
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Trọng số của một pixel đích: đọc `weights.length` pixel nguồn bắt đầu từ `start`
+interface Contribution {
+  start: number;
+  weights: Float32Array;
+}
+
+const LANCZOS_RADIUS = 3;
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.crossOrigin = "anonymous";
+  img.onload = () => resolve(img);
+  img.onerror = reject;
+  img.src = src;
+});
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+// Nhường luồng chính giữa các tile để UI không bị đơ
+const nextTick = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  setTimeout(() => signal?.aborted ? reject(createAbortError()) : resolve(), 0);
+});
+
+const lanczos = (x: number) => {
+  if (x === 0) return 1;
+  if (x <= -LANCZOS_RADIUS || x >= LANCZOS_RADIUS) return 0;
+  const px = Math.PI * x;
+  return (LANCZOS_RADIUS * Math.sin(px) * Math.sin(px / LANCZOS_RADIUS)) / (px * px);
+};
+
+/**
+ * Tính trước trọng số Lanczos cho một trục. Khi thu nhỏ thì nới rộng bộ lọc để tránh răng cưa.
+ */
+const buildContributions = (srcSize: number, dstSize: number): Contribution[] => {
+  const scale = dstSize / srcSize;
+  const filterScale = Math.max(1, 1 / scale);
+  const support = LANCZOS_RADIUS * filterScale;
+  const result: Contribution[] = [];
+  for (let i = 0; i < dstSize; i++) {
+    const center = (i + 0.5) / scale - 0.5;
+    const start = Math.max(0, Math.ceil(center - support));
+    const end = Math.min(srcSize - 1, Math.floor(center + support));
+    const weights = new Float32Array(end - start + 1);
+    let sum = 0;
+    for (let j = start; j <= end; j++) {
+      const w = lanczos((j - center) / filterScale);
+      weights[j - start] = w;
+      sum += w;
+    }
+    if (sum !== 0) for (let k = 0; k < weights.length; k++) weights[k] /= sum;
+    result.push({ start, weights });
+  }
+  return result;
+};
+
+// Vùng nguồn cần đọc để tính được các pixel đích trong [from, to)
+const sourceSpan = (contribs: Contribution[], from: number, to: number) => {
+  const start = contribs[from].start;
+  const last = contribs[to - 1];
+  return { start, end: last.start + last.weights.length };
+};
+
+const clampByte = (v: number) => v < 0 ? 0 : v > 255 ? 255 : Math.round(v);
+
+/**
+ * Resample một vùng đích bằng Lanczos tách trục (ngang rồi dọc), chỉ đọc phần nguồn cần thiết
+ */
+const resampleRect = (
+  source: CanvasRenderingContext2D,
+  xContribs: Contribution[],
+  yContribs: Contribution[],
+  rect: Rect
+): ImageData => {
+  const xs = sourceSpan(xContribs, rect.x, rect.x + rect.width);
+  const ys = sourceSpan(yContribs, rect.y, rect.y + rect.height);
+  const srcWidth = xs.end - xs.start;
+  const srcRows = ys.end - ys.start;
+  const src = source.getImageData(xs.start, ys.start, srcWidth, srcRows).data;
+
+  // Pass ngang: srcRows x rect.width
+  const horizontal = new Float32Array(srcRows * rect.width * 4);
+  for (let row = 0; row < srcRows; row++) {
+    for (let dx = 0; dx < rect.width; dx++) {
+      const { start, weights } = xContribs[rect.x + dx];
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < weights.length; k++) {
+        const si = (row * srcWidth + start - xs.start + k) * 4;
+        const w = weights[k];
+        r += src[si] * w;
+        g += src[si + 1] * w;
+        b += src[si + 2] * w;
+        a += src[si + 3] * w;
+      }
+      const hi = (row * rect.width + dx) * 4;
+      horizontal[hi] = r;
+      horizontal[hi + 1] = g;
+      horizontal[hi + 2] = b;
+      horizontal[hi + 3] = a;
+    }
+  }
+
+  // Pass dọc
+  const out = new ImageData(rect.width, rect.height);
+  for (let dy = 0; dy < rect.height; dy++) {
+    const { start, weights } = yContribs[rect.y + dy];
+    for (let dx = 0; dx < rect.width; dx++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < weights.length; k++) {
+        const hi = ((start - ys.start + k) * rect.width + dx) * 4;
+        const w = weights[k];
+        r += horizontal[hi] * w;
+        g += horizontal[hi + 1] * w;
+        b += horizontal[hi + 2] * w;
+        a += horizontal[hi + 3] * w;
+      }
+      const oi = (dy * rect.width + dx) * 4;
+      out.data[oi] = clampByte(r);
+      out.data[oi + 1] = clampByte(g);
+      out.data[oi + 2] = clampByte(b);
+      out.data[oi + 3] = clampByte(a);
+    }
+  }
+  return out;
+};
+
+/**
+ * Unsharp mask theo cạnh: chỉ tăng nét ở nơi chênh lệch so với blur 3x3 vượt ngưỡng,
+ * vùng màu phẳng giữ nguyên để không khuếch đại nhiễu/banding. Trả về phần lõi (bỏ viền `margin`).
+ */
+const sharpenEdges = (tile: ImageData, margin: Rect, amount: number, threshold: number): ImageData => {
+  const { width, height, data } = tile;
+  const out = new ImageData(margin.width, margin.height);
+  for (let y = 0; y < margin.height; y++) {
+    for (let x = 0; x < margin.width; x++) {
+      const cx = x + margin.x;
+      const cy = y + margin.y;
+      const ci = (cy * width + cx) * 4;
+      const oi = (y * margin.width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        let blur = 0;
+        for (let ky = -1; ky <= 1; ky++) {
+          const yy = Math.min(height - 1, Math.max(0, cy + ky));
+          for (let kx = -1; kx <= 1; kx++) {
+            const xx = Math.min(width - 1, Math.max(0, cx + kx));
+            blur += data[(yy * width + xx) * 4 + c];
+          }
+        }
+        const diff = data[ci + c] - blur / 9;
+        out.data[oi + c] = Math.abs(diff) > threshold ? clampByte(data[ci + c] + diff * amount) : data[ci + c];
+      }
+      out.data[oi + 3] = data[ci + 3];
+    }
+  }
+  return out;
+};
+
+/**
+ * Chạy model super-resolution theo từng tile nguồn (có viền chồng lấn để không lộ đường nối)
+ */
+const applySuperResolution = async (
+  img: HTMLImageElement,
+  model: SuperResolutionModel,
+  tileSize: number,
+  signal?: AbortSignal
+): Promise<HTMLCanvasElement> => {
+  const overlap = 8;
+  const source = createCanvas(img.naturalWidth, img.naturalHeight);
+  const sourceCtx = source.getContext('2d', { willReadFrequently: true })!;
+  sourceCtx.drawImage(img, 0, 0);
+
+  const output = createCanvas(img.naturalWidth * model.scale, img.naturalHeight * model.scale);
+  const outputCtx = output.getContext('2d')!;
+  for (let y = 0; y < source.height; y += tileSize) {
+    for (let x = 0; x < source.width; x += tileSize) {
+      const sx = Math.max(0, x - overlap);
+      const sy = Math.max(0, y - overlap);
+      const sw = Math.min(source.width, x + tileSize + overlap) - sx;
+      const sh = Math.min(source.height, y + tileSize + overlap) - sy;
+      const upscaled = await model.upscaleTile(sourceCtx.getImageData(sx, sy, sw, sh), signal);
+      // Chỉ ghi phần lõi của tile, bỏ viền chồng lấn
+      const tile = createCanvas(upscaled.width, upscaled.height);
+      tile.getContext('2d')!.putImageData(upscaled, 0, 0);
+      const cw = Math.min(tileSize, source.width - x);
+      const ch = Math.min(tileSize, source.height - y);
+      outputCtx.drawImage(
+        tile,
+        (x - sx) * model.scale, (y - sy) * model.scale, cw * model.scale, ch * model.scale,
+        x * model.scale, y * model.scale, cw * model.scale, ch * model.scale
+      );
+      await nextTick(signal);
+    }
+  }
+  return output;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Ghi DPI vào PNG (chunk pHYs ngay sau IHDR) để phần mềm in nhận đúng kích thước vật lý
+ */
+const withPngDpi = async (png: Blob, dpi: number): Promise<Blob> => {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const IHDR_END = 33; // 8 byte signature + chunk IHDR (4 len + 4 type + 13 data + 4 crc)
+  const pixelsPerMeter = Math.round(dpi / 0.0254);
+
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pixelsPerMeter);
+  view.setUint32(12, pixelsPerMeter);
+  chunk[16] = 1; // Đơn vị: mét
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  return new Blob([bytes.subarray(0, IHDR_END), chunk, bytes.subarray(IHDR_END)], { type: 'image/png' });
+};
+
+/**
+ * Phóng to ảnh lên kích thước in. Ảnh đích được ghép từ các tile `tileSize`,
+ * mỗi tile chỉ đọc đúng vùng nguồn cần thiết.
+ */
+export const upscaleImage = async (src: string, options: UpscaleOptions = {}): Promise<UpscaleResult> => {
+  const {
+    algorithm = 'lanczos',
+    targetWidth = PRINT_WIDTH,
+    dpi = PRINT_DPI,
+    tileSize = 512,
+    sharpenAmount = 0.6,
+    sharpenThreshold = 4,
+    signal,
+    onProgress,
+  } = options;
+
+  if (algorithm === 'super-resolution' && !superResolutionModel) {
+    throw new Error("Chưa tải model super-resolution.");
+  }
+
+  const img = await loadImage(src);
+  let source: HTMLCanvasElement;
+  if (algorithm === 'super-resolution') {
+    source = await applySuperResolution(img, superResolutionModel!, tileSize, signal);
+  } else {
+    source = createCanvas(img.naturalWidth, img.naturalHeight);
+    source.getContext('2d')!.drawImage(img, 0, 0);
+  }
+  const sourceCtx = source.getContext('2d', { willReadFrequently: true })!;
+
+  const width = Math.round(targetWidth);
+  const height = Math.round(width * img.naturalHeight / img.naturalWidth);
+  const xContribs = buildContributions(source.width, width);
+  const yContribs = buildContributions(source.height, height);
+
+  const output = createCanvas(width, height);
+  const outputCtx = output.getContext('2d')!;
+  const sharpen = algorithm === 'lanczos-sharpen';
+  const cols = Math.ceil(width / tileSize);
+  const rows = Math.ceil(height / tileSize);
+
+  for (let ty = 0; ty < rows; ty++) {
+    for (let tx = 0; tx < cols; tx++) {
+      const x = tx * tileSize;
+      const y = ty * tileSize;
+      const tileWidth = Math.min(tileSize, width - x);
+      const tileHeight = Math.min(tileSize, height - y);
+
+      if (sharpen) {
+        // Tính thêm viền 1px để blur 3x3 ở mép tile giống hệt ảnh liền
+        const ex = Math.max(0, x - 1);
+        const ey = Math.max(0, y - 1);
+        const expanded = {
+          x: ex,
+          y: ey,
+          width: Math.min(width, x + tileWidth + 1) - ex,
+          height: Math.min(height, y + tileHeight + 1) - ey,
+        };
+        const tile = resampleRect(sourceCtx, xContribs, yContribs, expanded);
+        const core = { x: x - ex, y: y - ey, width: tileWidth, height: tileHeight };
+        outputCtx.putImageData(sharpenEdges(tile, core, sharpenAmount, sharpenThreshold), x, y);
+      } else {
+        outputCtx.putImageData(resampleRect(sourceCtx, xContribs, yContribs, { x, y, width: tileWidth, height: tileHeight }), x, y);
+      }
+
+      onProgress?.(ty * cols + tx + 1, rows * cols);
+      await nextTick(signal);
+    }
+  }
+
+  const png = await new Promise<Blob>((resolve, reject) =>
+    output.toBlob(blob => blob ? resolve(blob) : reject(new Error("Không thể xuất PNG.")), 'image/png')
+  );
+  const blob = await withPngDpi(png, dpi);
+  return { blob, url: URL.createObjectURL(blob), width, height, algorithm, dpi };
+};
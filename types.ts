@@ -1,3 +1,11 @@
+import type { AspectRatio } from './services/imageProvider';
+import type { UpscaleAlgorithm } from './services/upscaler';
+import type { SeamReport } from './services/seamlessTile';
+import type { QcReport } from './services/qualityGate';
+import type { IpScreening } from './services/ipScreening';
+import type { DuplicateFlag } from './services/duplicateIndex';
+import type { ResultReview } from './services/resultReview';
+import type { ContentPart } from './services/imageProvider';
 
 export interface ImageFile {
   id: string;
@@ -10,19 +18,146 @@ export interface BatchItem {
   id: string;
   name: string;
   images: ImageFile[];
-  status: 'idle' | 'processing' | 'completed' | 'error' | 'stopping';
-  processingMode?: 'normal' | 'pro' | 'white' | 'pattern';
+  status: 'idle' | 'processing' | 'completed' | 'error' | 'stopping' | 'interrupted';
+  processingMode?: 'normal' | 'pro' | 'white' | 'pattern' | 'tile';
   resultsNormal: string[];
   resultsPro: string[];
   resultsWhite: string[];
   resultsPattern: string[];
+  resultsTile: string[]; // Tile lặp liền mạch (leggings, tất, vải in)
+  targetOutputs?: number; // Số output cần tạo cho lần chạy hiện tại (dùng khi resume)
   proBackgroundColor?: string; // Mặc định là đen
   customPrompt?: string;
-  insights?: string; // Lưu trữ phân tích insight
+  // Cấu hình riêng của batch (để trống = dùng cấu hình chung)
+  generationMode?: 'normal' | 'pro' | 'white' | 'pattern' | 'tile'; // Mode chạy khi bấm RUN trên card
+  outputsPerBatch?: number;
+  aspectRatio?: AspectRatio;
+  modelOverride?: string;
+  injectInsight?: boolean; // Đưa insight đã phân tích vào prompt thiết kế
+  insights?: CustomerInsight; // Lưu trữ phân tích insight
   isAnalyzingInsights?: boolean; // Trạng thái đang phân tích
+  upscaled?: Record<string, UpscaledAsset>; // Bản in độ phân giải cao, key = `${mode}:${index}`
+  cutouts?: Record<string, string>; // PNG trong suốt sau khi tách nền (normal/pro/white), cùng key với upscaled
+  seamReports?: Record<string, SeamReport>; // Kết quả kiểm tra đường nối của tile
+  qcReports?: Record<string, QcReport>; // Báo cáo QC pass/fail của pattern / tile
+  ipScreening?: IpScreening; // Kết quả sàng lọc trademark / bản quyền gần nhất
+  listing?: ListingCopy; // Nội dung listing cho marketplace (sửa được trên card)
+  isGeneratingListing?: boolean;
+  price?: number; // Giá bán khi xuất bulk-upload (để trống = giá mặc định)
+  variantColors?: string[]; // Màu variant khi xuất bulk-upload (để trống = màu mặc định)
+  keywordMetrics?: KeywordMetrics; // Số liệu nghiên cứu keyword (Helium 10)
+  competitors?: CompetitorProduct[]; // Sản phẩm đối thủ từ lần crawl (tham chiếu)
+  duplicateFlags?: Record<string, DuplicateFlag>; // Kết quả giống ảnh đối thủ / trùng kết quả khác, cùng key với upscaled
+  reviews?: Record<string, ResultReview>; // Hero / approved / rejected của từng kết quả, cùng key với upscaled
   error?: string;
 }
 
+// Bản upscale để in (cut-and-sew / DTG) của một kết quả
+export interface UpscaledAsset {
+  blob: Blob;
+  url: string; // Object URL của blob
+  width: number;
+  height: number;
+  algorithm: UpscaleAlgorithm;
+  dpi: number;
+}
+
+// Listing Amazon Merch on Demand
+export interface AmazonListing {
+  brand: string;
+  title: string;
+  bullets: string[]; // 2 bullet points
+  description: string;
+}
+
+export interface EtsyListing {
+  title: string;
+  tags: string[]; // Tối đa 13 tag, mỗi tag ≤ 20 ký tự
+  description: string;
+}
+
+export interface ListingCopy {
+  amazon: AmazonListing;
+  etsy: EtsyListing;
+  sourceKey?: string; // Kết quả (key `${mode}:${index}`) dùng làm ảnh thiết kế khi viết listing
+  generatedAt: number;
+}
+
+export interface CustomerPersona {
+  age: string;
+  gender: string;
+  education: string;
+  occupation: string;
+  income: string;
+  region: string;
+  familyPets: string; // Tình trạng gia đình / thú nuôi
+  ethnicityReligion: string;
+}
+
+// Kết quả phân tích insight dạng có cấu trúc (AI trả về JSON theo schema)
+export interface CustomerInsight {
+  keyword: string;
+  designElements: string[];
+  purchaseMotivations: string[];
+  persona: CustomerPersona;
+  conclusion: string;
+}
+
+export type EditTurnKind = 'original' | 'clone' | 'redesign' | 'creative' | 'masked';
+
+// Số liệu keyword từ file export của Helium 10 (Cerebro / Magnet)
+export interface KeywordMetrics {
+  searchVolume?: number;
+  competingProducts?: number;
+  searchVolumeTrend?: number; // % thay đổi search volume
+  cpc?: number; // Giá thầu PPC gợi ý (USD)
+  source: string; // Tên file đã import
+  importedAt: number;
+}
+
+// Sản phẩm đối thủ crawl từ trang tìm kiếm Amazon / Etsy
+export interface CompetitorProduct {
+  source: 'amazon' | 'etsy';
+  title: string;
+  price?: number;
+  currency?: string;
+  rating?: number; // Trên thang 5
+  reviewCount?: number;
+  url: string; // Link listing
+  imageUrl: string;
+  image?: string; // Ảnh đã tải về (base64), ứng viên cho input slot
+  hash?: string; // dHash của ảnh, dùng gom ảnh gần trùng
+  duplicateOf?: string; // Ảnh gần trùng đã có ở batch khác (phát hiện lúc crawl)
+  imageId?: string; // ImageFile tương ứng khi đang được dùng trong batch.images
+  crawledAt: number;
+}
+
+// Gợi ý keyword mở rộng từ một niche gốc
+export interface KeywordProposal {
+  keyword: string;
+  kind: 'subNiche' | 'audience' | 'occasion';
+  rationale: string; // Lý do AI đề xuất (nhu cầu, độ cạnh tranh, mùa vụ...)
+}
+
+export interface EditTurn {
+  id: string;
+  parentId: string | null; // null = pattern gốc (bản generate hoặc clone)
+  kind: EditTurnKind;
+  prompt: string;
+  image: string;
+  modelParts?: ContentPart[]; // Nội dung model trả về (kèm thoughtSignature) để gửi lại ở lượt sau; ảnh lấy từ image
+  createdAt: number;
+}
+
+// Cây version của một pattern: bản gốc và mọi lượt chỉnh sửa, có thể rẽ nhánh từ lượt bất kỳ
+export interface EditSession {
+  id: string;
+  theme: string;
+  turns: EditTurn[];
+  activeTurnId: string;
+  createdAt: number;
+}
+
 export interface ImageAdjustments {
   brightness: number;
   contrast: number;